@@ -0,0 +1,538 @@
+// Headless benchmark runner: executes a test configuration against an instance from the command line
+
+import './quietConsole';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  TestExecutionService,
+  ApiRequestFn,
+  TestCategoryKey,
+  defaultTestConfiguration,
+  resolveMeasurementSettings,
+  testCategories,
+} from '../services/testExecutionService';
+import { ExecutionControl } from '../services/executionControl';
+import { compareLimitSweep } from '../utils/limitSweep';
+import { compareQuerySweeps } from '../utils/querySweeps';
+import { summarizePayloads } from '../utils/payloadSize';
+import { makeAuthenticatedRequest, isAuthError } from '../services/authService';
+import { CustomRequest, ExecutionOrder, GraphQLValueShape, LimitSweep, MeasurementSettings, OutlierPolicy, PerformanceMetrics, RestDisplayValue, RestTuningMatrix, ServiceNowInstance, TestConfiguration, TestResult, TestStatus } from '../types';
+
+const USAGE = `Usage: npm run benchmark -- --url <instance url> [options]
+
+Connection:
+  --url <url>               Instance URL (or SN_INSTANCE_URL)
+  --auth <mode>             basic, oauth or apikey (default: basic)
+  --username <name>         User name (or SN_USERNAME)
+  --password <secret>       Password (or SN_PASSWORD)
+  --client-id <id>          OAuth client id (or SN_CLIENT_ID)
+  --client-secret <secret>  OAuth client secret (or SN_CLIENT_SECRET)
+  --access-token <token>    Existing OAuth access token (or SN_ACCESS_TOKEN)
+  --api-key <key>           REST API key sent as x-sn-apikey (or SN_API_KEY)
+
+Tests:
+  --config <file>           JSON TestConfiguration, merged over the defaults
+  --custom-requests <file>  Custom requests exported from the UI
+  --categories <list>       Comma separated categories to enable (others are disabled)
+  --variants <list>         Comma separated variants for the enabled categories
+  --limits <list>           Comma separated record limits for the enabled categories
+                            (page sizes for paginationTests)
+  --limit-sweep <spec>      from:to:steps[:log|linear] generated limits instead, e.g. 1:5000:12:log
+  --parallel-rest           Run the REST calls of multi-table scenarios concurrently
+  --max-concurrency <n>     REST calls in flight at once with --parallel-rest (default: 4)
+  --skip-batch              Leave the Batch API out of multi-table scenarios
+  --server-timing           Read server-side timing from syslog_transaction after every test (needs read access)
+
+Measurement (applied to every enabled category):
+  --warmup <runs>           Discarded warm-up calls per API
+  --iterations <count>      Measured calls per API
+  --cooldown <ms>           Pause between calls
+  --outliers <policy>       none, iqr or dropMinMax
+  --order <order>           restFirst, graphqlFirst, alternating or random
+  --seed <number>           Seed for --order random, to reproduce an earlier run
+
+REST tuning (every combination runs; all categories but aggregateTests and paginationTests):
+  --display-value <list>    sysparm_display_value values to compare: false, true, all
+  --exclude-reference-link  Also run with sysparm_exclude_reference_link=true
+  --no-count                Also run with sysparm_no_count=true
+  --suppress-pagination-header
+                            Also run with sysparm_suppress_pagination_header=true
+  --graphql-shape <shape>   GraphQL leaves: value, displayValue or both; REST gets the
+                            matching sysparm_display_value (false, true, all)
+
+Output:
+  --output <file>           Results file (default: benchmark-results.json)
+  --verbose                 Keep the service debug logging
+  --help                    Show this message
+`;
+
+interface CliOptions {
+  url: string;
+  auth: 'basic' | 'oauth' | 'apikey';
+  username?: string;
+  password?: string;
+  clientId?: string;
+  clientSecret?: string;
+  accessToken?: string;
+  apiKey?: string;
+  config?: string;
+  customRequests?: string;
+  categories?: string[];
+  variants?: string[];
+  limits?: number[];
+  limitSweep?: LimitSweep;
+  parallelRest: boolean;
+  maxConcurrency?: number;
+  skipBatch: boolean;
+  serverTiming: boolean;
+  measurement: Partial<MeasurementSettings>;
+  restTuning?: RestTuningMatrix;
+  graphqlShape?: GraphQLValueShape;
+  output: string;
+}
+
+// Everything written to the results file
+export interface BenchmarkReport {
+  instanceUrl: string;
+  startedAt: string;
+  finishedAt: string;
+  testConfiguration: TestConfiguration;
+  results: TestResult[];
+  statuses: TestStatus[];
+  metrics: PerformanceMetrics | null;
+  error?: string;
+  // Interrupted with Ctrl+C; results hold the tests finished before that
+  cancelled?: boolean;
+}
+
+class CliError extends Error {}
+
+function splitList(value?: string): string[] | undefined {
+  if (!value) return undefined;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseCliOptions(argv: string[]): CliOptions | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      url: { type: 'string' },
+      auth: { type: 'string', default: 'basic' },
+      username: { type: 'string' },
+      password: { type: 'string' },
+      'client-id': { type: 'string' },
+      'client-secret': { type: 'string' },
+      'access-token': { type: 'string' },
+      'api-key': { type: 'string' },
+      config: { type: 'string' },
+      'custom-requests': { type: 'string' },
+      categories: { type: 'string' },
+      variants: { type: 'string' },
+      limits: { type: 'string' },
+      'limit-sweep': { type: 'string' },
+      'parallel-rest': { type: 'boolean', default: false },
+      'max-concurrency': { type: 'string' },
+      'skip-batch': { type: 'boolean', default: false },
+      'server-timing': { type: 'boolean', default: false },
+      warmup: { type: 'string' },
+      iterations: { type: 'string' },
+      cooldown: { type: 'string' },
+      outliers: { type: 'string' },
+      order: { type: 'string' },
+      seed: { type: 'string' },
+      'display-value': { type: 'string' },
+      'exclude-reference-link': { type: 'boolean', default: false },
+      'no-count': { type: 'boolean', default: false },
+      'suppress-pagination-header': { type: 'boolean', default: false },
+      'graphql-shape': { type: 'string' },
+      output: { type: 'string', default: 'benchmark-results.json' },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) return null;
+
+  const url = values.url || process.env.SN_INSTANCE_URL;
+  if (!url) {
+    throw new CliError('An instance URL is required (--url or SN_INSTANCE_URL)');
+  }
+
+  if (values.auth !== 'basic' && values.auth !== 'oauth' && values.auth !== 'apikey') {
+    throw new CliError(`Unknown auth mode "${values.auth}" (expected basic, oauth or apikey)`);
+  }
+
+  const limits = splitList(values.limits)?.map(Number);
+  if (limits && limits.some(limit => !Number.isInteger(limit) || limit <= 0)) {
+    throw new CliError(`Invalid record limits "${values.limits}"`);
+  }
+
+  let limitSweep: LimitSweep | undefined;
+  if (values['limit-sweep']) {
+    const [from, to, steps, scale = 'log'] = values['limit-sweep'].split(':');
+    limitSweep = { from: Number(from), to: Number(to), steps: Number(steps), scale: scale as LimitSweep['scale'] };
+    const counts = [limitSweep.from, limitSweep.to, limitSweep.steps];
+    if (counts.some(count => !Number.isInteger(count) || count <= 0) || limitSweep.steps < 2 || (scale !== 'log' && scale !== 'linear')) {
+      throw new CliError(`Invalid --limit-sweep "${values['limit-sweep']}" (expected from:to:steps[:log|linear], at least 2 steps)`);
+    }
+  }
+
+  const maxConcurrency = values['max-concurrency'] === undefined ? undefined : Number(values['max-concurrency']);
+  if (maxConcurrency !== undefined && (!Number.isInteger(maxConcurrency) || maxConcurrency < 1)) {
+    throw new CliError(`Invalid --max-concurrency "${values['max-concurrency']}"`);
+  }
+
+  const measurement: Partial<MeasurementSettings> = {};
+  const counts = [['warmup', 'warmupRuns', 0], ['iterations', 'iterations', 1], ['cooldown', 'cooldownMs', 0]] as const;
+  for (const [flag, key, min] of counts) {
+    if (values[flag] === undefined) continue;
+    const count = Number(values[flag]);
+    if (!Number.isInteger(count) || count < min) {
+      throw new CliError(`Invalid --${flag} "${values[flag]}"`);
+    }
+    measurement[key] = count;
+  }
+  if (values.outliers !== undefined) {
+    const policies: OutlierPolicy[] = ['none', 'iqr', 'dropMinMax'];
+    if (!policies.includes(values.outliers as OutlierPolicy)) {
+      throw new CliError(`Unknown outlier policy "${values.outliers}" (expected ${policies.join(', ')})`);
+    }
+    measurement.outlierPolicy = values.outliers as OutlierPolicy;
+  }
+  if (values.order !== undefined) {
+    const orders: ExecutionOrder[] = ['restFirst', 'graphqlFirst', 'alternating', 'random'];
+    if (!orders.includes(values.order as ExecutionOrder)) {
+      throw new CliError(`Unknown execution order "${values.order}" (expected ${orders.join(', ')})`);
+    }
+    measurement.executionOrder = values.order as ExecutionOrder;
+  }
+  if (values.seed !== undefined) {
+    const seed = Number(values.seed);
+    if (!Number.isInteger(seed) || seed < 0) {
+      throw new CliError(`Invalid --seed "${values.seed}"`);
+    }
+    measurement.orderSeed = seed;
+  }
+
+  const displayValues = splitList(values['display-value']) || [];
+  const unknownDisplayValues = displayValues.filter(value => !['false', 'true', 'all'].includes(value));
+  if (unknownDisplayValues.length > 0) {
+    throw new CliError(`Unknown display values: ${unknownDisplayValues.join(', ')} (expected false, true, all)`);
+  }
+  const alsoTrue = (flag: boolean) => (flag ? [false, true] : []);
+  const restTuning: RestTuningMatrix = {
+    displayValue: displayValues as RestDisplayValue[],
+    excludeReferenceLink: alsoTrue(values['exclude-reference-link']),
+    noCount: alsoTrue(values['no-count']),
+    suppressPaginationHeader: alsoTrue(values['suppress-pagination-header']),
+  };
+  const tuned = Object.values(restTuning).some(axis => axis.length > 0);
+
+  const shapes: GraphQLValueShape[] = ['value', 'displayValue', 'both'];
+  const graphqlShape = values['graphql-shape'] as GraphQLValueShape | undefined;
+  if (graphqlShape !== undefined && !shapes.includes(graphqlShape)) {
+    throw new CliError(`Unknown GraphQL shape "${graphqlShape}" (expected ${shapes.join(', ')})`);
+  }
+
+  const categories = splitList(values.categories);
+  const knownCategories = testCategories.map(category => category.key as string);
+  const unknownCategories = (categories || []).filter(category => !knownCategories.includes(category));
+  if (unknownCategories.length > 0) {
+    throw new CliError(`Unknown categories: ${unknownCategories.join(', ')} (expected ${knownCategories.join(', ')})`);
+  }
+
+  return {
+    url,
+    auth: values.auth,
+    username: values.username || process.env.SN_USERNAME,
+    password: values.password || process.env.SN_PASSWORD,
+    clientId: values['client-id'] || process.env.SN_CLIENT_ID,
+    clientSecret: values['client-secret'] || process.env.SN_CLIENT_SECRET,
+    accessToken: values['access-token'] || process.env.SN_ACCESS_TOKEN,
+    apiKey: values['api-key'] || process.env.SN_API_KEY,
+    config: values.config,
+    customRequests: values['custom-requests'],
+    categories,
+    variants: splitList(values.variants),
+    limits,
+    limitSweep,
+    parallelRest: values['parallel-rest'],
+    maxConcurrency,
+    skipBatch: values['skip-batch'],
+    serverTiming: values['server-timing'],
+    measurement,
+    restTuning: tuned ? restTuning : undefined,
+    graphqlShape,
+    output: values.output,
+  };
+}
+
+function readJsonFile<T>(path: string): T {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as T;
+  } catch (error) {
+    throw new CliError(`Could not read ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Merge the config file and flags over the default configuration, category by category
+function resolveTestConfiguration(options: CliOptions): TestConfiguration {
+  const fileConfig = options.config ? readJsonFile<Partial<TestConfiguration>>(options.config) : {};
+  const testConfiguration = structuredClone(defaultTestConfiguration);
+
+  for (const { key } of testCategories) {
+    const override = fileConfig[key];
+    if (!override) continue;
+
+    Object.assign(testConfiguration[key], override, {
+      parameters: { ...testConfiguration[key].parameters, ...override.parameters },
+    });
+  }
+
+  for (const { key } of testCategories) {
+    const categoryConfig = testConfiguration[key] as TestConfiguration[TestCategoryKey] & {
+      selectedLimits?: number[];
+      limitSweep?: LimitSweep;
+      restTuning?: RestTuningMatrix;
+      graphqlShape?: GraphQLValueShape;
+    };
+
+    if (options.categories) {
+      categoryConfig.enabled = options.categories.includes(key);
+    }
+    if (!categoryConfig.enabled) continue;
+
+    if (options.variants) {
+      categoryConfig.selectedVariants = options.variants;
+    }
+    const limited = key !== 'realWorldScenarios' && key !== 'aggregateTests';
+    if (options.limits && limited) {
+      categoryConfig.selectedLimits = options.limits;
+    }
+    if (options.limitSweep && limited) {
+      categoryConfig.limitSweep = options.limitSweep;
+    }
+    if (Object.keys(options.measurement).length > 0) {
+      categoryConfig.measurement = resolveMeasurementSettings(categoryConfig.measurement, options.measurement);
+    }
+    const tunable = key !== 'aggregateTests' && key !== 'paginationTests';
+    if (options.restTuning && tunable) {
+      categoryConfig.restTuning = options.restTuning;
+    }
+    if (options.graphqlShape && tunable) {
+      categoryConfig.graphqlShape = options.graphqlShape;
+    }
+  }
+
+  if (options.parallelRest || options.maxConcurrency !== undefined) {
+    testConfiguration.multiTableTests.parameters = {
+      ...testConfiguration.multiTableTests.parameters,
+      parallelRest: true,
+      ...(options.maxConcurrency !== undefined && { maxConcurrency: options.maxConcurrency }),
+    };
+  }
+  if (options.skipBatch) {
+    testConfiguration.multiTableTests.parameters = { ...testConfiguration.multiTableTests.parameters, batchApi: false };
+  }
+
+  return testConfiguration;
+}
+
+async function createRequestFn(options: CliOptions): Promise<ApiRequestFn> {
+  if (options.auth === 'basic') {
+    if (!options.username || !options.password) {
+      throw new CliError('Basic auth needs --username and --password (or SN_USERNAME / SN_PASSWORD)');
+    }
+    return makeAuthenticatedRequest;
+  }
+
+  if (options.auth === 'apikey') {
+    if (!options.apiKey) {
+      throw new CliError('API key auth needs --api-key (or SN_API_KEY)');
+    }
+    return makeAuthenticatedRequest;
+  }
+
+  if (!options.accessToken) {
+    if (!options.clientId || !options.clientSecret) {
+      throw new CliError('OAuth needs --access-token or both --client-id and --client-secret');
+    }
+    // Tokens are fetched, refreshed before expiry and renewed after a 401 by the auth service
+    return makeAuthenticatedRequest;
+  }
+
+  const accessToken = options.accessToken;
+  const baseUrl = options.url.replace(/\/$/, '');
+
+  return (endpoint, init) => fetch(endpoint.startsWith('http') ? endpoint : `${baseUrl}/${endpoint.replace(/^\//, '')}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init.headers,
+      'Authorization': `Bearer ${accessToken}`,
+    },
+  });
+}
+
+function formatMs(value: number): string {
+  return `${value.toFixed(0)}ms`;
+}
+
+function formatKb(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)}KB`;
+}
+
+async function run(argv: string[]): Promise<number> {
+  const options = parseCliOptions(argv);
+  if (!options) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const testConfiguration = resolveTestConfiguration(options);
+  const customRequests = options.customRequests ? readJsonFile<CustomRequest[]>(options.customRequests) : [];
+  const plan = TestExecutionService.buildTestPlan(testConfiguration, customRequests);
+
+  if (plan.length === 0) {
+    throw new CliError('The configuration does not select any tests');
+  }
+
+  const instance: ServiceNowInstance = {
+    url: options.url,
+    username: options.username || '',
+    password: options.password || '',
+    token: '',
+    connected: false,
+    authMode: options.auth,
+    apiKey: options.apiKey,
+    // Password grant when --username/--password are given, client credentials otherwise
+    oauth: options.auth === 'oauth' && options.clientId && options.clientSecret ? {
+      grantType: options.username && options.password ? 'password' : 'client_credentials',
+      clientId: options.clientId,
+      clientSecret: options.clientSecret,
+    } : undefined,
+  };
+
+  const request = await createRequestFn(options);
+  const probe = await request('api/now/table/sys_user?sysparm_limit=1', { method: 'GET' }, instance);
+  if (!probe.ok) {
+    throw new CliError(`Could not authenticate against ${options.url}: ${probe.status} ${probe.statusText}`);
+  }
+  instance.connected = true;
+
+  process.stdout.write(`Running ${plan.length} tests against ${options.url}\n`);
+
+  const results: TestResult[] = [];
+  const statuses = new Map<string, TestStatus>();
+  let metrics: PerformanceMetrics | null = null;
+  let finished = 0;
+  const startedAt = new Date();
+
+  // First Ctrl+C cancels the run and still writes the partial results, a second one exits immediately
+  const control = new ExecutionControl();
+  process.on('SIGINT', () => {
+    if (control.isCancelled) process.exit(130);
+    process.stderr.write('\nCancelling, press Ctrl+C again to exit without writing results\n');
+    control.cancel();
+  });
+
+  const outcome = await TestExecutionService.executeTests(instance, testConfiguration, action => {
+    switch (action.type) {
+      case 'ADD_TEST_RESULT':
+        results.push(action.payload);
+        break;
+      case 'UPDATE_METRICS':
+        metrics = action.payload;
+        break;
+      case 'UPDATE_TEST_STATUS': {
+        const status: TestStatus = { ...statuses.get(action.payload.id), ...action.payload };
+        const previous = statuses.get(status.id)?.status;
+        statuses.set(status.id, status);
+
+        if (status.status === previous) break;
+        const prefix = `[${String(finished + 1).padStart(String(plan.length).length)}/${plan.length}]`;
+
+        if (status.status === 'running') {
+          process.stdout.write(`${prefix} ${status.testType} ...\n`);
+        } else if (status.status === 'completed') {
+          const result = results.find(r => r.id === status.id);
+          const pValue = result?.statistics ? ` (p=${result.statistics.significance.pValue.toFixed(3)})` : '';
+          const restSum = result?.restApi.batchTiming?.mode === 'parallel' ? ` (sum ${formatMs(result.restApi.batchTiming.sequentialSum)})` : '';
+          const seed = result?.executionOrder?.seed !== undefined ? ` [seed ${result.executionOrder.seed}]` : '';
+          process.stdout.write(
+            `${prefix} ${status.testType}: REST ${formatMs(result?.restApi.responseTime ?? 0)}${restSum}` +
+            ` / GraphQL ${formatMs(result?.graphqlApi.responseTime ?? 0)}` +
+            `${result?.batchApi ? ` / Batch ${formatMs(result.batchApi.responseTime)}` : ''} -> ${result?.winner ?? 'n/a'}${pValue}${seed}\n`
+          );
+          finished++;
+        } else if (status.status === 'failed') {
+          process.stdout.write(`${prefix} ${status.testType}: FAILED ${status.error}\n`);
+          finished++;
+        }
+        break;
+      }
+    }
+  }, customRequests, { request, control, serverTiming: options.serverTiming });
+
+  const report: BenchmarkReport = {
+    instanceUrl: options.url,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    testConfiguration,
+    results,
+    statuses: Array.from(statuses.values()),
+    metrics,
+    error: outcome.error,
+    cancelled: outcome.cancelled,
+  };
+
+  writeFileSync(options.output, JSON.stringify(report, null, 2));
+
+  if (metrics) {
+    process.stdout.write(
+      `\nREST wins: ${metrics.restWins}, GraphQL wins: ${metrics.graphqlWins}` +
+      `${metrics.batchWins ? `, Batch wins: ${metrics.batchWins}` : ''}, tests: ${metrics.totalTests}\n` +
+      `Average REST ${formatMs(metrics.averageRestResponseTime)}, GraphQL ${formatMs(metrics.averageGraphqlResponseTime)}\n`
+    );
+  }
+  const decoded = summarizePayloads(results, 'decoded');
+  const transferred = summarizePayloads(results, 'transferred');
+  if (decoded.compared > 0) {
+    const ratio = (value?: number) => (value === undefined ? 'n/a' : `${value.toFixed(1)}x`);
+    process.stdout.write(
+      `Payload decoded REST ${formatKb(decoded.rest)}, GraphQL ${formatKb(decoded.graphql)}` +
+      (transferred.compared > 0 ? `; transferred REST ${formatKb(transferred.rest)}, GraphQL ${formatKb(transferred.graphql)}` : '') +
+      `; compression REST ${ratio(transferred.restCompression)}, GraphQL ${ratio(transferred.graphqlCompression)}\n`
+    );
+  }
+  for (const sweep of compareLimitSweep(results)) {
+    const crossovers = sweep.latencyCrossovers.map(crossover => `${crossover.aheadAbove === 'graphql' ? 'GraphQL' : 'REST'} faster above ~${crossover.limit}`);
+    process.stdout.write(`Limit sweep ${sweep.testType}: ${crossovers.length > 0 ? crossovers.join(', ') : 'no crossover in range'}\n`);
+  }
+  for (const sweep of compareQuerySweeps(results)) {
+    const perStep = (slope?: number) => (slope === undefined ? 'n/a' : `${slope.toFixed(1)}ms`);
+    const step = sweep.dimension === 'fields' ? 'field' : 'level';
+    process.stdout.write(`Query sweep ${sweep.testType}: REST ${perStep(sweep.latencyPerStep.rest)} / GraphQL ${perStep(sweep.latencyPerStep.graphql)} per ${step}\n`);
+  }
+  if (outcome.cancelled) {
+    const notRun = report.statuses.filter(status => status.status === 'cancelled').length;
+    process.stdout.write(`Run cancelled, ${notRun} tests not run\n`);
+  }
+  process.stdout.write(`Results written to ${options.output}\n`);
+
+  if (outcome.cancelled) return 130;
+  return outcome.success ? 0 : 1;
+}
+
+// Exit explicitly: the response caches keep cleanup timers alive
+function exit(code: number) {
+  process.stdout.write('', () => process.exit(code));
+}
+
+run(process.argv.slice(2))
+  .then(exit)
+  .catch(error => {
+    const expected = error instanceof CliError || isAuthError(error);
+    process.stderr.write(`${expected ? error.message : error?.stack || error}\n`);
+    exit(expected ? 2 : 1);
+  });
@@ -0,0 +1,5 @@
+// Imported first by the CLI so the services' browser-console logging stays off stdout unless --verbose is given
+if (!process.argv.includes('--verbose')) {
+  console.log = () => {};
+  console.warn = () => {};
+}
@@ -4,12 +4,14 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Copy, Check } from 'lucide-react';
-import { DataComparisonResult } from '@/types';
+import { BatchComparisonStatistics, CallTimingLog, ComparisonStatistics, DataComparisonResult, ResponseTimeStatistics } from '@/types';
+import { NetworkTimingDetails } from './NetworkTimingDetails';
+import { ServerTimingDetails } from './ServerTimingDetails';
 
 interface ApiCallDetailsModalProps {
   open: boolean;
   onClose: () => void;
-  restApiCall?: {
+  restApiCall?: CallTimingLog & {
     url?: string;
     endpoint?: string;
     method: string;
@@ -20,7 +22,7 @@ interface ApiCallDetailsModalProps {
     responseBody?: unknown;
     headers?: Record<string, string>;
   };
-  graphqlApiCall?: {
+  graphqlApiCall?: CallTimingLog & {
     url?: string;
     endpoint?: string;
     method: string;
@@ -33,7 +35,11 @@ interface ApiCallDetailsModalProps {
     responseBody?: unknown;
     headers?: Record<string, string>;
   };
+  // Multi-table scenarios run with the Batch API
+  batchApiCall?: ApiCallDetailsModalProps['restApiCall'];
   dataComparison?: DataComparisonResult;
+  statistics?: ComparisonStatistics;
+  batchStatistics?: BatchComparisonStatistics;
 }
 
 function formatJson(obj: unknown) {
@@ -45,7 +51,24 @@ function formatJson(obj: unknown) {
   }
 }
 
-export const ApiCallDetailsModal: React.FC<ApiCallDetailsModalProps> = ({ open, onClose, restApiCall, graphqlApiCall, dataComparison }) => {
+const statisticRows: Array<{ label: string; key: keyof ResponseTimeStatistics; unit: string }> = [
+  { label: 'Samples', key: 'sampleCount', unit: '' },
+  { label: 'Median', key: 'median', unit: 'ms' },
+  { label: 'Mean', key: 'mean', unit: 'ms' },
+  { label: 'Min', key: 'min', unit: 'ms' },
+  { label: 'Max', key: 'max', unit: 'ms' },
+  { label: 'p90', key: 'p90', unit: 'ms' },
+  { label: 'p95', key: 'p95', unit: 'ms' },
+  { label: 'p99', key: 'p99', unit: 'ms' },
+  { label: 'Std Deviation', key: 'standardDeviation', unit: 'ms' },
+  { label: 'Coefficient of Variation', key: 'coefficientOfVariation', unit: '%' },
+];
+
+function formatStatistic(value: number, unit: string) {
+  return unit ? `${value.toFixed(2)}${unit}` : String(value);
+}
+
+export const ApiCallDetailsModal: React.FC<ApiCallDetailsModalProps> = ({ open, onClose, restApiCall, graphqlApiCall, batchApiCall, dataComparison, statistics, batchStatistics }) => {
   const [copiedStates, setCopiedStates] = useState<Record<string, boolean>>({});
 
 
@@ -91,6 +114,8 @@ export const ApiCallDetailsModal: React.FC<ApiCallDetailsModalProps> = ({ open,
             {dataComparison && <TabsTrigger value="comparison">Data Comparison</TabsTrigger>}
             {restApiCall && <TabsTrigger value="rest">REST</TabsTrigger>}
             {graphqlApiCall && <TabsTrigger value="graphql">GraphQL</TabsTrigger>}
+            {batchApiCall && <TabsTrigger value="batch">Batch API</TabsTrigger>}
+            {statistics && <TabsTrigger value="statistics">Statistics</TabsTrigger>}
           </TabsList>
           {restApiCall && (
             <TabsContent value="rest" className="flex-1 overflow-auto">
@@ -124,6 +149,9 @@ export const ApiCallDetailsModal: React.FC<ApiCallDetailsModalProps> = ({ open,
                     {restApiCall.success === true ? "✓ Success" : restApiCall.success === false ? "✗ Failed" : "Unknown"}
                   </Badge>
                 </div>
+
+                <NetworkTimingDetails call={restApiCall} />
+                <ServerTimingDetails call={restApiCall} />
                 
                 {restApiCall.requestBody && (
                   <div>
@@ -176,6 +204,9 @@ export const ApiCallDetailsModal: React.FC<ApiCallDetailsModalProps> = ({ open,
                     {graphqlApiCall.success === true ? "✓ Success" : graphqlApiCall.success === false ? "✗ Failed" : "Unknown"}
                   </Badge>
                 </div>
+
+                <NetworkTimingDetails call={graphqlApiCall} />
+                <ServerTimingDetails call={graphqlApiCall} />
                 
                 {graphqlApiCall.query && (
                   <div>
@@ -313,6 +344,120 @@ export const ApiCallDetailsModal: React.FC<ApiCallDetailsModalProps> = ({ open,
               </div>
             </TabsContent>
           )}
+          {batchApiCall && (
+            <TabsContent value="batch" className="flex-1 overflow-auto">
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <strong>URL:</strong>
+                  <CopyButton content={batchApiCall.url || batchApiCall.endpoint || ''} copyKey="batch-url" />
+                </div>
+                <div className="font-mono break-all text-sm bg-gray-50 p-2 rounded">{batchApiCall.url || batchApiCall.endpoint || 'N/A'}</div>
+                
+                <div><strong>Method:</strong> <span className="font-mono">{batchApiCall.method}</span></div>
+                
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <strong>Response Time:</strong> 
+                    <span className="font-mono">
+                      {typeof batchApiCall.responseTime === 'number' ? batchApiCall.responseTime.toFixed(2) : 'N/A'}ms
+                    </span>
+                  </div>
+                  <div>
+                    <strong>Payload Size:</strong> 
+                    <span className="font-mono">
+                      {typeof batchApiCall.payloadSize === 'number' ? (batchApiCall.payloadSize / 1024).toFixed(2) : 'N/A'}KB
+                    </span>
+                  </div>
+                </div>
+                
+                <div>
+                  <strong>Success:</strong> 
+                  <Badge variant={batchApiCall.success === true ? "default" : batchApiCall.success === false ? "destructive" : "secondary"}>
+                    {batchApiCall.success === true ? "✓ Success" : batchApiCall.success === false ? "✗ Failed" : "Unknown"}
+                  </Badge>
+                </div>
+
+                <NetworkTimingDetails call={batchApiCall} />
+                <ServerTimingDetails call={batchApiCall} />
+                
+                {batchApiCall.requestBody && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <strong>Request Body:</strong>
+                      <CopyButton content={formatJson(batchApiCall.requestBody)} copyKey="batch-request" />
+                    </div>
+                    <pre className="bg-gray-100 p-2 rounded text-xs overflow-auto max-h-32">{formatJson(batchApiCall.requestBody)}</pre>
+                  </div>
+                )}
+                {batchApiCall.responseBody && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <strong>Response Body:</strong>
+                      <CopyButton content={formatJson(batchApiCall.responseBody)} copyKey="batch-response" />
+                    </div>
+                    <pre className="bg-gray-100 p-2 rounded text-xs overflow-auto max-h-64">{formatJson(batchApiCall.responseBody)}</pre>
+                  </div>
+                )}
+              </div>
+            </TabsContent>
+          )}
+          {statistics && (
+            <TabsContent value="statistics" className="flex-1 overflow-auto">
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <strong>Significance:</strong>
+                  <Badge variant={statistics.significance.significant ? "default" : "secondary"}>
+                    {statistics.significance.significant ? "✓ Significant" : "No significant difference"}
+                  </Badge>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <strong>p-value:</strong> <span className="font-mono">{statistics.significance.pValue.toFixed(4)}</span>
+                  </div>
+                  <div>
+                    <strong>Test:</strong>{' '}
+                    <span className="font-mono">
+                      Mann-Whitney U = {statistics.significance.statistic} ({statistics.significance.exact ? 'exact' : 'normal approx.'}, α={statistics.significance.alpha})
+                    </span>
+                  </div>
+                  <div>
+                    <strong>Median Difference:</strong>{' '}
+                    <span className="font-mono">{statistics.medianDifference.toFixed(2)}ms (GraphQL − REST)</span>
+                  </div>
+                  {batchStatistics && (
+                    <div>
+                      <strong>Batch API:</strong>{' '}
+                      <span className="font-mono">
+                        p={batchStatistics.versusRest.pValue.toFixed(4)} vs REST, p={batchStatistics.versusGraphql.pValue.toFixed(4)} vs GraphQL
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                <table className="w-full text-sm text-left">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="p-1"></th>
+                      <th className="p-1 text-right">REST</th>
+                      <th className="p-1 text-right">GraphQL</th>
+                      {batchStatistics && <th className="p-1 text-right">Batch API</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {statisticRows.map(({ label, key, unit }) => (
+                      <tr key={key} className="border-b">
+                        <td className="p-1">{label}</td>
+                        <td className="p-1 text-right font-mono">{formatStatistic(statistics.rest[key], unit)}</td>
+                        <td className="p-1 text-right font-mono">{formatStatistic(statistics.graphql[key], unit)}</td>
+                        {batchStatistics && <td className="p-1 text-right font-mono">{formatStatistic(batchStatistics.batch[key], unit)}</td>}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </TabsContent>
+          )}
         </Tabs>
       </DialogContent>
     </Dialog>
@@ -2,17 +2,25 @@
 import React, { useState, useEffect } from 'react';
 import { TimelineView } from './Timeline/TimelineView';
 import { TestCompletionModal } from './TestCompletionModal';
+import { MatrixResults } from './MatrixResults';
+import { UserAccessResults } from './UserAccessResults';
+import { RestTuningResults } from './RestTuningResults';
+import { PaginationResults } from './PaginationResults';
+import { LimitSweepResults } from './LimitSweepResults';
+import { QuerySweepResults } from './QuerySweepResults';
 import { useBenchmark } from '../../contexts/BenchmarkContext';
 import { Card } from '../ui/card';
 import { Button } from '../ui/button';
-import { Maximize2, Minimize2, Activity, Trophy } from 'lucide-react';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Maximize2, Minimize2, Activity, Trophy, History } from 'lucide-react';
 
 export function ExecutionArea() {
   const { state, dispatch } = useBenchmark();
-  const { testResults, performanceMetrics, isRunning, completionModalDismissed } = state;
+  const { testResults, performanceMetrics, isRunning, completionModalDismissed, loadedRun } = state;
   const [isExpanded, setIsExpanded] = useState(false);
   const [showCompletionModal, setShowCompletionModal] = useState(false);
   const [hasShownCompletion, setHasShownCompletion] = useState(false);
+  const loadedRunId = loadedRun?.id;
 
   const handleTestSelect = (testId: string) => {
     // Handle test selection - could open details modal or navigate
@@ -44,6 +52,11 @@ export function ExecutionArea() {
     }
   }, [isRunning, hasShownCompletion]);
 
+  // Show the completion summary again for a reopened run
+  useEffect(() => {
+    setHasShownCompletion(false);
+  }, [loadedRunId]);
+
   return (
     <div className="space-y-6">
       <TestCompletionModal
@@ -55,7 +68,16 @@ export function ExecutionArea() {
         testResults={testResults}
         performanceMetrics={performanceMetrics}
       />
-      
+
+      {loadedRun && !isRunning && (
+        <Alert>
+          <History className="h-4 w-4" />
+          <AlertDescription>
+            Viewing saved run <strong>{loadedRun.name}</strong> from {new Date(loadedRun.startedAt).toLocaleString()}
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Timeline View */}
       <TimelineView
         maxHeight={isExpanded ? '80vh' : '70vh'}
@@ -67,6 +89,13 @@ export function ExecutionArea() {
         isExpanded={isExpanded}
         onToggleExpanded={() => setIsExpanded(!isExpanded)}
       />
+
+      <MatrixResults testResults={testResults} />
+      <UserAccessResults testResults={testResults} />
+      <RestTuningResults testResults={testResults} />
+      <PaginationResults testResults={testResults} />
+      <LimitSweepResults testResults={testResults} />
+      <QuerySweepResults testResults={testResults} />
     </div>
   );
 }
@@ -0,0 +1,114 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '../ui/chart';
+import { TrendingUp } from 'lucide-react';
+import { LimitSweepCrossover, LimitSweepReport, TestResult } from '../../types';
+import { compareLimitSweep } from '../../utils/limitSweep';
+
+interface LimitSweepResultsProps {
+  testResults: TestResult[];
+}
+
+const chartConfig = {
+  rest: { label: 'REST', color: '#2563eb' },
+  graphql: { label: 'GraphQL', color: '#16a34a' },
+} satisfies ChartConfig;
+
+const apiLabels = { rest: 'REST', graphql: 'GraphQL' };
+
+function CrossoverBadges({ crossovers, ahead }: { crossovers: LimitSweepCrossover[]; ahead: string }) {
+  if (crossovers.length === 0) {
+    return <Badge variant="outline" className="text-xs">no crossover in range</Badge>;
+  }
+  return (
+    <>
+      {crossovers.map(crossover => (
+        <Badge key={`${crossover.limit}-${crossover.aheadAbove}`} variant="secondary" className="text-xs">
+          {apiLabels[crossover.aheadAbove]} {ahead} above ~{crossover.limit} records
+        </Badge>
+      ))}
+    </>
+  );
+}
+
+// REST and GraphQL curves over the swept limits, crossovers marked
+function SweepChart({ report, metric }: { report: LimitSweepReport; metric: 'latency' | 'payload' }) {
+  const crossovers = metric === 'latency' ? report.latencyCrossovers : report.payloadCrossovers;
+  const data = report.points.map(point => ({
+    limit: point.limit,
+    rest: metric === 'latency' ? point.restResponseTime : point.restPayloadSize && point.restPayloadSize / 1024,
+    graphql: metric === 'latency' ? point.graphqlResponseTime : point.graphqlPayloadSize && point.graphqlPayloadSize / 1024,
+  }));
+  const unit = metric === 'latency' ? 'ms' : 'KB';
+
+  return (
+    <ChartContainer config={chartConfig} className="h-56 w-full">
+      <LineChart data={data} margin={{ left: 8, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="limit"
+          type="number"
+          scale={report.scale === 'log' ? 'log' : 'linear'}
+          domain={['dataMin', 'dataMax']}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis tickLine={false} axisLine={false} unit={unit} width={64} />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload[0]?.payload.limit} records`} />}
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {crossovers.map(crossover => (
+          <ReferenceLine key={crossover.limit} x={crossover.limit} stroke="#9ca3af" strokeDasharray="4 4" />
+        ))}
+        <Line dataKey="rest" stroke="var(--color-rest)" strokeWidth={2} isAnimationActive={false} />
+        <Line dataKey="graphql" stroke="var(--color-graphql)" strokeWidth={2} isAnimationActive={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+// Latency and payload of every swept scenario against the record limit, with the limits where the APIs trade places
+export function LimitSweepResults({ testResults }: LimitSweepResultsProps) {
+  const reports = compareLimitSweep(testResults);
+  if (reports.length === 0) return null;
+
+  const withCrossover = reports.filter(report => report.latencyCrossovers.length > 0).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Limit Sweep
+          <Badge variant="secondary" className="ml-2">
+            {withCrossover} of {reports.length} scenarios change winner within the range
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {reports.map(report => (
+          <div key={report.id} className="space-y-3">
+            <div className="font-medium">{report.testType}</div>
+            <div className="grid gap-4 lg:grid-cols-2">
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  Latency <CrossoverBadges crossovers={report.latencyCrossovers} ahead="faster" />
+                </div>
+                <SweepChart report={report} metric="latency" />
+              </div>
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  Payload <CrossoverBadges crossovers={report.payloadCrossovers} ahead="smaller" />
+                </div>
+                <SweepChart report={report} metric="payload" />
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -97,6 +97,7 @@ export const LiveConsole: React.FC<LiveConsoleProps> = ({
             graphqlTime: result.graphqlApi.responseTime,
             restPayload: result.restApi.payloadSize,
             graphqlPayload: result.graphqlApi.payloadSize,
+            batchTime: result.batchApi?.responseTime,
             winner: result.winner,
             requestCount: {
               rest: result.restApi.requestCount,
@@ -140,13 +141,14 @@ export const LiveConsole: React.FC<LiveConsoleProps> = ({
           const isMultiTable = result && result.restApi.requestCount > result.graphqlApi.requestCount;
           
           if (isMultiTable) {
-            const numRestCalls = result.restApi.requestCount / 3;
+            const numRestCalls = result.restApi.requestCount;
+            const batchPart = performance.batchTime !== undefined ? ` vs Batch 1 request (${performance.batchTime.toFixed(2)}ms)` : '';
             newLogs.push({
               id: `${status.id}-perf-breakdown`,
               timestamp: status.endTime,
               level: 'info',
               category: 'performance',
-              message: `Performance: REST ${numRestCalls} calls (${performance.restTime.toFixed(2)}ms) vs GraphQL 1 query (${performance.graphqlTime.toFixed(2)}ms) - ${performance.winner.toUpperCase()} wins`,
+              message: `Performance: REST ${numRestCalls} calls (${performance.restTime.toFixed(2)}ms) vs GraphQL 1 query (${performance.graphqlTime.toFixed(2)}ms)${batchPart} - ${performance.winner.toUpperCase()} wins`,
               testId: status.id,
               testType: status.testType,
               metadata: {
@@ -207,6 +209,21 @@ export const LiveConsole: React.FC<LiveConsoleProps> = ({
           }
         });
       }
+
+      if (status.status === 'cancelled' && status.endTime) {
+        newLogs.push({
+          id: `${status.id}-cancelled`,
+          timestamp: status.endTime,
+          level: 'warning',
+          category: 'test',
+          message: `${status.testType} cancelled`,
+          testId: status.id,
+          testType: status.testType,
+          metadata: {
+            testStatus: status
+          }
+        });
+      }
     });
 
     // Sort logs by timestamp
@@ -388,7 +405,10 @@ Winner: ${result.winner.toUpperCase()}`;
         onClose={() => setApiModalOpen(false)}
         restApiCall={selectedTestStatus?.restApiCall}
         graphqlApiCall={selectedTestStatus?.graphqlApiCall}
+        batchApiCall={selectedTestStatus?.batchApiCall}
         dataComparison={selectedTestStatus?.dataComparison}
+        statistics={testResults.find(result => result.id === selectedTestStatus?.id)?.statistics}
+        batchStatistics={testResults.find(result => result.id === selectedTestStatus?.id)?.batchStatistics}
       />
     </div>
   );
@@ -1,4 +1,4 @@
-import { TestStatus, TestResult, DataComparisonResult } from '../../../types';
+import { TestStatus, TestResult, DataComparisonResult, TestWinner } from '../../../types';
 
 export interface LogFilters {
   testTypes: string[];
@@ -21,7 +21,9 @@ export interface PerformanceSnapshot {
   graphqlTime: number;
   restPayload: number;
   graphqlPayload: number;
-  winner: 'rest' | 'graphql' | 'tie';
+  // Multi-table scenarios run with the Batch API
+  batchTime?: number;
+  winner: TestWinner;
   requestCount: {
     rest: number;
     graphql: number;
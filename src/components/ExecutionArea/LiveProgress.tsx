@@ -3,15 +3,15 @@ import { Progress } from "@/components/ui/progress";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Clock, Zap, CheckCircle, XCircle, AlertCircle, Trophy } from "lucide-react";
+import { Clock, Zap, CheckCircle, XCircle, AlertCircle, Trophy, Pause, Play, Square, Ban } from "lucide-react";
 import { useBenchmark } from "../../contexts/BenchmarkContext";
 import { TestStatus } from "../../types";
 import { ApiCallDetailsModal } from "./ApiCallDetailsModal";
 import { TestCompletionModal } from "./TestCompletionModal";
 
 export function LiveProgress() {
-    const { state, dispatch } = useBenchmark();
-    const { testStatuses, isRunning, testResults, performanceMetrics, completionModalDismissed } = state;
+    const { state, dispatch, pauseRun, resumeRun, cancelRun } = useBenchmark();
+    const { testStatuses, isRunning, isPaused, pauseRequested, cancelRequested, testResults, performanceMetrics, completionModalDismissed } = state;
     const [selectedTest, setSelectedTest] = useState<TestStatus | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [showCompletionModal, setShowCompletionModal] = useState(false);
@@ -29,9 +29,10 @@ export function LiveProgress() {
     useEffect(() => {
         const completedTests = testStatuses.filter(status => status.status === 'completed');
         const failedTests = testStatuses.filter(status => status.status === 'failed');
+        const cancelledTests = testStatuses.filter(status => status.status === 'cancelled');
         const allTestsFinished = testStatuses.length > 0 && 
                                 !isRunning && 
-                                (completedTests.length + failedTests.length) === testStatuses.length;
+                                (completedTests.length + failedTests.length + cancelledTests.length) === testStatuses.length;
         
         const hasValidResults = testResults.length > 0 && 
                                testResults.length === completedTests.length; // Only count successful tests in results
@@ -72,7 +73,10 @@ export function LiveProgress() {
                 onClose={() => setIsModalOpen(false)}
                 restApiCall={selectedTest?.restApiCall}
                 graphqlApiCall={selectedTest?.graphqlApiCall}
+                batchApiCall={selectedTest?.batchApiCall}
                 dataComparison={selectedTest?.dataComparison}
+                statistics={testResults.find(result => result.id === selectedTest?.id)?.statistics}
+                batchStatistics={testResults.find(result => result.id === selectedTest?.id)?.batchStatistics}
             />
             <TestCompletionModal
                 open={showCompletionModal}
@@ -93,7 +97,32 @@ export function LiveProgress() {
                             <span>{testStatuses.filter(s => s.status === 'running').length} running</span>
                             <span>•</span>
                             <span>{testStatuses.filter(s => s.status === 'failed').length} failed</span>
+                            {testStatuses.some(s => s.status === 'cancelled') && (
+                                <>
+                                    <span>•</span>
+                                    <span>{testStatuses.filter(s => s.status === 'cancelled').length} cancelled</span>
+                                </>
+                            )}
                         </div>
+                        {isRunning && (
+                            <div className="flex items-center space-x-2">
+                                {isPaused || pauseRequested ? (
+                                    <Button size="sm" variant="outline" onClick={resumeRun} disabled={cancelRequested} className="text-xs">
+                                        <Play className="w-3 h-3 mr-1" />
+                                        {isPaused ? "Resume" : "Pausing after current test..."}
+                                    </Button>
+                                ) : (
+                                    <Button size="sm" variant="outline" onClick={pauseRun} disabled={cancelRequested} className="text-xs">
+                                        <Pause className="w-3 h-3 mr-1" />
+                                        Pause
+                                    </Button>
+                                )}
+                                <Button size="sm" variant="destructive" onClick={cancelRun} disabled={cancelRequested} className="text-xs">
+                                    <Square className="w-3 h-3 mr-1" />
+                                    {cancelRequested ? "Cancelling..." : "Cancel"}
+                                </Button>
+                            </div>
+                        )}
                         {/* Show results button when tests have been completed previously */}
                         {!isRunning && testResults.length > 0 && (
                             <Button
@@ -116,6 +145,7 @@ export function LiveProgress() {
                                 status.status === "completed" ? "border-green-200 bg-green-50" :
                                 status.status === "failed" ? "border-red-200 bg-red-50" :
                                 status.status === "running" ? "border-blue-200 bg-blue-50" :
+                                status.status === "cancelled" ? "border-amber-200 bg-amber-50" :
                                 "border-gray-200 bg-gray-50"
                             }`}>
                                 <div className="flex items-center justify-between">
@@ -125,6 +155,7 @@ export function LiveProgress() {
                                             {status.status === "completed" && <CheckCircle className="w-4 h-4 text-green-600" />}
                                             {status.status === "failed" && <XCircle className="w-4 h-4 text-red-600" />}
                                             {status.status === "pending" && <AlertCircle className="w-4 h-4 text-gray-400" />}
+                                            {status.status === "cancelled" && <Ban className="w-4 h-4 text-amber-600" />}
                                         </div>
                                         <div className="flex flex-col">
                                             <span className="font-mono text-sm font-medium">{status.testType}</span>
@@ -178,6 +209,8 @@ export function LiveProgress() {
                                                 `Completed: ${new Date(status.endTime).toLocaleTimeString()}`
                                             ) : status.status === "failed" && status.endTime ? (
                                                 `Failed: ${new Date(status.endTime).toLocaleTimeString()}`
+                                            ) : status.status === "cancelled" && status.endTime ? (
+                                                `Cancelled: ${new Date(status.endTime).toLocaleTimeString()}`
                                             ) : status.startTime ? (
                                                 `Started: ${new Date(status.startTime).toLocaleTimeString()}`
                                             ) : (
@@ -198,6 +231,8 @@ export function LiveProgress() {
                                                 "Completed"
                                             ) : status.status === "failed" ? (
                                                 "Failed"
+                                            ) : status.status === "cancelled" ? (
+                                                "Cancelled"
                                             ) : (
                                                 "Pending"
                                             )}
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Server } from 'lucide-react';
+import { ResultInstance, TestResult } from '../../types';
+import { baseTestId } from '../../utils/instanceProfiles';
+
+interface MatrixResultsProps {
+  testResults: TestResult[];
+}
+
+const winnerLabels: Record<TestResult['winner'], string> = {
+  rest: 'REST',
+  graphql: 'GraphQL',
+  batch: 'Batch',
+  tie: 'Tie',
+};
+
+// Results of a matrix run: one row per test, one column per instance
+export function MatrixResults({ testResults }: MatrixResultsProps) {
+  const instances = new Map<string, ResultInstance>();
+  const rows = new Map<string, { testType: string; byInstance: Map<string, TestResult> }>();
+
+  for (const result of testResults) {
+    if (!result.instance) continue;
+    instances.set(result.instance.profileId, result.instance);
+
+    const id = baseTestId(result);
+    const row = rows.get(id) || { testType: result.testType, byInstance: new Map<string, TestResult>() };
+    row.byInstance.set(result.instance.profileId, result);
+    rows.set(id, row);
+  }
+
+  if (instances.size === 0) return null;
+  const columns = Array.from(instances.values());
+
+  const winsFor = (profileId: string) => {
+    const results = testResults.filter(result => result.instance?.profileId === profileId);
+    return {
+      rest: results.filter(result => result.winner === 'rest').length,
+      graphql: results.filter(result => result.winner === 'graphql').length,
+      batch: results.filter(result => result.winner === 'batch').length,
+    };
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Server className="h-5 w-5" />
+          Results by Instance
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Test</TableHead>
+              {columns.map(instance => {
+                const wins = winsFor(instance.profileId);
+                return (
+                  <TableHead key={instance.profileId}>
+                    <div className="font-semibold">{instance.profileName}</div>
+                    <div className="text-xs font-mono font-normal">
+                      REST {wins.rest} • GraphQL {wins.graphql}{wins.batch > 0 && ` • Batch ${wins.batch}`}
+                    </div>
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {Array.from(rows.entries()).map(([id, row]) => (
+              <TableRow key={id}>
+                <TableCell>
+                  <div className="font-medium">{row.testType}</div>
+                  <div className="text-xs text-muted-foreground font-mono">{id}</div>
+                </TableCell>
+                {columns.map(instance => {
+                  const result = row.byInstance.get(instance.profileId);
+                  if (!result) {
+                    return <TableCell key={instance.profileId} className="text-muted-foreground">—</TableCell>;
+                  }
+                  return (
+                    <TableCell key={instance.profileId} className="font-mono text-xs">
+                      <div>REST {result.restApi.success ? `${result.restApi.responseTime.toFixed(0)}ms` : 'failed'}</div>
+                      <div>GQL {result.graphqlApi.success ? `${result.graphqlApi.responseTime.toFixed(0)}ms` : 'failed'}</div>
+                      {result.batchApi && (
+                        <div>Batch {result.batchApi.success ? `${result.batchApi.responseTime.toFixed(0)}ms` : 'failed'}</div>
+                      )}
+                      <Badge variant="outline" className="mt-1 text-xs">{winnerLabels[result.winner]}</Badge>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { CallTimingLog, NetworkTiming } from '@/types';
+import { computeResponseTimeStatistics } from '@/utils/statistics';
+
+type Phase = keyof Pick<NetworkTiming, 'preparation' | 'dns' | 'connect' | 'tls' | 'request' | 'ttfb' | 'download' | 'fetch' | 'parse'>;
+
+// In request order; 'fetch' only stands in for the detailed phases when the entry has none
+const phases: Array<{ key: Phase; label: string; color: string }> = [
+  { key: 'preparation', label: 'App', color: '#9ca3af' },
+  { key: 'dns', label: 'DNS', color: '#14b8a6' },
+  { key: 'connect', label: 'Connect', color: '#f59e0b' },
+  { key: 'tls', label: 'TLS', color: '#a855f7' },
+  { key: 'request', label: 'Request', color: '#64748b' },
+  { key: 'ttfb', label: 'TTFB', color: '#16a34a' },
+  { key: 'download', label: 'Download', color: '#2563eb' },
+  { key: 'fetch', label: 'Fetch', color: '#0ea5e9' },
+  { key: 'parse', label: 'Parse', color: '#ef4444' },
+];
+
+const formatMs = (value: number) => `${value.toFixed(1)}ms`;
+const formatKb = (bytes: number) => `${(bytes / 1024).toFixed(1)}KB`;
+
+const isDetailed = (timing: NetworkTiming) => timing.ttfb !== undefined;
+
+function segmentsOf(timing: NetworkTiming) {
+  return phases
+    .filter(phase => (phase.key === 'fetch' ? !isDetailed(timing) : true))
+    .map(phase => ({ ...phase, duration: timing[phase.key] ?? 0 }))
+    .filter(segment => segment.duration > 0);
+}
+
+function medianOf(values: Array<number | undefined>): number | undefined {
+  const known = values.filter((value): value is number => value !== undefined);
+  return known.length > 0 ? computeResponseTimeStatistics(known).median : undefined;
+}
+
+// Waterfall of every measured request: app overhead, network phases and body parsing, on a shared scale
+export function NetworkTimingDetails({ call }: { call: CallTimingLog }) {
+  const timings = call.networkTiming || [];
+  if (timings.length === 0) return null;
+
+  const totals = timings.map(timing => segmentsOf(timing).reduce((total, segment) => total + segment.duration, 0));
+  const scale = Math.max(...totals, 1);
+  const encoded = medianOf(timings.map(timing => timing.encodedBodySize));
+  const decoded = medianOf(timings.map(timing => timing.decodedBodySize));
+  const transferred = medianOf(timings.map(timing => timing.transferSize));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <strong>Network Timing:</strong>
+        <Badge variant={timings.every(isDetailed) ? 'secondary' : 'outline'}>
+          {timings.every(isDetailed) ? `${timings.length} requests` : 'phases hidden without Timing-Allow-Origin'}
+        </Badge>
+        {transferred !== undefined && <Badge variant="outline" className="font-mono text-xs">transferred {formatKb(transferred)}</Badge>}
+        {encoded !== undefined && <Badge variant="outline" className="font-mono text-xs">encoded {formatKb(encoded)}</Badge>}
+        {decoded !== undefined && <Badge variant="outline" className="font-mono text-xs">decoded {formatKb(decoded)}</Badge>}
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {phases.map(phase => {
+          const median = medianOf(timings.map(timing => timing[phase.key]));
+          if (!median) return null;
+          return (
+            <span key={phase.key} className="flex items-center gap-1">
+              <span className="inline-block h-2 w-2 rounded-sm" style={{ backgroundColor: phase.color }} />
+              {phase.label} {formatMs(median)}
+            </span>
+          );
+        })}
+      </div>
+      <div className="max-h-48 overflow-auto space-y-1">
+        {timings.map((timing, index) => (
+          <div key={timing.correlationId} className="flex items-center gap-2">
+            <span className="w-8 shrink-0 text-right font-mono text-xs text-muted-foreground">#{index + 1}</span>
+            <div className="flex h-3 flex-1 bg-gray-100 rounded-sm overflow-hidden">
+              {segmentsOf(timing).map(segment => (
+                <div
+                  key={segment.key}
+                  title={`${segment.label} ${formatMs(segment.duration)}`}
+                  style={{ width: `${(segment.duration / scale) * 100}%`, backgroundColor: segment.color }}
+                />
+              ))}
+            </div>
+            <span className="w-16 shrink-0 font-mono text-xs">{formatMs(totals[index])}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
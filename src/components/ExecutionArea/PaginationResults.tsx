@@ -0,0 +1,119 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '../ui/chart';
+import { Layers } from 'lucide-react';
+import { PaginationComparison, PaginationTraversal, TestResult } from '../../types';
+
+interface PaginationResultsProps {
+  testResults: TestResult[];
+}
+
+const chartConfig = {
+  rest: { label: 'REST', color: '#2563eb' },
+  graphql: { label: 'GraphQL', color: '#16a34a' },
+} satisfies ChartConfig;
+
+const formatKb = (bytes: number) => `${(bytes / 1024).toFixed(1)}KB`;
+
+function TraversalRow({ label, traversal }: { label: string; traversal: PaginationTraversal }) {
+  return (
+    <TableRow>
+      <TableCell className="font-medium">{label}</TableCell>
+      <TableCell className="font-mono text-xs">{traversal.pages.length}</TableCell>
+      <TableCell className="font-mono text-xs">{traversal.totalTime.toFixed(0)}ms</TableCell>
+      <TableCell className="font-mono text-xs">{formatKb(traversal.totalBytes)}</TableCell>
+      <TableCell className="font-mono text-xs">
+        {traversal.uniqueRecords}
+        {traversal.reportedTotal !== undefined && ` of ${traversal.reportedTotal}`}
+      </TableCell>
+      <TableCell className="font-mono text-xs">
+        {traversal.complete ? (
+          <Badge variant="secondary" className="text-xs">complete</Badge>
+        ) : (
+          <div className="space-y-1">
+            {traversal.duplicateCount > 0 && <Badge variant="destructive" className="text-xs">{traversal.duplicateCount} duplicates</Badge>}
+            {traversal.missingCount > 0 && <Badge variant="destructive" className="text-xs">{traversal.missingCount} missing</Badge>}
+            {traversal.missingIds.length > 0 && (
+              <div className="text-muted-foreground break-all">{traversal.missingIds.join(', ')}</div>
+            )}
+          </div>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+// Per-page latency of both traversals, by page number
+function PageLatencyChart({ pagination }: { pagination: PaginationComparison }) {
+  const pageCount = Math.max(pagination.rest.pages.length, pagination.graphql.pages.length);
+  const data = Array.from({ length: pageCount }, (_, index) => ({
+    page: index + 1,
+    rest: pagination.rest.pages[index]?.responseTime,
+    graphql: pagination.graphql.pages[index]?.responseTime,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-48 w-full">
+      <LineChart data={data} margin={{ left: 8, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="page" tickLine={false} axisLine={false} />
+        <YAxis tickLine={false} axisLine={false} unit="ms" width={56} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Page ${payload[0]?.payload.page}`} />} />
+        <Line dataKey="rest" stroke="var(--color-rest)" dot={false} strokeWidth={2} isAnimationActive={false} />
+        <Line dataKey="graphql" stroke="var(--color-graphql)" dot={false} strokeWidth={2} isAnimationActive={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+// Whole-result-set traversals: totals, completeness by sys_id and the latency of every page
+export function PaginationResults({ testResults }: PaginationResultsProps) {
+  const traversals = testResults.filter((result): result is TestResult & { pagination: PaginationComparison } => !!result.pagination);
+  if (traversals.length === 0) return null;
+
+  const incomplete = traversals.filter(result => !result.pagination.rest.complete || !result.pagination.graphql.complete).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Pagination
+          <Badge variant={incomplete > 0 ? 'destructive' : 'secondary'} className="ml-2">
+            {incomplete > 0 ? `${incomplete} traversals missed or repeated records` : 'Every traversal reached each record once'}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {traversals.map(result => (
+          <div key={result.id} className="space-y-2">
+            <div>
+              <div className="font-medium">{result.testType}</div>
+              <div className="text-xs text-muted-foreground font-mono">{result.pagination.rest.pageSize} records per page</div>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>API</TableHead>
+                  <TableHead>Pages</TableHead>
+                  <TableHead>Total Time</TableHead>
+                  <TableHead>Total Bytes</TableHead>
+                  <TableHead>Records</TableHead>
+                  <TableHead>Completeness</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TraversalRow label="REST" traversal={result.pagination.rest} />
+                <TraversalRow label="GraphQL" traversal={result.pagination.graphql} />
+              </TableBody>
+            </Table>
+            <PageLatencyChart pagination={result.pagination} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
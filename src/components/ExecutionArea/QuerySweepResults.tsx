@@ -0,0 +1,105 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '../ui/chart';
+import { Columns } from 'lucide-react';
+import { QuerySweepDimension, QuerySweepReport, TestResult } from '../../types';
+import { compareQuerySweeps } from '../../utils/querySweeps';
+
+interface QuerySweepResultsProps {
+  testResults: TestResult[];
+}
+
+const chartConfig = {
+  rest: { label: 'REST', color: '#2563eb' },
+  graphql: { label: 'GraphQL', color: '#16a34a' },
+} satisfies ChartConfig;
+
+const stepLabels: Record<QuerySweepDimension, string> = {
+  fields: 'field',
+  depth: 'level',
+};
+
+function SlopeBadges({ slopes, unit, dimension }: { slopes: QuerySweepReport['latencyPerStep']; unit: string; dimension: QuerySweepDimension }) {
+  const format = (slope?: number) => (slope === undefined ? 'n/a' : `${slope >= 0 ? '+' : ''}${slope.toFixed(1)}${unit}`);
+  return (
+    <>
+      <Badge variant="outline" className="text-xs">REST {format(slopes.rest)} per {stepLabels[dimension]}</Badge>
+      <Badge variant="outline" className="text-xs">GraphQL {format(slopes.graphql)} per {stepLabels[dimension]}</Badge>
+    </>
+  );
+}
+
+// REST and GraphQL curves over the generated steps
+function SweepChart({ report, metric }: { report: QuerySweepReport; metric: 'latency' | 'payload' }) {
+  const data = report.points.map(point => ({
+    step: point.step,
+    rest: metric === 'latency' ? point.restResponseTime : point.restPayloadSize && point.restPayloadSize / 1024,
+    graphql: metric === 'latency' ? point.graphqlResponseTime : point.graphqlPayloadSize && point.graphqlPayloadSize / 1024,
+  }));
+  const unit = metric === 'latency' ? 'ms' : 'KB';
+  const stepLabel = report.dimension === 'fields' ? 'fields' : 'levels deep';
+
+  return (
+    <ChartContainer config={chartConfig} className="h-56 w-full">
+      <LineChart data={data} margin={{ left: 8, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="step" type="number" domain={['dataMin', 'dataMax']} allowDecimals={false} tickLine={false} axisLine={false} />
+        <YAxis tickLine={false} axisLine={false} unit={unit} width={64} />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload[0]?.payload.step} ${stepLabel}`} />}
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line dataKey="rest" stroke="var(--color-rest)" strokeWidth={2} isAnimationActive={false} />
+        <Line dataKey="graphql" stroke="var(--color-graphql)" strokeWidth={2} isAnimationActive={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+// How latency and payload grow as generated queries get wider or dot-walk deeper
+export function QuerySweepResults({ testResults }: QuerySweepResultsProps) {
+  const reports = compareQuerySweeps(testResults);
+  if (reports.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Columns className="h-5 w-5" />
+          Query Width &amp; Depth
+          <Badge variant="secondary" className="ml-2">
+            {reports.length} generated sweeps
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {reports.map(report => (
+          <div key={report.id} className="space-y-3">
+            <div>
+              <div className="font-medium">{report.testType}</div>
+              <div className="text-xs text-muted-foreground font-mono">
+                {report.dimension === 'fields' ? 'one more field per step' : 'one more dot-walk level per step'}
+              </div>
+            </div>
+            <div className="grid gap-4 lg:grid-cols-2">
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  Latency <SlopeBadges slopes={report.latencyPerStep} unit="ms" dimension={report.dimension} />
+                </div>
+                <SweepChart report={report} metric="latency" />
+              </div>
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  Payload <SlopeBadges slopes={report.payloadPerStep} unit="B" dimension={report.dimension} />
+                </div>
+                <SweepChart report={report} metric="payload" />
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
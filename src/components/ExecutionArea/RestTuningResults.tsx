@@ -0,0 +1,76 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { SlidersHorizontal } from 'lucide-react';
+import { TestResult } from '../../types';
+import { compareRestTuning } from '../../utils/restTuning';
+
+interface RestTuningResultsProps {
+  testResults: TestResult[];
+}
+
+const formatKb = (bytes: number) => `${(bytes / 1024).toFixed(1)}KB`;
+
+// REST timings and payloads per tuning combination, and whether GraphQL beats the best-tuned call
+export function RestTuningResults({ testResults }: RestTuningResultsProps) {
+  const reports = compareRestTuning(testResults);
+  if (reports.length === 0) return null;
+
+  const graphqlStillWins = reports.filter(report => report.graphqlBeatsBestRest).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          REST Tuning
+          <Badge variant="secondary" className="ml-2">
+            GraphQL beats the best-tuned REST call in {graphqlStillWins} of {reports.length} tests
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Test</TableHead>
+              <TableHead>Tuning</TableHead>
+              <TableHead>REST</TableHead>
+              <TableHead>Payload</TableHead>
+              <TableHead>Consistency</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reports.flatMap(report =>
+              report.entries.map((entry, index) => (
+                <TableRow key={`${report.id}-${entry.label}`}>
+                  {index === 0 && (
+                    <TableCell rowSpan={report.entries.length} className="align-top">
+                      <div className="font-medium">{report.testType}</div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        GraphQL {report.graphqlResponseTime !== undefined ? `${report.graphqlResponseTime.toFixed(0)}ms` : 'failed'}
+                      </div>
+                      <Badge variant={report.graphqlBeatsBestRest ? 'default' : 'outline'} className="mt-1 text-xs">
+                        {report.graphqlBeatsBestRest ? 'GraphQL still faster' : 'Tuned REST faster'}
+                      </Badge>
+                    </TableCell>
+                  )}
+                  <TableCell className="font-mono text-xs">
+                    {entry.label}
+                    {entry.label === report.bestLabel && <Badge variant="secondary" className="ml-2 text-xs">fastest</Badge>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{entry.restResponseTime.toFixed(0)}ms</TableCell>
+                  <TableCell className="font-mono text-xs">{formatKb(entry.restPayloadSize)}</TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {entry.dataConsistency !== undefined ? `${entry.dataConsistency}%` : '—'}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
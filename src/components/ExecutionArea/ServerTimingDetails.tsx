@@ -0,0 +1,69 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CallTimingLog, ServerTiming } from '@/types';
+import { computeResponseTimeStatistics } from '@/utils/statistics';
+
+const timingColumns: Array<{ label: string; key: keyof Omit<ServerTiming, 'correlationId'> }> = [
+  { label: 'Server', key: 'responseTime' },
+  { label: 'SQL', key: 'sqlTime' },
+  { label: 'Business Rules', key: 'businessRuleTime' },
+  { label: 'Semaphore Wait', key: 'semaphoreWait' },
+];
+
+const formatMs = (value?: number) => (value === undefined ? 'N/A' : `${value.toFixed(0)}ms`);
+
+function medianOf(timings: ServerTiming[], key: keyof Omit<ServerTiming, 'correlationId'>): number | undefined {
+  const values = timings.map(timing => timing[key]).filter((value): value is number => value !== undefined);
+  return values.length > 0 ? computeResponseTimeStatistics(values).median : undefined;
+}
+
+// Breakdown of the measured requests as the instance logged them in syslog_transaction
+export function ServerTimingDetails({ call }: { call: CallTimingLog }) {
+  const requested = call.correlationIds?.length ?? 0;
+  if (requested === 0) return null;
+  const timings = call.serverTiming || [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <strong>Server Timing:</strong>
+        <Badge variant={timings.length === requested ? 'secondary' : 'outline'}>
+          {timings.length} of {requested} requests logged
+        </Badge>
+        {timingColumns.map(column => (
+          <Badge key={column.key} variant="outline" className="font-mono text-xs">
+            {column.label} median {formatMs(medianOf(timings, column.key))}
+          </Badge>
+        ))}
+      </div>
+      {call.serverTimingError && (
+        <div className="text-xs text-muted-foreground">syslog_transaction could not be read: {call.serverTimingError}</div>
+      )}
+      {timings.length > 0 && (
+        <div className="max-h-48 overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Request</TableHead>
+                {timingColumns.map(column => (
+                  <TableHead key={column.key}>{column.label}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {timings.map(timing => (
+                <TableRow key={timing.correlationId}>
+                  <TableCell className="font-mono text-xs">{timing.correlationId}</TableCell>
+                  {timingColumns.map(column => (
+                    <TableCell key={column.key} className="font-mono text-xs">{formatMs(timing[column.key])}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
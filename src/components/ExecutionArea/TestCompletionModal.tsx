@@ -6,6 +6,9 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Trophy, Medal, TrendingUp, TrendingDown, Clock, Database, Zap, CheckCircle, Download, Share2, X, Minus } from "lucide-react";
 import { TestResult, PerformanceMetrics } from "../../types";
+import { useBenchmark } from "../../contexts/BenchmarkContext";
+import { summarizePayloads } from "../../utils/payloadSize";
+import { PayloadMetricSelect } from "../Scoreboard/PayloadMetricSelect";
 
 interface TestCompletionModalProps {
     open: boolean;
@@ -27,6 +30,8 @@ interface CategorySummary {
 export function TestCompletionModal({ open, onClose, testResults, performanceMetrics }: TestCompletionModalProps) {
     const [showConfetti, setShowConfetti] = useState(false);
     const [showDetails, setShowDetails] = useState(false);
+    const { state } = useBenchmark();
+    const payload = React.useMemo(() => summarizePayloads(testResults, state.payloadMetric), [testResults, state.payloadMetric]);
 
     // Calculate metrics from testResults if performanceMetrics is empty/zero
     const calculatedMetrics = React.useMemo(() => {
@@ -116,11 +121,11 @@ export function TestCompletionModal({ open, onClose, testResults, performanceMet
             // Format: categoryKey-subCategory-variant-recordCount
             const parts = result.testType.split("-");
 
-            if (parts.length < 4) {
+            if (!result.category && parts.length < 4) {
                 return;
             }
 
-            const categoryKey = parts[0]; // e.g., "dotWalkingTests"
+            const categoryKey = result.category || parts[0]; // e.g., "dotWalkingTests"
             const subCategory = parts[1]; // e.g., "complexTraversal"
             const variant = parts[2]; // e.g., "full_context"
             const recordCount = parts[3]; // e.g., "25"
@@ -133,6 +138,9 @@ export function TestCompletionModal({ open, onClose, testResults, performanceMet
                 schemaTailoringTests: "Schema Tailoring",
                 performanceScaleTests: "Performance at Scale",
                 realWorldScenarios: "Real-World Scenarios",
+                aggregateTests: "Aggregate Queries",
+                paginationTests: "Pagination",
+                customRequests: "Custom Requests",
             };
 
             const categoryDisplayName = categoryDisplayNames[categoryKey] || categoryKey;
@@ -162,8 +170,8 @@ export function TestCompletionModal({ open, onClose, testResults, performanceMet
             if (result.winner === "graphql") cat.graphqlWins++;
 
             // Calculate performance improvement
-            const faster = result.winner === "rest" ? result.restApi.responseTime : result.graphqlApi.responseTime;
-            const slower = result.winner === "rest" ? result.graphqlApi.responseTime : result.restApi.responseTime;
+            const faster = result.winner === "batch" && result.batchApi ? result.batchApi.responseTime : result.winner === "rest" ? result.restApi.responseTime : result.graphqlApi.responseTime;
+            const slower = result.winner === "batch" ? Math.min(result.restApi.responseTime, result.graphqlApi.responseTime) : result.winner === "rest" ? result.graphqlApi.responseTime : result.restApi.responseTime;
             const improvement = ((slower - faster) / slower) * 100;
             cat.performanceGains.push(improvement);
 
@@ -177,6 +185,7 @@ export function TestCompletionModal({ open, onClose, testResults, performanceMet
             "Schema Tailoring": "📱",
             "Performance at Scale": "⚡",
             "Real-World Scenarios": "🌟",
+            "Custom Requests": "🛠️",
         };
 
         return Array.from(categories.entries()).map(([category, data]) => ({
@@ -305,8 +314,19 @@ export function TestCompletionModal({ open, onClose, testResults, performanceMet
                         </Card>
                         <Card className="p-4 text-center">
                             <Database className="w-8 h-8 mx-auto mb-2 text-purple-500" />
-                            <div className="text-lg font-bold">{((calculatedMetrics.totalRestPayloadSize + calculatedMetrics.totalGraphqlPayloadSize) / 1024 / 1024).toFixed(1)}MB</div>
+                            <div className="text-lg font-bold">{payload.compared > 0 ? `${((payload.rest + payload.graphql) / 1024 / 1024).toFixed(1)}MB` : "N/A"}</div>
                             <div className="text-xs text-gray-600">Total Data</div>
+                            {payload.compared > 0 && (
+                                <div className="text-xs text-gray-500 font-mono mt-1">
+                                    REST {(payload.rest / 1024).toFixed(0)}KB · GraphQL {(payload.graphql / 1024).toFixed(0)}KB
+                                </div>
+                            )}
+                            {(payload.restCompression !== undefined || payload.graphqlCompression !== undefined) && (
+                                <div className="text-xs text-gray-500 font-mono">
+                                    compression {payload.restCompression?.toFixed(1) ?? "n/a"}× / {payload.graphqlCompression?.toFixed(1) ?? "n/a"}×
+                                </div>
+                            )}
+                            <PayloadMetricSelect className="h-7 mt-2 text-xs" />
                         </Card>
                         <Card className="p-4 text-center">
                             <CheckCircle className="w-8 h-8 mx-auto mb-2 text-emerald-500" />
@@ -421,8 +441,27 @@ export function TestCompletionModal({ open, onClose, testResults, performanceMet
                                             <div>
                                                 <h4 className="font-medium text-sm">{result.testType}</h4>
                                                 <div className="text-xs text-gray-600 mt-1">
-                                                    REST: {result.restApi.responseTime.toFixed(2)}ms • GraphQL: {result.graphqlApi.responseTime.toFixed(2)}ms • Winner: {result.winner.toUpperCase()}
+                                                    REST: {result.restApi.responseTime.toFixed(2)}ms • GraphQL: {result.graphqlApi.responseTime.toFixed(2)}ms{result.batchApi && ` • Batch: ${result.batchApi.responseTime.toFixed(2)}ms`} • Winner: {result.winner.toUpperCase()}
                                                 </div>
+                                                {result.statistics && (
+                                                    <div className="text-xs text-gray-500 mt-1 font-mono">
+                                                        p={result.statistics.significance.pValue.toFixed(3)} ({result.statistics.significance.significant ? "significant" : "not significant"}) •
+                                                        p95 {result.statistics.rest.p95.toFixed(0)}ms / {result.statistics.graphql.p95.toFixed(0)}ms •
+                                                        CV {result.statistics.rest.coefficientOfVariation.toFixed(1)}% / {result.statistics.graphql.coefficientOfVariation.toFixed(1)}%
+                                                    </div>
+                                                )}
+                                                {result.restApi.batchTiming && (
+                                                    <div className="text-xs text-gray-500 mt-1 font-mono">
+                                                        REST {result.restApi.batchTiming.mode === "parallel" ? `parallel (max ${result.restApi.batchTiming.maxConcurrency})` : "sequential"} •
+                                                        sum {result.restApi.batchTiming.sequentialSum.toFixed(0)}ms • wall-clock {result.restApi.batchTiming.wallClock.toFixed(0)}ms
+                                                    </div>
+                                                )}
+                                                {result.executionOrder && (
+                                                    <div className="text-xs text-gray-500 mt-1 font-mono">
+                                                        order {result.executionOrder.order}
+                                                        {result.executionOrder.seed !== undefined && ` • seed ${result.executionOrder.seed}`}
+                                                    </div>
+                                                )}
                                             </div>
                                             <Badge variant={result.winner === "rest" ? "default" : result.winner === "graphql" ? "secondary" : "outline"}>{result.winner.toUpperCase()}</Badge>
                                         </div>
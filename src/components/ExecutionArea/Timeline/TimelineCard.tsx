@@ -85,6 +85,8 @@ export const TimelineCard: React.FC<TimelineCardProps> = ({
         return 'border-green-200 bg-green-50';
       case 'failed':
         return 'border-red-200 bg-red-50';
+      case 'cancelled':
+        return 'border-amber-200 bg-amber-50';
       default:
         return 'border-gray-200 bg-gray-50';
     }
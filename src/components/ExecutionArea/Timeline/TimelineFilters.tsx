@@ -49,7 +49,7 @@ export const TimelineFilters: React.FC<TimelineFiltersProps> = ({
     });
   };
 
-  const toggleTestStatus = (status: 'pending' | 'running' | 'completed' | 'failed') => {
+  const toggleTestStatus = (status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled') => {
     const current = filters.testStatus || [];
     const updated = current.includes(status)
       ? current.filter(s => s !== status)
@@ -164,7 +164,7 @@ export const TimelineFilters: React.FC<TimelineFiltersProps> = ({
           <PopoverContent className="w-56">
             <div className="space-y-2">
               <h4 className="font-medium text-sm">Test Status</h4>
-              {['pending', 'running', 'completed', 'failed'].map((status) => (
+              {['pending', 'running', 'completed', 'failed', 'cancelled'].map((status) => (
                 <Button
                   key={status}
                   variant={filters.testStatus?.includes(status as any) ? 'default' : 'ghost'}
@@ -404,7 +404,10 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
         onClose={() => setIsModalOpen(false)}
         restApiCall={selectedTest?.restApiCall}
         graphqlApiCall={selectedTest?.graphqlApiCall}
+        batchApiCall={selectedTest?.batchApiCall}
         dataComparison={selectedTest?.dataComparison}
+        statistics={testResults.find(result => result.id === selectedTest?.id)?.statistics}
+        batchStatistics={testResults.find(result => result.id === selectedTest?.id)?.batchStatistics}
       />
       
       {/* Header */}
@@ -24,7 +24,7 @@ export interface TimelineEvent {
 export interface TimelineTest {
   id: string;
   name: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   startTime?: Date;
   endTime?: Date;
   progress: number;
@@ -41,7 +41,7 @@ export interface TimelineTest {
 }
 
 export interface TimelineFilters {
-  testStatus?: ('pending' | 'running' | 'completed' | 'failed')[];
+  testStatus?: ('pending' | 'running' | 'completed' | 'failed' | 'cancelled')[];
   eventTypes?: TimelineEvent['type'][];
   eventLevels?: TimelineEvent['level'][];
   searchTerm?: string;
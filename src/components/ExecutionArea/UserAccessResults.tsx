@@ -0,0 +1,91 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Users } from 'lucide-react';
+import { TestResult, UserApiAccess } from '../../types';
+import { compareUserAccess } from '../../utils/userAccess';
+
+interface UserAccessResultsProps {
+  testResults: TestResult[];
+}
+
+function ApiAccessCell({ label, access, onlyFields }: { label: string; access: UserApiAccess; onlyFields: string[] }) {
+  return (
+    <div className="space-y-1">
+      <div>
+        {label} {access.recordCount} records • {access.fields.length} fields
+      </div>
+      {access.hiddenRecordIds.length > 0 && (
+        <div className="text-muted-foreground">{access.hiddenRecordIds.length} records visible to others</div>
+      )}
+      {access.hiddenFields.length > 0 && (
+        <div className="text-muted-foreground">hidden: {access.hiddenFields.join(', ')}</div>
+      )}
+      {onlyFields.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {onlyFields.map(field => (
+            <Badge key={field} variant="destructive" className="text-xs">{label} only: {field}</Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Records and fields REST and GraphQL exposed to each user of a user comparison run
+export function UserAccessResults({ testResults }: UserAccessResultsProps) {
+  const reports = compareUserAccess(testResults);
+  if (reports.length === 0) return null;
+
+  const users = reports[0].users.map(user => user.instance);
+  const inconsistent = reports.filter(report => !report.consistent).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Access by User
+          <Badge variant={inconsistent > 0 ? 'destructive' : 'secondary'} className="ml-2">
+            {inconsistent > 0 ? `${inconsistent} tests differ between REST and GraphQL` : 'REST and GraphQL agree'}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Test</TableHead>
+              {users.map(user => (
+                <TableHead key={user.profileId}>{user.profileName}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reports.map(report => (
+              <TableRow key={report.id}>
+                <TableCell>
+                  <div className="font-medium">{report.testType}</div>
+                  <div className="text-xs text-muted-foreground font-mono">{report.id}</div>
+                </TableCell>
+                {users.map(user => {
+                  const entry = report.users.find(candidate => candidate.instance.profileId === user.profileId);
+                  if (!entry) {
+                    return <TableCell key={user.profileId} className="text-muted-foreground">—</TableCell>;
+                  }
+                  return (
+                    <TableCell key={user.profileId} className="font-mono text-xs space-y-2">
+                      <ApiAccessCell label="REST" access={entry.rest} onlyFields={entry.restOnlyFields} />
+                      <ApiAccessCell label="GraphQL" access={entry.graphql} onlyFields={entry.graphqlOnlyFields} />
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,15 @@
-
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
 import { InstanceStatus } from './InstanceStatus';
+import { Button } from '../ui/button';
+import { credentialVault, getVaultMode, lockVault } from '../../utils/credentialVault';
 
 export function Header() {
+  const [canLock, setCanLock] = useState(getVaultMode() === 'encrypted');
+
+  // The vault mode changes when a passphrase is set up or the vault is reset
+  useEffect(() => credentialVault.subscribe(() => setCanLock(getVaultMode() === 'encrypted')), []);
+
   return (
     <header className="bg-white border-b border-gray-200 px-6 py-4">
       <div className="flex items-center justify-between">
@@ -15,7 +22,14 @@ export function Header() {
           </p>
         </div>
         
-        <InstanceStatus />
+        <div className="flex items-center gap-2">
+          <InstanceStatus />
+          {canLock && (
+            <Button variant="ghost" size="sm" onClick={lockVault} aria-label="Lock credentials" title="Lock credentials">
+              <Lock className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
       </div>
     </header>
   );
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { useBenchmark } from '../../contexts/BenchmarkContext';
+import { InstanceAuthMode, InstanceProfile, OAuthGrantType, OAuthSettings } from '../../types';
+import { sanitizeUrl } from '../../utils/secureStorage';
+import { profileToInstance } from '../../utils/instanceProfiles';
+import { testAuthentication } from '../../services/authService';
+
+interface InstanceProfileDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const authModeLabels: Record<InstanceAuthMode, string> = {
+  basic: 'Basic auth',
+  session: 'Session token',
+  oauth: 'OAuth 2.0',
+  apikey: 'API key',
+};
+
+const grantTypeLabels: Record<OAuthGrantType, string> = {
+  password: 'Password grant',
+  client_credentials: 'Client credentials',
+};
+
+const defaultOAuthSettings: OAuthSettings = { grantType: 'password', clientId: '', clientSecret: '' };
+
+const emptyProfile = (): InstanceProfile => ({
+  id: crypto.randomUUID(),
+  name: '',
+  url: '',
+  authMode: 'basic',
+  username: '',
+  password: '',
+  token: '',
+});
+
+// Create, edit and delete the saved instance profiles
+export function InstanceProfileDialog({ open, onClose }: InstanceProfileDialogProps) {
+  const { state, dispatch } = useBenchmark();
+  const [draft, setDraft] = useState<InstanceProfile | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const update = (changes: Partial<InstanceProfile>) => setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  const updateOAuth = (changes: Partial<OAuthSettings>) =>
+    setDraft(prev => (prev ? { ...prev, oauth: { ...defaultOAuthSettings, ...prev.oauth, ...changes } } : prev));
+
+  const oauth = draft?.oauth ?? defaultOAuthSettings;
+  const needsUserCredentials = draft?.authMode === 'basic' || (draft?.authMode === 'oauth' && oauth.grantType === 'password');
+
+  const editDraft = (profile: InstanceProfile | null) => {
+    setValidationError(null);
+    setDraft(profile);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const profile = { ...draft, name: draft.name.trim(), url: sanitizeUrl(draft.url.trim()) };
+
+    // API keys are only kept once the instance accepts them
+    if (profile.authMode === 'apikey') {
+      setValidating(true);
+      try {
+        if (!(await testAuthentication(profileToInstance(profile)))) {
+          setValidationError('The instance rejected this API key.');
+          return;
+        }
+      } finally {
+        setValidating(false);
+      }
+    }
+
+    dispatch({ type: 'SAVE_PROFILE', payload: profile });
+    editDraft(null);
+  };
+
+  const handleDelete = (profile: InstanceProfile) => {
+    if (window.confirm(`Delete the "${profile.name}" profile?`)) {
+      dispatch({ type: 'DELETE_PROFILE', payload: profile.id });
+    }
+  };
+
+  const canSave = !!draft && draft.name.trim() !== '' && draft.url.trim() !== '' &&
+    (!needsUserCredentials || (draft.username !== '' && draft.password !== '')) &&
+    (draft.authMode !== 'oauth' || (oauth.clientId !== '' && oauth.clientSecret !== '')) &&
+    (draft.authMode !== 'apikey' || !!draft.apiKey);
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Instance Profiles</DialogTitle>
+          <DialogDescription>
+            Saved instances to switch between or benchmark together in a matrix run
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="profile-name">Name</Label>
+                <Input id="profile-name" placeholder="dev" value={draft.name} onChange={e => update({ name: e.target.value })} />
+              </div>
+              <div>
+                <Label>Auth Mode</Label>
+                <Select
+                  value={draft.authMode}
+                  onValueChange={mode => update({ authMode: mode as InstanceAuthMode, ...(mode === 'oauth' && { oauth }) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(authModeLabels) as InstanceAuthMode[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>{authModeLabels[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="profile-url">Instance URL</Label>
+              <Input
+                id="profile-url"
+                placeholder="https://dev12345.service-now.com"
+                value={draft.url}
+                onChange={e => update({ url: e.target.value })}
+              />
+            </div>
+            {draft.authMode === 'oauth' && (
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label>Grant Type</Label>
+                  <Select value={oauth.grantType} onValueChange={grantType => updateOAuth({ grantType: grantType as OAuthGrantType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(grantTypeLabels) as OAuthGrantType[]).map(grantType => (
+                        <SelectItem key={grantType} value={grantType}>{grantTypeLabels[grantType]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="profile-client-id">Client ID</Label>
+                  <Input id="profile-client-id" value={oauth.clientId} onChange={e => updateOAuth({ clientId: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="profile-client-secret">Client Secret</Label>
+                  <Input
+                    id="profile-client-secret"
+                    type="password"
+                    value={oauth.clientSecret}
+                    onChange={e => updateOAuth({ clientSecret: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+            {draft.authMode === 'apikey' && (
+              <div>
+                <Label htmlFor="profile-api-key">API Key</Label>
+                <Input
+                  id="profile-api-key"
+                  type="password"
+                  value={draft.apiKey ?? ''}
+                  onChange={e => update({ apiKey: e.target.value })}
+                />
+              </div>
+            )}
+            {validationError && (
+              <Alert variant="destructive">
+                <AlertDescription>{validationError}</AlertDescription>
+              </Alert>
+            )}
+            {needsUserCredentials && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="profile-username">Username</Label>
+                  <Input id="profile-username" value={draft.username} onChange={e => update({ username: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="profile-password">Password</Label>
+                  <Input
+                    id="profile-password"
+                    type="password"
+                    value={draft.password}
+                    onChange={e => update({ password: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => editDraft(null)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={!canSave || validating}>
+                {validating ? 'Validating...' : 'Save Profile'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {state.profiles.length === 0 && (
+              <div className="text-sm text-muted-foreground">No profiles yet.</div>
+            )}
+            {state.profiles.map(profile => (
+              <div key={profile.id} className="flex items-center justify-between border rounded-md p-3">
+                <div className="font-mono text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{profile.name}</span>
+                    <Badge variant="secondary" className="text-xs">{authModeLabels[profile.authMode]}</Badge>
+                    {profile.id === state.activeProfileId && <Badge className="text-xs">active</Badge>}
+                  </div>
+                  <div className="text-muted-foreground">{profile.url}</div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => editDraft(profile)} aria-label="Edit">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(profile)} aria-label="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button variant="outline" onClick={() => editDraft(emptyProfile())}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Profile
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,8 +3,10 @@ import React, { useState, useEffect } from 'react';
 import { useBenchmark } from '../../contexts/BenchmarkContext';
 import { getAuthStatus, isDevelopmentMode } from '../../services/authService';
 import { getTokenInfo } from '../../utils/tokenManager';
+import { getOAuthTokenInfo } from '../../utils/oauthTokenManager';
 import { Badge } from '../ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip';
+import { ProfileSwitcher } from './ProfileSwitcher';
 
 export function InstanceStatus() {
   const { state } = useBenchmark();
@@ -12,25 +14,34 @@ export function InstanceStatus() {
   const authStatus = getAuthStatus();
   const showInstanceUrl = isDevelopmentMode();
   const [tokenInfo, setTokenInfo] = useState<any>(null);
+  const isOAuth = instance.authMode === 'oauth';
 
   useEffect(() => {
-    if (authStatus.isSessionAuth) {
+    if (authStatus.isSessionAuth || isOAuth) {
       // Update token info periodically
       const updateTokenInfo = () => {
-        const info = getTokenInfo();
+        const info = isOAuth ? getOAuthTokenInfo(instance) : getTokenInfo();
         setTokenInfo(info);
       };
 
       updateTokenInfo();
-      const interval = setInterval(updateTokenInfo, 30000); // Update every 30 seconds
+      // OAuth shows a countdown of the token lifetime
+      const interval = setInterval(updateTokenInfo, isOAuth ? 1000 : 30000);
       return () => clearInterval(interval);
     }
-  }, [authStatus.isSessionAuth]);
+  }, [authStatus.isSessionAuth, isOAuth, instance]);
 
   const getTokenStatus = () => {
     if (!tokenInfo) return 'unknown';
     
     const now = Date.now();
+    if (isOAuth && tokenInfo.expiresAt) {
+      const remaining = tokenInfo.expiresAt - now;
+      if (remaining <= 0) return 'expired';
+      if (remaining < Math.min(60000, (tokenInfo.expiresAt - tokenInfo.fetchedAt) * 0.1)) return 'expiring';
+      return 'valid';
+    }
+
     const tokenAge = now - tokenInfo.fetchedAt;
     const maxAge = 5 * 60 * 1000; // 5 minutes
     
@@ -59,8 +70,16 @@ export function InstanceStatus() {
     return `${ageSeconds}s ago`;
   };
 
+  const formatRemaining = (expiresAt: number) => {
+    const remainingSeconds = Math.max(0, Math.floor((expiresAt - Date.now()) / 1000));
+    const minutes = Math.floor(remainingSeconds / 60);
+    return minutes > 0 ? `${minutes}m ${remainingSeconds % 60}s` : `${remainingSeconds}s`;
+  };
+
   return (
     <div className="flex items-center space-x-4 font-mono">
+      {showInstanceUrl && <ProfileSwitcher />}
+
       {showInstanceUrl && (
         <div className="flex items-center space-x-2">
           <span className="text-sm text-gray-600">Instance:</span>
@@ -91,7 +110,16 @@ export function InstanceStatus() {
         </div>
       )}
 
-      {authStatus.isSessionAuth && tokenInfo && (
+      {(isOAuth || instance.authMode === 'apikey') && (
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-gray-600">Mode:</span>
+          <Badge variant="secondary" className="text-xs">
+            {instance.authMode}
+          </Badge>
+        </div>
+      )}
+
+      {(authStatus.isSessionAuth || isOAuth) && tokenInfo && (
         <TooltipProvider>
           <Tooltip>
             <TooltipTrigger asChild>
@@ -103,6 +131,9 @@ export function InstanceStatus() {
                 >
                   {getTokenStatus()}
                 </Badge>
+                {isOAuth && tokenInfo.expiresAt && (
+                  <span className="text-xs text-gray-600">{formatRemaining(tokenInfo.expiresAt)} left</span>
+                )}
               </div>
             </TooltipTrigger>
             <TooltipContent>
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Settings } from 'lucide-react';
+import { useBenchmark } from '../../contexts/BenchmarkContext';
+import { apiService } from '../../services/apiService';
+import { profileToInstance } from '../../utils/instanceProfiles';
+import { InstanceProfileDialog } from './InstanceProfileDialog';
+
+// Switches the active instance to a saved profile and tests the connection
+export function ProfileSwitcher() {
+  const { state, dispatch } = useBenchmark();
+  const [managing, setManaging] = useState(false);
+  const [connecting, setConnecting] = useState(false);
+
+  const handleSelect = async (profileId: string) => {
+    const profile = state.profiles.find(p => p.id === profileId);
+    if (!profile) return;
+
+    dispatch({ type: 'SELECT_PROFILE', payload: profile.id });
+    const instance = profileToInstance(profile);
+    apiService.setInstance(instance);
+
+    setConnecting(true);
+    try {
+      const result = await apiService.testConnection();
+      if (result.success) {
+        const connected = { ...instance, connected: true };
+        apiService.setInstance(connected);
+        dispatch({ type: 'SET_INSTANCE', payload: connected });
+      }
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="text-sm text-gray-600">Profile:</span>
+      <Select
+        value={state.activeProfileId ?? ''}
+        onValueChange={handleSelect}
+        disabled={state.isRunning || connecting || state.profiles.length === 0}
+      >
+        <SelectTrigger className="w-40 h-8 text-sm">
+          <SelectValue placeholder={state.profiles.length === 0 ? 'None saved' : 'Select'} />
+        </SelectTrigger>
+        <SelectContent>
+          {state.profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="sm" onClick={() => setManaging(true)} aria-label="Manage profiles">
+        <Settings className="h-4 w-4" />
+      </Button>
+      <InstanceProfileDialog open={managing} onClose={() => setManaging(false)} />
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { ArrowRightLeft, TrendingDown, TrendingUp } from 'lucide-react';
+import { BenchmarkRun, MetricDelta, RunDiffApiDelta } from '../../types';
+import { DEFAULT_REGRESSION_THRESHOLD, diffRuns } from '../../utils/runDiff';
+
+interface RunDiffViewProps {
+  runs: BenchmarkRun[];
+}
+
+function formatPercent(value?: number): string {
+  if (value === undefined) return '';
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+}
+
+function TimeDeltaCell({ value, threshold }: { value?: RunDiffApiDelta; threshold: number }) {
+  if (!value) return <TableCell className="text-muted-foreground">—</TableCell>;
+
+  const { baseline, candidate, deltaPercent } = value.responseTime;
+  if (baseline === undefined || candidate === undefined) {
+    return <TableCell className="text-muted-foreground">failed</TableCell>;
+  }
+
+  const improved = deltaPercent !== undefined && deltaPercent < -threshold;
+  const color = value.regressed ? 'text-destructive font-semibold' : improved ? 'text-success' : '';
+  return (
+    <TableCell className={`font-mono text-xs ${color}`}>
+      {baseline.toFixed(0)} → {candidate.toFixed(0)}ms
+      <div>{formatPercent(deltaPercent)}</div>
+    </TableCell>
+  );
+}
+
+function PayloadDeltaCell({ rest, graphql }: { rest: MetricDelta; graphql: MetricDelta }) {
+  const format = (label: string, value: MetricDelta) =>
+    value.delta === undefined ? `${label} —` : `${label} ${value.delta > 0 ? '+' : ''}${(value.delta / 1024).toFixed(1)}KB`;
+  return (
+    <TableCell className="font-mono text-xs">
+      <div>{format('REST', rest)}</div>
+      <div>{format('GQL', graphql)}</div>
+    </TableCell>
+  );
+}
+
+// Side-by-side comparison of two saved runs
+export function RunDiffView({ runs }: RunDiffViewProps) {
+  const [baselineId, setBaselineId] = useState<string>('');
+  const [candidateId, setCandidateId] = useState<string>('');
+  const [threshold, setThreshold] = useState(DEFAULT_REGRESSION_THRESHOLD);
+  const [changesOnly, setChangesOnly] = useState(false);
+
+  // Default to the two most recent runs, oldest as baseline
+  useEffect(() => {
+    if (!runs.some(run => run.id === candidateId)) setCandidateId(runs[0]?.id ?? '');
+    if (!runs.some(run => run.id === baselineId)) setBaselineId(runs[1]?.id ?? '');
+  }, [runs, baselineId, candidateId]);
+
+  const baseline = runs.find(run => run.id === baselineId);
+  const candidate = runs.find(run => run.id === candidateId);
+  const diff = useMemo(
+    () => (baseline && candidate ? diffRuns(baseline, candidate, threshold) : null),
+    [baseline, candidate, threshold]
+  );
+
+  if (runs.length < 2) return null;
+
+  const entries = diff?.entries.filter(entry =>
+    !changesOnly || entry.winnerFlipped || entry.rest.regressed || entry.graphql.regressed || entry.batch?.regressed
+  ) ?? [];
+  const showBatch = diff?.entries.some(entry => entry.batch) ?? false;
+
+  const runSelect = (id: string, value: string, onChange: (value: string) => void, label: string) => (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select a run" />
+        </SelectTrigger>
+        <SelectContent>
+          {runs.map(run => (
+            <SelectItem key={run.id} value={run.id}>{run.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5" />
+          Compare Runs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          {runSelect('diff-baseline', baselineId, setBaselineId, 'Baseline')}
+          {runSelect('diff-candidate', candidateId, setCandidateId, 'Candidate')}
+          <div>
+            <Label htmlFor="diff-threshold">Regression Threshold (%)</Label>
+            <Input
+              id="diff-threshold"
+              type="number"
+              min={0}
+              value={threshold}
+              onChange={e => {
+                const parsed = parseFloat(e.target.value);
+                if (!isNaN(parsed)) setThreshold(Math.max(0, parsed));
+              }}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="diff-changes-only" checked={changesOnly} onCheckedChange={setChangesOnly} />
+            <Label htmlFor="diff-changes-only">Regressions and flips only</Label>
+          </div>
+        </div>
+
+        {diff && (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{diff.entries.length} matched tests</Badge>
+              <Badge variant={diff.regressionCount > 0 ? 'destructive' : 'outline'}>
+                <TrendingUp className="h-3 w-3 mr-1" />
+                {diff.regressionCount} regressions
+              </Badge>
+              <Badge variant={diff.winnerFlipCount > 0 ? 'default' : 'outline'}>
+                <TrendingDown className="h-3 w-3 mr-1" />
+                {diff.winnerFlipCount} winner flips
+              </Badge>
+              {diff.onlyInBaseline.length > 0 && (
+                <Badge variant="secondary">{diff.onlyInBaseline.length} only in baseline</Badge>
+              )}
+              {diff.onlyInCandidate.length > 0 && (
+                <Badge variant="secondary">{diff.onlyInCandidate.length} only in candidate</Badge>
+              )}
+            </div>
+
+            {entries.length === 0 ? (
+              <div className="text-sm text-muted-foreground">
+                {diff.entries.length === 0 ? 'These runs have no tests in common.' : 'No regressions or winner flips.'}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Test</TableHead>
+                    <TableHead>REST</TableHead>
+                    <TableHead>GraphQL</TableHead>
+                    {showBatch && <TableHead>Batch</TableHead>}
+                    <TableHead>Payload Δ</TableHead>
+                    <TableHead>Consistency</TableHead>
+                    <TableHead>Winner</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <div className="font-medium">{entry.testType}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{entry.id}</div>
+                      </TableCell>
+                      <TimeDeltaCell value={entry.rest} threshold={threshold} />
+                      <TimeDeltaCell value={entry.graphql} threshold={threshold} />
+                      {showBatch && <TimeDeltaCell value={entry.batch} threshold={threshold} />}
+                      <PayloadDeltaCell rest={entry.rest.payloadSize} graphql={entry.graphql.payloadSize} />
+                      <TableCell className={`font-mono text-xs ${(entry.consistency.delta ?? 0) < 0 ? 'text-destructive' : ''}`}>
+                        {entry.consistency.delta === undefined
+                          ? '—'
+                          : `${entry.consistency.baseline!.toFixed(0)}% → ${entry.consistency.candidate!.toFixed(0)}%`}
+                      </TableCell>
+                      <TableCell>
+                        {entry.winnerFlipped ? (
+                          <Badge variant="default">{entry.baselineWinner} → {entry.candidateWinner}</Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">{entry.candidateWinner}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Edit, FolderOpen, Search, Tag, Trash2, Check, X } from 'lucide-react';
+import { BenchmarkRun } from '../../types';
+import { useBenchmark } from '../../contexts/BenchmarkContext';
+import { runHistoryService, BenchmarkRunUpdate } from '../../services/runHistoryService';
+import { RunDiffView } from './RunDiffView';
+
+interface RunHistoryProps {
+  // Called after a run was reopened, to switch to the benchmark view
+  onOpenRun: () => void;
+}
+
+interface RunEdit {
+  id: string;
+  name: string;
+  tags: string;
+}
+
+function parseTags(value: string): string[] {
+  return Array.from(new Set(value.split(',').map(tag => tag.trim()).filter(Boolean)));
+}
+
+export function RunHistory({ onOpenRun }: RunHistoryProps) {
+  const { state, dispatch } = useBenchmark();
+  const [runs, setRuns] = useState<BenchmarkRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [editing, setEditing] = useState<RunEdit | null>(null);
+
+  const loadRuns = useCallback(async () => {
+    try {
+      setRuns(await runHistoryService.listRuns());
+      setError(null);
+    } catch (loadError) {
+      console.error('Failed to load run history:', loadError);
+      setError('The run history could not be loaded from browser storage.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload after each run, which the context has just saved
+  useEffect(() => {
+    if (!state.isRunning) {
+      loadRuns();
+    }
+  }, [state.isRunning, loadRuns]);
+
+  const updateRun = async (id: string, update: BenchmarkRunUpdate) => {
+    try {
+      const updated = await runHistoryService.updateRun(id, update);
+      setRuns(prev => prev.map(run => (run.id === id ? updated : run)));
+    } catch (updateError) {
+      console.error('Failed to update run:', updateError);
+      setError('The run could not be updated.');
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    await updateRun(editing.id, { name: editing.name.trim() || 'Untitled run', tags: parseTags(editing.tags) });
+    setEditing(null);
+  };
+
+  const handleDeleteRun = async (run: BenchmarkRun) => {
+    if (!window.confirm(`Delete "${run.name}" from the run history?`)) return;
+    try {
+      await runHistoryService.deleteRun(run.id);
+      setRuns(prev => prev.filter(existing => existing.id !== run.id));
+    } catch (deleteError) {
+      console.error('Failed to delete run:', deleteError);
+      setError('The run could not be deleted.');
+    }
+  };
+
+  const handleOpenRun = (run: BenchmarkRun) => {
+    dispatch({ type: 'LOAD_RUN', payload: run });
+    onOpenRun();
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  const allTags = Array.from(new Set(runs.flatMap(run => run.tags)));
+  const filteredRuns = runs.filter(run => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = run.name.toLowerCase().includes(term) || run.instanceUrl.toLowerCase().includes(term);
+    const matchesTags = selectedTags.length === 0 || selectedTags.every(tag => run.tags.includes(tag));
+    return matchesSearch && matchesTags;
+  });
+
+  if (!runHistoryService.isAvailable) {
+    return (
+      <Alert>
+        <AlertDescription>This browser does not support IndexedDB, so runs cannot be kept.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">Run History</h3>
+        <p className="text-sm text-muted-foreground">
+          Every finished run is saved in this browser. Reopen one to see it in the scoreboard and timeline.
+        </p>
+      </div>
+
+      {error && (
+        <Alert>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <RunDiffView runs={runs} />
+
+      <div className="space-y-4">
+        <div>
+          <Label htmlFor="history-search">Search Runs</Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="history-search"
+              placeholder="Search by name or instance..."
+              value={searchTerm}
+              onChange={e => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </div>
+
+        {allTags.length > 0 && (
+          <div>
+            <Label>Filter by Tags</Label>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {allTags.map(tag => (
+                <Badge
+                  key={tag}
+                  variant={selectedTags.includes(tag) ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => toggleTag(tag)}
+                >
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {loading ? (
+          <div className="text-sm text-muted-foreground">Loading run history...</div>
+        ) : filteredRuns.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              {runs.length === 0 ? 'No runs saved yet. Finished runs appear here automatically.' : 'No runs match your current filters'}
+            </CardContent>
+          </Card>
+        ) : (
+          filteredRuns.map(run => {
+            const isEditing = editing?.id === run.id;
+            const isOpen = state.loadedRun?.id === run.id;
+
+            return (
+              <Card key={run.id} className={isOpen ? 'border-primary' : 'hover:shadow-md transition-shadow'}>
+                <CardHeader>
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="flex-1 space-y-2">
+                      {isEditing ? (
+                        <>
+                          <Input
+                            aria-label="Run name"
+                            value={editing.name}
+                            onChange={e => setEditing({ ...editing, name: e.target.value })}
+                          />
+                          <Input
+                            aria-label="Run tags"
+                            placeholder="Tags, comma separated"
+                            value={editing.tags}
+                            onChange={e => setEditing({ ...editing, tags: e.target.value })}
+                          />
+                        </>
+                      ) : (
+                        <>
+                          <CardTitle className="text-lg">{run.name}</CardTitle>
+                          <div className="text-sm text-muted-foreground font-mono">
+                            {new Date(run.startedAt).toLocaleString()} • {run.instanceUrl || 'unknown instance'} • v{run.appVersion}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      {isEditing ? (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={handleSaveEdit} aria-label="Save">
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setEditing(null)} aria-label="Cancel">
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleOpenRun(run)}
+                            disabled={state.isRunning}
+                          >
+                            <FolderOpen className="h-4 w-4 mr-2" />
+                            Open
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditing({ id: run.id, name: run.name, tags: run.tags.join(', ') })}
+                            aria-label="Rename or tag"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteRun(run)} aria-label="Delete">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap items-center gap-4 text-sm font-mono">
+                    <span>{run.results.length} tests</span>
+                    <span className="text-info">REST {run.metrics.restWins}</span>
+                    <span className="text-success">GraphQL {run.metrics.graphqlWins}</span>
+                    {!!run.metrics.batchWins && <span className="text-purple-600">Batch {run.metrics.batchWins}</span>}
+                    {run.cancelled && <Badge variant="outline">cancelled</Badge>}
+                    {run.tags.map(tag => (
+                      <Badge key={tag} variant="secondary">
+                        <Tag className="h-3 w-3 mr-1" />
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,18 +2,31 @@
 import React from 'react';
 import { Card } from '@/components/ui/card';
 import { useBenchmark } from '../../contexts/BenchmarkContext';
+import { DEFAULT_ALPHA } from '../../utils/statistics';
 
 export function LiveScore() {
   const { state } = useBenchmark();
-  const { testResults } = state;
+  const { testResults, testStatuses, isRunning, isPaused } = state;
 
   const restWins = testResults.filter(r => r.winner === 'rest').length;
   const graphqlWins = testResults.filter(r => r.winner === 'graphql').length;
+  const batchWins = testResults.filter(r => r.winner === 'batch').length;
+  const hasBatchResults = testResults.some(r => r.batchApi);
+  const ties = testResults.filter(r => r.winner === 'tie').length;
   const totalTests = testResults.length;
+  const cancelledTests = testStatuses.filter(s => s.status === 'cancelled').length;
 
   return (
     <Card className="p-6">
       <h3 className="text-lg font-semibold font-mono mb-4 text-center">Performance Scoreboard</h3>
+      {isRunning && isPaused && (
+        <div className="-mt-2 mb-4 text-center font-mono text-xs text-amber-700">⏸ Run paused</div>
+      )}
+      {!isRunning && cancelledTests > 0 && (
+        <div className="-mt-2 mb-4 text-center font-mono text-xs text-amber-700">
+          Run cancelled: partial results ({cancelledTests} tests not run)
+        </div>
+      )}
       
       <div className="space-y-4">
         <div className="text-center">
@@ -57,12 +70,47 @@ export function LiveScore() {
               </div>
             </div>
           </div>
+
+          {hasBatchResults && (
+            <div className="flex justify-between items-center">
+              <span className="font-mono text-sm">Batch API</span>
+              <div className="flex items-center space-x-2">
+                <div className="w-12 text-right font-mono text-sm font-bold text-purple-600">
+                  {batchWins}
+                </div>
+                <div className="w-16 bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-purple-500 h-2 rounded-full transition-all duration-300"
+                    style={{ width: totalTests > 0 ? `${(batchWins / totalTests) * 100}%` : '0%' }}
+                  ></div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-between items-center">
+            <span className="font-mono text-sm">No significant difference</span>
+            <div className="flex items-center space-x-2">
+              <div className="w-12 text-right font-mono text-sm font-bold text-gray-500">
+                {ties}
+              </div>
+              <div className="w-16 bg-gray-200 rounded-full h-2">
+                <div 
+                  className="bg-gray-400 h-2 rounded-full transition-all duration-300"
+                  style={{ width: totalTests > 0 ? `${(ties / totalTests) * 100}%` : '0%' }}
+                ></div>
+              </div>
+            </div>
+          </div>
         </div>
 
         <div className="pt-3 border-t border-gray-200 text-center">
           <div className="font-mono text-sm text-gray-600">
             Total Tests: {totalTests}
           </div>
+          <div className="font-mono text-xs text-gray-400 mt-1">
+            Wins require Mann-Whitney U p &lt; {DEFAULT_ALPHA}
+          </div>
         </div>
       </div>
     </Card>
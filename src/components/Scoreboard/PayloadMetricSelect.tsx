@@ -0,0 +1,26 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBenchmark } from '../../contexts/BenchmarkContext';
+import { PayloadSizeMetric } from '../../types';
+import { payloadSizeMetricLabels } from '../../utils/payloadSize';
+
+// Shared by the scoreboard and the completion modal, so both compare the same size
+export function PayloadMetricSelect({ className }: { className?: string }) {
+  const { state, dispatch } = useBenchmark();
+
+  return (
+    <Select
+      value={state.payloadMetric}
+      onValueChange={metric => dispatch({ type: 'SET_PAYLOAD_METRIC', payload: metric as PayloadSizeMetric })}
+    >
+      <SelectTrigger className={className} aria-label="Payload size metric">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(payloadSizeMetricLabels) as PayloadSizeMetric[]).map(metric => (
+          <SelectItem key={metric} value={metric}>{payloadSizeMetricLabels[metric]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -2,18 +2,21 @@
 import React from 'react';
 import { Card } from '@/components/ui/card';
 import { useBenchmark } from '../../contexts/BenchmarkContext';
+import { summarizePayloads } from '../../utils/payloadSize';
+import { PayloadMetricSelect } from './PayloadMetricSelect';
+
+const formatRatio = (ratio?: number) => (ratio === undefined ? 'n/a' : `${ratio.toFixed(1)}×`);
 
 export function QuickStats() {
   const { state } = useBenchmark();
-  const { testResults } = state;
+  const { testResults, payloadMetric } = state;
 
   const calculateStats = () => {
     if (testResults.length === 0) {
       return {
         avgRestTime: 0,
         avgGraphqlTime: 0,
-        totalRestPayload: 0,
-        totalGraphqlPayload: 0,
+        payload: summarizePayloads([], payloadMetric),
         dataConsistencyScore: 0,
         improvement: 0,
       };
@@ -21,8 +24,7 @@ export function QuickStats() {
 
     const avgRestTime = testResults.reduce((sum, r) => sum + r.restApi.responseTime, 0) / testResults.length;
     const avgGraphqlTime = testResults.reduce((sum, r) => sum + r.graphqlApi.responseTime, 0) / testResults.length;
-    const totalRestPayload = testResults.reduce((sum, r) => sum + r.restApi.payloadSize, 0);
-    const totalGraphqlPayload = testResults.reduce((sum, r) => sum + r.graphqlApi.payloadSize, 0);
+    const payload = summarizePayloads(testResults, payloadMetric);
     const testsWithComparison = testResults.filter(r => r.dataComparison);
     const dataConsistencyScore = testsWithComparison.length > 0 
       ? testsWithComparison.reduce((sum, r) => sum + (r.dataComparison?.dataConsistency || 0), 0) / testsWithComparison.length
@@ -33,16 +35,17 @@ export function QuickStats() {
     return {
       avgRestTime,
       avgGraphqlTime,
-      totalRestPayload,
-      totalGraphqlPayload,
+      payload,
       dataConsistencyScore,
       improvement,
     };
   };
 
   const stats = calculateStats();
+  const { payload } = stats;
+  const hasPayload = payload.compared > 0;
 
-  const statCards = [
+  const statCards: Array<{ title: string; restValue: string; graphqlValue: string; winner: string | null; control?: React.ReactNode; note?: string }> = [
     {
       title: 'Avg Response Time',
       restValue: `${stats.avgRestTime.toFixed(0)}ms`,
@@ -51,9 +54,12 @@ export function QuickStats() {
     },
     {
       title: 'Total Payload Size',
-      restValue: `${(stats.totalRestPayload / 1024).toFixed(1)}KB`,
-      graphqlValue: `${(stats.totalGraphqlPayload / 1024).toFixed(1)}KB`,
-      winner: stats.totalRestPayload > stats.totalGraphqlPayload ? 'graphql' : stats.totalRestPayload < stats.totalGraphqlPayload ? 'rest' : null,
+      restValue: hasPayload ? `${(payload.rest / 1024).toFixed(1)}KB` : 'N/A',
+      graphqlValue: hasPayload ? `${(payload.graphql / 1024).toFixed(1)}KB` : 'N/A',
+      winner: !hasPayload ? null : payload.rest > payload.graphql ? 'graphql' : payload.rest < payload.graphql ? 'rest' : null,
+      control: <PayloadMetricSelect className="h-7 w-40 font-mono text-xs" />,
+      note: `Compression REST ${formatRatio(payload.restCompression)} · GraphQL ${formatRatio(payload.graphqlCompression)}` +
+        (payload.skipped > 0 ? ` · ${payload.skipped} tests without this size` : ''),
     },
     {
       title: 'Data Consistency',
@@ -73,9 +79,12 @@ export function QuickStats() {
     <div className="space-y-3">
       {statCards.map((stat, index) => (
         <Card key={index} className="p-4">
-          <h4 className="font-mono text-sm font-medium text-gray-700 mb-3">
-            {stat.title}
-          </h4>
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <h4 className="font-mono text-sm font-medium text-gray-700">
+              {stat.title}
+            </h4>
+            {stat.control}
+          </div>
           
           <div className="space-y-2">
             <div className={`flex justify-between items-center p-2 rounded ${
@@ -97,6 +106,7 @@ export function QuickStats() {
               </span>
               {stat.winner === 'graphql' && <span className="text-success">✓</span>}
             </div>
+            {stat.note && <div className="font-mono text-xs text-gray-500">{stat.note}</div>}
           </div>
         </Card>
       ))}
@@ -0,0 +1,57 @@
+import React, { ReactNode, useEffect, useState } from 'react';
+import { credentialVault, AUTO_LOCK_MS } from '../../utils/credentialVault';
+import { isProductionMode } from '../../services/authService';
+import { VaultUnlockPrompt } from './VaultUnlockPrompt';
+
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'click', 'scroll'] as const;
+
+// Renders the app once stored credentials are readable and locks them again after inactivity
+export function VaultGate({ children }: { children: ReactNode }) {
+  const [status, setStatus] = useState(credentialVault.status);
+  const [loaded, setLoaded] = useState(credentialVault.isLoaded);
+
+  useEffect(() => {
+    const unsubscribe = credentialVault.subscribe(() => {
+      setStatus(credentialVault.status);
+      // Locking unloads the entries, but the app stays mounted until they are read again
+      setLoaded(loaded => credentialVault.isLoaded || (loaded && credentialVault.status === 'locked'));
+    });
+
+    // Production authenticates with the session cookie, so there are no secrets to protect
+    if (credentialVault.status === 'setup' && isProductionMode()) {
+      credentialVault.create(null);
+    } else {
+      credentialVault.open();
+    }
+
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'unlocked' || credentialVault.mode !== 'encrypted') return;
+
+    let lastActivity = Date.now();
+    const recordActivity = () => {
+      lastActivity = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, recordActivity, { passive: true }));
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivity >= AUTO_LOCK_MS) {
+        credentialVault.lock();
+      }
+    }, 30000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity));
+      clearInterval(interval);
+    };
+  }, [status]);
+
+  return (
+    <>
+      {/* The app stays mounted while locked so a running benchmark is not lost */}
+      {loaded && children}
+      {status !== 'unlocked' && <VaultUnlockPrompt status={status} />}
+    </>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Lock } from 'lucide-react';
+import { createVault, MIN_PASSPHRASE_LENGTH, resetVault, unlockVault, VaultStatus } from '../../utils/credentialVault';
+
+interface VaultUnlockPromptProps {
+  status: Exclude<VaultStatus, 'unlocked'>;
+}
+
+// Full-screen prompt to choose a passphrase on first use, or to unlock stored credentials
+export function VaultUnlockPrompt({ status }: VaultUnlockPromptProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [persistSecrets, setPersistSecrets] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isSetup = status === 'setup';
+
+  const canSubmit = isSetup
+    ? !persistSecrets || (passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmation)
+    : passphrase !== '';
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      if (isSetup) {
+        await createVault(persistSecrets ? passphrase : null);
+      } else if (!(await unlockVault(passphrase))) {
+        setError('Wrong passphrase.');
+      }
+    } catch (err) {
+      setError(`Could not open the credential vault: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+      setPassphrase('');
+      setConfirmation('');
+    }
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Forget the passphrase and delete all stored credentials and instance profiles?')) {
+      resetVault();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/95 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 font-mono">
+            <Lock className="h-5 w-5" />
+            {isSetup ? 'Protect Stored Credentials' : 'Unlock Credentials'}
+          </CardTitle>
+          <CardDescription>
+            {isSetup
+              ? 'Passwords, tokens and keys are encrypted in this browser with a passphrase only you know. Credentials saved by earlier versions are encrypted too.'
+              : 'Stored credentials are locked. Enter your passphrase to continue.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {isSetup && (
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="vault-persist-secrets">Remember secrets on this device</Label>
+                <Switch id="vault-persist-secrets" checked={persistSecrets} onCheckedChange={setPersistSecrets} />
+              </div>
+            )}
+            {isSetup && !persistSecrets ? (
+              <div className="text-sm text-muted-foreground">
+                Secrets stay in memory and have to be entered again after a reload. Instance URLs and profile names are still saved.
+              </div>
+            ) : (
+              <>
+                <div>
+                  <Label htmlFor="vault-passphrase">Passphrase</Label>
+                  <Input
+                    id="vault-passphrase"
+                    type="password"
+                    autoFocus
+                    autoComplete={isSetup ? 'new-password' : 'current-password'}
+                    value={passphrase}
+                    onChange={e => setPassphrase(e.target.value)}
+                  />
+                  {isSetup && (
+                    <div className="text-xs text-muted-foreground mt-1">At least {MIN_PASSPHRASE_LENGTH} characters</div>
+                  )}
+                </div>
+                {isSetup && (
+                  <div>
+                    <Label htmlFor="vault-confirmation">Confirm Passphrase</Label>
+                    <Input
+                      id="vault-confirmation"
+                      type="password"
+                      autoComplete="new-password"
+                      value={confirmation}
+                      onChange={e => setConfirmation(e.target.value)}
+                    />
+                  </div>
+                )}
+              </>
+            )}
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <div className="flex justify-between gap-2">
+              {!isSetup ? (
+                <Button type="button" variant="ghost" size="sm" onClick={handleReset}>
+                  Forgot passphrase?
+                </Button>
+              ) : (
+                <span />
+              )}
+              <Button type="submit" disabled={!canSubmit || busy}>
+                {busy ? 'Working...' : isSetup ? 'Continue' : 'Unlock'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LimitSweep, LimitSweepScale } from '../../types';
+import { defaultLimitSweep, sweepLimits } from '../../utils/limitSweep';
+
+const scaleLabels: Record<LimitSweepScale, string> = {
+  log: 'Logarithmic steps',
+  linear: 'Linear steps',
+};
+
+interface LimitSweepFieldsProps {
+  value?: LimitSweep;
+  onChange: (value: LimitSweep | undefined) => void;
+}
+
+// Range of generated record limits a category runs with instead of the selected ones
+export function LimitSweepFields({ value, onChange }: LimitSweepFieldsProps) {
+  const update = (updates: Partial<LimitSweep>) => onChange({ ...(value || defaultLimitSweep), ...updates });
+
+  const numberField = (key: 'from' | 'to' | 'steps', label: string, min: number) => (
+    <div>
+      <Label htmlFor={`limit-sweep-${key}`} className="font-mono text-xs">{label}</Label>
+      <Input
+        id={`limit-sweep-${key}`}
+        type="number"
+        min={min}
+        value={value?.[key] ?? ''}
+        onChange={e => {
+          const parsed = parseInt(e.target.value);
+          if (!isNaN(parsed)) update({ [key]: Math.max(min, parsed) });
+        }}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="limit-sweep-enabled" className="font-mono text-xs">Sweep a generated range of limits</Label>
+        <Switch
+          id="limit-sweep-enabled"
+          checked={!!value}
+          onCheckedChange={checked => onChange(checked ? defaultLimitSweep : undefined)}
+        />
+      </div>
+      {value && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            {numberField('from', 'From', 1)}
+            {numberField('to', 'To', 1)}
+            {numberField('steps', 'Steps', 2)}
+            <div>
+              <Label className="font-mono text-xs">Scale</Label>
+              <Select value={value.scale} onValueChange={scale => update({ scale: scale as LimitSweepScale })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(scaleLabels) as LimitSweepScale[]).map(scale => (
+                    <SelectItem key={scale} value={scale}>{scaleLabels[scale]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="text-xs text-gray-500">
+            Every scenario runs with {sweepLimits(value).join(', ')} records instead of the selected limits.
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
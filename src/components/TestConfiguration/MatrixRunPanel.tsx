@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useBenchmark } from '../../contexts/BenchmarkContext';
+import { TestExecutionService } from '../../services/testExecutionService';
+import { MatrixInstanceResult } from '../../types';
+
+interface MatrixRunPanelProps {
+  plannedTestCount: number;
+  // Server timing switch of the test configuration header
+  serverTiming: boolean;
+}
+
+// Runs the current test configuration against several instance profiles
+export function MatrixRunPanel({ plannedTestCount, serverTiming }: MatrixRunPanelProps) {
+  const { state, dispatch, createRunControl } = useBenchmark();
+  const [selectedProfileIds, setSelectedProfileIds] = useState<string[]>([]);
+  const [lastRun, setLastRun] = useState<MatrixInstanceResult[]>([]);
+  const [compareUsers, setCompareUsers] = useState(false);
+
+  const selectedProfiles = state.profiles.filter(profile => selectedProfileIds.includes(profile.id));
+
+  const toggleProfile = (id: string, checked: boolean) => {
+    setSelectedProfileIds(prev => (checked ? [...prev, id] : prev.filter(existing => existing !== id)));
+  };
+
+  const handleRunMatrix = async () => {
+    const outcome = await TestExecutionService.executeMatrix(
+      selectedProfiles,
+      state.testConfiguration,
+      dispatch,
+      state.customRequests,
+      { control: createRunControl(), captureVisibility: compareUsers, serverTiming }
+    );
+    setLastRun(outcome.instances);
+  };
+
+  if (state.profiles.length === 0) {
+    return (
+      <Alert>
+        <AlertDescription>
+          Add instance profiles from the profile switcher in the header to run the same tests against several instances.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const failedInstances = lastRun.filter(result => !result.connected);
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-muted-foreground">
+        The enabled tests ({plannedTestCount} per instance) run against each selected profile in turn; results are grouped by instance.
+      </div>
+
+      <div className="space-y-2">
+        {state.profiles.map(profile => (
+          <div key={profile.id} className="flex items-center gap-3">
+            <Checkbox
+              id={`matrix-${profile.id}`}
+              checked={selectedProfileIds.includes(profile.id)}
+              onCheckedChange={checked => toggleProfile(profile.id, checked === true)}
+            />
+            <Label htmlFor={`matrix-${profile.id}`} className="font-mono text-sm">
+              {profile.name} <span className="text-muted-foreground">{profile.url}</span>
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="matrix-compare-users">Compare users</Label>
+          <div className="text-xs text-muted-foreground">
+            Select profiles with different credentials, e.g. admin, ITIL and requester, to report which records and fields each API exposed to each user
+          </div>
+        </div>
+        <Switch id="matrix-compare-users" checked={compareUsers} onCheckedChange={setCompareUsers} />
+      </div>
+
+      <Button
+        onClick={handleRunMatrix}
+        disabled={state.isRunning || selectedProfiles.length === 0 || plannedTestCount === 0}
+        className="font-mono"
+      >
+        {state.isRunning ? 'Running...' : `Run Matrix (${selectedProfiles.length} ${compareUsers ? 'users' : 'instances'})`}
+      </Button>
+
+      {failedInstances.length > 0 && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {failedInstances.map(result => (
+              <div key={result.instance.profileId}>
+                Skipped {result.instance.profileName}: {result.error}
+              </div>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
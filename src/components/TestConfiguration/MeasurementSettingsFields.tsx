@@ -0,0 +1,119 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ExecutionOrder, MeasurementSettings, OutlierPolicy } from '../../types';
+
+const INHERIT = 'inherit';
+
+const outlierPolicyLabels: Record<OutlierPolicy, string> = {
+  none: 'Keep all samples',
+  iqr: 'IQR trimming (1.5 × IQR)',
+  dropMinMax: 'Drop min and max',
+};
+
+const executionOrderLabels: Record<ExecutionOrder, string> = {
+  restFirst: 'REST first',
+  graphqlFirst: 'GraphQL first',
+  alternating: 'Alternating (ABAB)',
+  random: 'Random per iteration',
+};
+
+interface MeasurementSettingsFieldsProps {
+  value: Partial<MeasurementSettings>;
+  onChange: (value: Partial<MeasurementSettings>) => void;
+  // Values used for empty fields; when set, fields may be cleared to inherit them
+  inherited?: MeasurementSettings;
+}
+
+// Warm-up, iteration, cool-down, outlier and execution order inputs shared by the category panels and the request builder
+export function MeasurementSettingsFields({ value, onChange, inherited }: MeasurementSettingsFieldsProps) {
+  const update = (key: keyof MeasurementSettings, next: MeasurementSettings[typeof key] | undefined) => {
+    const updated = { ...value, [key]: next };
+    if (next === undefined) delete updated[key];
+    onChange(updated);
+  };
+
+  const numberField = (key: 'warmupRuns' | 'iterations' | 'cooldownMs', label: string, min: number) => (
+    <div>
+      <Label htmlFor={`measurement-${key}`} className="font-mono text-xs">{label}</Label>
+      <Input
+        id={`measurement-${key}`}
+        type="number"
+        min={min}
+        value={value[key] ?? ''}
+        placeholder={inherited ? String(inherited[key]) : undefined}
+        onChange={e => {
+          const parsed = parseInt(e.target.value);
+          if (isNaN(parsed)) {
+            if (inherited) update(key, undefined);
+            return;
+          }
+          update(key, Math.max(min, parsed));
+        }}
+      />
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {numberField('warmupRuns', 'Warm-up Runs', 0)}
+      {numberField('iterations', 'Measured Iterations', 1)}
+      {numberField('cooldownMs', 'Cool-down (ms)', 0)}
+      <div>
+        <Label className="font-mono text-xs">Outlier Policy</Label>
+        <Select
+          value={value.outlierPolicy ?? INHERIT}
+          onValueChange={policy => update('outlierPolicy', policy === INHERIT ? undefined : policy as OutlierPolicy)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {inherited && (
+              <SelectItem value={INHERIT}>Category default ({outlierPolicyLabels[inherited.outlierPolicy]})</SelectItem>
+            )}
+            {(Object.keys(outlierPolicyLabels) as OutlierPolicy[]).map(policy => (
+              <SelectItem key={policy} value={policy}>{outlierPolicyLabels[policy]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label className="font-mono text-xs">Execution Order</Label>
+        <Select
+          value={value.executionOrder ?? INHERIT}
+          onValueChange={order => update('executionOrder', order === INHERIT ? undefined : order as ExecutionOrder)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {inherited && (
+              <SelectItem value={INHERIT}>Category default ({executionOrderLabels[inherited.executionOrder]})</SelectItem>
+            )}
+            {(Object.keys(executionOrderLabels) as ExecutionOrder[]).map(order => (
+              <SelectItem key={order} value={order}>{executionOrderLabels[order]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {(value.executionOrder ?? inherited?.executionOrder) === 'random' && (
+        <div>
+          <Label htmlFor="measurement-orderSeed" className="font-mono text-xs">Random Seed</Label>
+          <Input
+            id="measurement-orderSeed"
+            type="number"
+            min={0}
+            value={value.orderSeed ?? ''}
+            placeholder={inherited?.orderSeed !== undefined ? String(inherited.orderSeed) : 'New seed per test'}
+            onChange={e => {
+              const parsed = parseInt(e.target.value);
+              update('orderSeed', isNaN(parsed) ? undefined : Math.max(0, parsed));
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,6 +15,8 @@ import { useBenchmark } from '../../contexts/BenchmarkContext';
 import { validateCustomRequest, buildCustomRestUrl, buildCustomGraphQLQuery } from '../../utils/apiBuilders';
 import { compareApiResponses } from '../../utils/dataComparison';
 import { makeAuthenticatedRequest, isAuthError, getAuthErrorMessage } from '../../services/authService';
+import { resolveMeasurementSettings } from '../../services/testExecutionService';
+import { MeasurementSettingsFields } from './MeasurementSettingsFields';
 import { 
   getAvailableTableNames, 
   getTableDisplayName, 
@@ -124,6 +126,7 @@ export function RequestBuilder({ request, onSave, onCancel }: RequestBuilderProp
       restConfig: formData.restConfig!,
       graphqlConfig: formData.graphqlConfig!,
       tags: formData.tags,
+      measurement: formData.measurement && Object.keys(formData.measurement).length > 0 ? formData.measurement : undefined,
       createdAt: request?.createdAt || new Date(),
       updatedAt: new Date()
     };
@@ -528,6 +531,20 @@ export function RequestBuilder({ request, onSave, onCancel }: RequestBuilderProp
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Measurement</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <MeasurementSettingsFields
+                value={formData.measurement || {}}
+                inherited={resolveMeasurementSettings(state.testConfiguration.customRequests.measurement)}
+                onChange={measurement => setFormData(prev => ({ ...prev, measurement }))}
+              />
+              <div className="text-xs text-gray-500 mt-2">Leave a field empty to use the Custom Requests category setting.</div>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Preview Panel */}
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { MultiSelect } from '@/components/ui/multi-select';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GraphQLValueShape, RestDisplayValue, RestTuningMatrix } from '../../types';
+import { emptyRestTuningMatrix, expandRestTuning, restDisplayValueForShape } from '../../utils/restTuning';
+
+const SPEC_SHAPE = 'spec';
+
+const graphqlShapeLabels: Record<GraphQLValueShape, string> = {
+  value: 'value only (REST sysparm_display_value=false)',
+  displayValue: 'displayValue only (REST sysparm_display_value=true)',
+  both: 'value and displayValue (REST sysparm_display_value=all)',
+};
+
+const displayValueOptions: Array<{ label: string; value: RestDisplayValue }> = [
+  { label: 'false (values)', value: 'false' },
+  { label: 'true (display values)', value: 'true' },
+  { label: 'all (both)', value: 'all' },
+];
+
+type RestTuningSwitch = 'excludeReferenceLink' | 'noCount' | 'suppressPaginationHeader';
+
+const switchLabels: Record<RestTuningSwitch, string> = {
+  excludeReferenceLink: 'Also with sysparm_exclude_reference_link',
+  noCount: 'Also with sysparm_no_count',
+  suppressPaginationHeader: 'Also with sysparm_suppress_pagination_header',
+};
+
+interface RestTuningFieldsProps {
+  value?: RestTuningMatrix;
+  onChange: (value: RestTuningMatrix | undefined) => void;
+  graphqlShape?: GraphQLValueShape;
+  onGraphqlShapeChange: (shape: GraphQLValueShape | undefined) => void;
+}
+
+// Table API parameter combinations every REST call of a category runs with, and the GraphQL value
+// shape, which decides the REST display value when set
+export function RestTuningFields({ value, onChange, graphqlShape, onGraphqlShapeChange }: RestTuningFieldsProps) {
+  const matrix = value || emptyRestTuningMatrix;
+  const combinations = graphqlShape
+    ? expandRestTuning({ ...matrix, displayValue: [restDisplayValueForShape[graphqlShape]] }).length
+    : expandRestTuning(value).length;
+
+  const update = (updates: Partial<RestTuningMatrix>) => {
+    const next = { ...matrix, ...updates };
+    onChange(Object.values(next).some(axis => axis.length > 0) ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label className="font-mono text-xs">GraphQL Value Shape</Label>
+        <Select
+          value={graphqlShape ?? SPEC_SHAPE}
+          onValueChange={shape => onGraphqlShapeChange(shape === SPEC_SHAPE ? undefined : shape as GraphQLValueShape)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SPEC_SHAPE}>As in the specs (REST raw values)</SelectItem>
+            {(Object.keys(graphqlShapeLabels) as GraphQLValueShape[]).map(shape => (
+              <SelectItem key={shape} value={shape}>{graphqlShapeLabels[shape]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label className="font-mono text-xs">sysparm_display_value</Label>
+        {graphqlShape ? (
+          <div className="my-2 text-xs text-gray-500">
+            Set to {restDisplayValueForShape[graphqlShape]} to match the GraphQL value shape.
+          </div>
+        ) : (
+          <div className="my-2">
+            <MultiSelect
+              options={displayValueOptions}
+              defaultValue={matrix.displayValue}
+              onValueChange={vals => update({ displayValue: vals as RestDisplayValue[] })}
+              placeholder="Table API default (false)"
+            />
+          </div>
+        )}
+      </div>
+      {(Object.keys(switchLabels) as RestTuningSwitch[]).map(key => (
+        <div key={key} className="flex items-center justify-between gap-4">
+          <Label htmlFor={`rest-tuning-${key}`} className="font-mono text-xs">{switchLabels[key]}</Label>
+          <Switch
+            id={`rest-tuning-${key}`}
+            checked={matrix[key].length > 0}
+            onCheckedChange={checked => update({ [key]: checked ? [false, true] : [] })}
+          />
+        </div>
+      ))}
+      <div className="text-xs text-gray-500">
+        {combinations > 1
+          ? `Every test runs ${combinations} times, once per combination; GraphQL is timed again for each.`
+          : value || graphqlShape
+            ? 'Every test runs once with these parameters.'
+            : 'REST calls are sent without tuning parameters.'}
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,11 @@ import { Label } from '@/components/ui/label';
 import { ChevronDown, ChevronRight } from 'lucide-react';
 import { useBenchmark } from '../../contexts/BenchmarkContext';
 import { testSpecs } from '../../specs/testSpecs';
+import { defaultMeasurementSettings, defaultTestConfiguration } from '../../services/testExecutionService';
+import { MeasurementSettingsFields } from './MeasurementSettingsFields';
+import { RestTuningFields } from './RestTuningFields';
+import { LimitSweepFields } from './LimitSweepFields';
+import { defaultVariants } from '../../utils/querySweeps';
 
 interface TestCategoryPanelProps {
   title: string;
@@ -61,7 +66,7 @@ export function TestCategoryPanel({ title, testKey, isOpen, onToggle, descriptio
               <div className="my-2">
                 <MultiSelect
                   options={variantOptions}
-                  defaultValue={testConfig.selectedVariants || variants}
+                  defaultValue={testConfig.selectedVariants || defaultVariants(testSpecs.dotWalkingTests)}
                   onValueChange={vals => updateTestConfig({ selectedVariants: vals })}
                   placeholder="Select test variants..."
                 />
@@ -83,6 +88,7 @@ export function TestCategoryPanel({ title, testKey, isOpen, onToggle, descriptio
       }
       
       case 'multiTableTests': {
+        const multiTableParameters = state.testConfiguration.multiTableTests.parameters;
         const variants = Object.keys(testSpecs.multiTableTests);
         const variantOptions = variants.map(variant => ({ label: variant, value: variant }));
         
@@ -113,10 +119,48 @@ export function TestCategoryPanel({ title, testKey, isOpen, onToggle, descriptio
                 />
               </div>
             </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="multi-table-parallel-rest" className="font-mono text-sm">Parallel REST Calls</Label>
+                <div className="text-xs text-gray-500">Load the tables concurrently, like a dashboard would</div>
+              </div>
+              <Switch
+                id="multi-table-parallel-rest"
+                checked={!!multiTableParameters.parallelRest}
+                onCheckedChange={parallelRest => updateParameters({ parallelRest })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="multi-table-batch-api" className="font-mono text-sm">Batch API Contender</Label>
+                <div className="text-xs text-gray-500">Also bundle the REST calls into one /api/now/v1/batch request</div>
+              </div>
+              <Switch
+                id="multi-table-batch-api"
+                checked={multiTableParameters.batchApi !== false}
+                onCheckedChange={batchApi => updateParameters({ batchApi })}
+              />
+            </div>
+            {multiTableParameters.parallelRest && (
+              <div>
+                <Label htmlFor="multi-table-max-concurrency" className="font-mono text-sm">Max Concurrency</Label>
+                <Input
+                  id="multi-table-max-concurrency"
+                  type="number"
+                  min={1}
+                  className="my-2"
+                  value={multiTableParameters.maxConcurrency ?? defaultTestConfiguration.multiTableTests.parameters.maxConcurrency}
+                  onChange={e => {
+                    const parsed = parseInt(e.target.value);
+                    if (!isNaN(parsed)) updateParameters({ maxConcurrency: Math.max(1, parsed) });
+                  }}
+                />
+              </div>
+            )}
           </div>
         );
       }
-      
+
       case 'schemaTailoringTests': {
         const variants = Object.keys(testSpecs.schemaTailoringTests);
         const variantOptions = variants.map(variant => ({ label: variant, value: variant }));
@@ -131,7 +175,7 @@ export function TestCategoryPanel({ title, testKey, isOpen, onToggle, descriptio
               <div className="my-2">
                 <MultiSelect
                   options={variantOptions}
-                  defaultValue={testConfig.selectedVariants || variants}
+                  defaultValue={testConfig.selectedVariants || defaultVariants(testSpecs.schemaTailoringTests)}
                   onValueChange={vals => updateTestConfig({ selectedVariants: vals })}
                   placeholder="Select schema scenarios..."
                 />
@@ -218,6 +262,123 @@ export function TestCategoryPanel({ title, testKey, isOpen, onToggle, descriptio
         );
       }
       
+      case 'aggregateTests': {
+        const variants = Object.keys(testSpecs.aggregateTests);
+        const variantOptions = variants.map(variant => ({ label: variant, value: variant }));
+
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label className="font-mono text-sm">Aggregate Variants</Label>
+              <div className="my-2">
+                <MultiSelect
+                  options={variantOptions}
+                  defaultValue={testConfig.selectedVariants || variants}
+                  onValueChange={vals => updateTestConfig({ selectedVariants: vals })}
+                  placeholder="Select variants..."
+                />
+              </div>
+            </div>
+            <div className="text-sm text-gray-600 p-3 bg-blue-50 rounded">
+              💡 Counts, group-bys and sums are computed on the instance: REST uses the Aggregate API, GraphQL the _aggregate field. Both return one row per group, so there is no record limit.
+            </div>
+          </div>
+        );
+      }
+
+      case 'paginationTests': {
+        const variants = Object.keys(testSpecs.paginationTests);
+        const variantOptions = variants.map(variant => ({ label: variant, value: variant }));
+        const limits = Array.from(new Set(Object.values(testSpecs.paginationTests).flatMap(variant => variant.recordLimits))).sort((a, b) => a - b);
+
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label className="font-mono text-sm">Pagination Scenarios</Label>
+              <div className="my-2">
+                <MultiSelect
+                  options={variantOptions}
+                  defaultValue={testConfig.selectedVariants || variants}
+                  onValueChange={vals => updateTestConfig({ selectedVariants: vals })}
+                  placeholder="Select pagination scenarios..."
+                />
+              </div>
+            </div>
+            <div>
+              <Label className="font-mono text-sm">Page Sizes</Label>
+              <div className="my-2">
+                <MultiSelect
+                  options={limits.map(lim => ({ label: String(lim), value: String(lim) }))}
+                  defaultValue={(('selectedLimits' in testConfig && testConfig.selectedLimits) || limits).map(String)}
+                  onValueChange={vals => updateTestConfig({ selectedLimits: vals.map(Number) })}
+                  placeholder="Select page sizes..."
+                />
+              </div>
+            </div>
+            <div className="text-sm text-gray-600 p-3 bg-blue-50 rounded">
+              💡 Every measured run walks the whole result set: REST follows sysparm_offset and the Link header, GraphQL moves pagination offset until _rowCount. Pages are checked by sys_id for duplicates and gaps.
+            </div>
+          </div>
+        );
+      }
+
+      case 'customRequests': {
+        const customConfig = state.testConfiguration.customRequests;
+        const requestOptions = state.customRequests.map(request => ({ label: request.name, value: request.id }));
+        const tagOptions = Array.from(new Set(state.customRequests.flatMap(request => request.tags || [])))
+          .map(tag => ({ label: tag, value: tag }));
+        const ownLimits = state.customRequests.map(request => request.restConfig.limit).filter((lim): lim is number => !!lim);
+        const limits = Array.from(new Set([10, 25, 50, 100, ...ownLimits])).sort((a, b) => a - b);
+
+        if (state.customRequests.length === 0) {
+          return (
+            <div className="text-sm text-gray-500 p-3">
+              No custom requests yet. Create one below to include it in the benchmark run.
+            </div>
+          );
+        }
+
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label className="font-mono text-sm">Custom Requests</Label>
+              <div className="my-2">
+                <MultiSelect
+                  options={requestOptions}
+                  defaultValue={customConfig.selectedVariants || requestOptions.map(option => option.value)}
+                  onValueChange={vals => updateTestConfig({ selectedVariants: vals })}
+                  placeholder="Select custom requests..."
+                />
+              </div>
+            </div>
+            {tagOptions.length > 0 && (
+              <div>
+                <Label className="font-mono text-sm">Tags</Label>
+                <div className="my-2">
+                  <MultiSelect
+                    options={tagOptions}
+                    defaultValue={customConfig.selectedTags || []}
+                    onValueChange={vals => updateTestConfig({ selectedTags: vals.length > 0 ? vals : undefined })}
+                    placeholder="All tags"
+                  />
+                </div>
+              </div>
+            )}
+            <div>
+              <Label className="font-mono text-sm">Record Limits</Label>
+              <div className="my-2">
+                <MultiSelect
+                  options={limits.map(lim => ({ label: String(lim), value: String(lim) }))}
+                  defaultValue={(customConfig.selectedLimits || []).map(String)}
+                  onValueChange={vals => updateTestConfig({ selectedLimits: vals.length > 0 ? vals.map(Number) : undefined })}
+                  placeholder="Each request's own limit"
+                />
+              </div>
+            </div>
+          </div>
+        );
+      }
+
       default:
         return (
           <div className="text-sm text-gray-500 p-3">
@@ -265,6 +426,44 @@ export function TestCategoryPanel({ title, testKey, isOpen, onToggle, descriptio
             <div className="mt-4">
               {renderParameterControls()}
             </div>
+            <div className="mt-4 pt-4 border-t border-gray-100">
+              <Label className="font-mono text-sm">Measurement</Label>
+              <div className="my-2">
+                <MeasurementSettingsFields
+                  value={testConfig.measurement || defaultMeasurementSettings}
+                  onChange={measurement => updateTestConfig({ measurement: { ...defaultMeasurementSettings, ...measurement } })}
+                />
+              </div>
+              {testKey === 'customRequests' && (
+                <div className="text-xs text-gray-500">Individual requests can override these in the request builder.</div>
+              )}
+            </div>
+            {/* Aggregates have no limit and real-world scenarios keep their own */}
+            {testKey !== 'aggregateTests' && testKey !== 'realWorldScenarios' && (
+              <div className="mt-4 pt-4 border-t border-gray-100">
+                <Label className="font-mono text-sm">{testKey === 'paginationTests' ? 'Page Size Sweep' : 'Limit Sweep'}</Label>
+                <div className="my-2">
+                  <LimitSweepFields
+                    value={'limitSweep' in testConfig ? testConfig.limitSweep : undefined}
+                    onChange={limitSweep => updateTestConfig({ limitSweep })}
+                  />
+                </div>
+              </div>
+            )}
+            {/* Aggregates go through the stats API, which has none of these parameters; traversals page with the defaults */}
+            {testKey !== 'aggregateTests' && testKey !== 'paginationTests' && (
+              <div className="mt-4 pt-4 border-t border-gray-100">
+                <Label className="font-mono text-sm">REST Tuning &amp; Value Shape</Label>
+                <div className="my-2">
+                  <RestTuningFields
+                    value={'restTuning' in testConfig ? testConfig.restTuning : undefined}
+                    onChange={restTuning => updateTestConfig({ restTuning })}
+                    graphqlShape={'graphqlShape' in testConfig ? testConfig.graphqlShape : undefined}
+                    onGraphqlShapeChange={graphqlShape => updateTestConfig({ graphqlShape })}
+                  />
+                </div>
+              </div>
+            )}
           </div>
         </CollapsibleContent>
       </div>
@@ -3,7 +3,7 @@ import { CategoryInfo } from '../../services/testSpecsService';
 import { Card, CardContent } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { Button } from '../ui/button';
-import { ChevronRight, BarChart3, Zap, Smartphone, Target, Rocket } from 'lucide-react';
+import { ChevronRight, BarChart3, Zap, Smartphone, Target, Rocket, Sigma, Layers } from 'lucide-react';
 
 interface CategoryNavigatorProps {
   categories: CategoryInfo[];
@@ -28,6 +28,10 @@ export const CategoryNavigator: React.FC<CategoryNavigatorProps> = ({
         return <Zap className="h-5 w-5" />;
       case 'realWorldScenarios':
         return <Target className="h-5 w-5" />;
+      case 'aggregateTests':
+        return <Sigma className="h-5 w-5" />;
+      case 'paginationTests':
+        return <Layers className="h-5 w-5" />;
       default:
         return null;
     }
@@ -45,6 +49,10 @@ export const CategoryNavigator: React.FC<CategoryNavigatorProps> = ({
         return 'border-l-yellow-500 bg-yellow-50';
       case 'realWorldScenarios':
         return 'border-l-orange-500 bg-orange-50';
+      case 'aggregateTests':
+        return 'border-l-teal-500 bg-teal-50';
+      case 'paginationTests':
+        return 'border-l-indigo-500 bg-indigo-50';
       default:
         return 'border-l-gray-500 bg-gray-50';
     }
@@ -132,16 +132,44 @@ export const ScenarioDetails: React.FC<ScenarioDetailsProps> = ({ spec, onClose,
 
                                             <Separator className="my-4" />
 
-                                            <div>
-                                                <span className="text-sm text-gray-600 mb-2 block">Record Limits:</span>
-                                                <div className="flex gap-2">
-                                                    {spec.recordLimits.map((limit) => (
-                                                        <Badge key={limit} variant="outline">
-                                                            {limit}
-                                                        </Badge>
-                                                    ))}
+                                            {spec.aggregate ? (
+                                                <div>
+                                                    <span className="text-sm text-gray-600 mb-2 block">Aggregates:</span>
+                                                    <div className="flex flex-wrap gap-2">
+                                                        {spec.aggregate.count && <Badge variant="outline">count</Badge>}
+                                                        {spec.aggregate.groupBy?.map((field) => (
+                                                            <Badge key={`groupBy-${field}`} variant="outline">
+                                                                group by {field}
+                                                            </Badge>
+                                                        ))}
+                                                        {(["sum", "avg", "min", "max"] as const).flatMap((fn) =>
+                                                            (spec.aggregate?.[fn] || []).map((field) => (
+                                                                <Badge key={`${fn}-${field}`} variant="outline">
+                                                                    {fn}({field})
+                                                                </Badge>
+                                                            ))
+                                                        )}
+                                                    </div>
                                                 </div>
-                                            </div>
+                                            ) : (
+                                                <div>
+                                                    <span className="text-sm text-gray-600 mb-2 block">
+                                                        {spec.pagination ? "Page Sizes:" : "Record Limits:"}
+                                                    </span>
+                                                    <div className="flex gap-2">
+                                                        {spec.recordLimits.map((limit) => (
+                                                            <Badge key={limit} variant="outline">
+                                                                {limit}
+                                                            </Badge>
+                                                        ))}
+                                                        {spec.pagination?.maxRecords && (
+                                                            <Badge variant="secondary">
+                                                                stops after {spec.pagination.maxRecords} records
+                                                            </Badge>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            )}
 
                                             {spec.filter && (
                                                 <div className="mt-4">
@@ -172,6 +172,21 @@ export const TestSpecsExplorer: React.FC<TestSpecsExplorerProps> = ({ onRunTest,
                                                                 {limit}
                                                             </Badge>
                                                         ))}
+                                                        {spec.aggregate && (
+                                                            <Badge variant="secondary" className="text-xs">
+                                                                aggregate
+                                                            </Badge>
+                                                        )}
+                                                        {spec.pagination && (
+                                                            <Badge variant="secondary" className="text-xs">
+                                                                paginated
+                                                            </Badge>
+                                                        )}
+                                                        {spec.querySweep && (
+                                                            <Badge variant="secondary" className="text-xs">
+                                                                {spec.querySweep.dimension === 'fields' ? 'width' : 'depth'} sweep step {spec.querySweep.step}
+                                                            </Badge>
+                                                        )}
                                                     </div>
 
                                                     <Button
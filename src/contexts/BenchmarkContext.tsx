@@ -1,8 +1,12 @@
 
-import React, { createContext, useContext, useReducer, ReactNode, useEffect } from 'react';
-import { TestResult, TestStatus, PerformanceMetrics, ServiceNowInstance, TestConfiguration, CustomRequest } from '../types';
-import { storeCredentials, retrieveCredentials, clearCredentials } from '../utils/secureStorage';
+import React, { createContext, useContext, useReducer, ReactNode, useEffect, useRef, useCallback } from 'react';
+import { TestResult, TestStatus, PerformanceMetrics, ServiceNowInstance, TestConfiguration, CustomRequest, BenchmarkRun, InstanceProfile, PayloadSizeMetric } from '../types';
+import { storeCredentials, retrieveCredentials, clearCredentials, storeProfiles, retrieveProfiles, storeActiveProfileId, retrieveActiveProfileId } from '../utils/secureStorage';
+import { profileToInstance } from '../utils/instanceProfiles';
 import { loadCustomRequestsFromStorage, saveCustomRequestsToStorage } from '../utils/customRequestStorage';
+import { defaultTestConfiguration } from '../services/testExecutionService';
+import { ExecutionControl } from '../services/executionControl';
+import { runHistoryService } from '../services/runHistoryService';
 
 interface BenchmarkState {
   instance: ServiceNowInstance;
@@ -11,8 +15,19 @@ interface BenchmarkState {
   testStatuses: TestStatus[];
   performanceMetrics: PerformanceMetrics;
   isRunning: boolean;
+  // Pause takes effect between tests: requested first, then paused once the current test is done
+  pauseRequested: boolean;
+  isPaused: boolean;
+  cancelRequested: boolean;
   customRequests: CustomRequest[];
   completionModalDismissed: boolean;
+  // Set while the results on screen were reopened from the run history
+  loadedRun: { id: string; name: string; startedAt: Date } | null;
+  profiles: InstanceProfile[];
+  // Profile the current instance was selected from, if any
+  activeProfileId: string | null;
+  // Size that drives the payload comparison in the scoreboard and the completion modal
+  payloadMetric: PayloadSizeMetric;
 }
 
 type BenchmarkAction =
@@ -21,13 +36,34 @@ type BenchmarkAction =
   | { type: 'ADD_TEST_RESULT'; payload: TestResult }
   | { type: 'UPDATE_TEST_STATUS'; payload: TestStatus }
   | { type: 'SET_RUNNING'; payload: boolean }
+  | { type: 'REQUEST_PAUSE' }
+  | { type: 'SET_PAUSED'; payload: boolean }
+  | { type: 'RESUME_RUN' }
+  | { type: 'CANCEL_RUN' }
   | { type: 'RESET_TESTS' }
   | { type: 'UPDATE_METRICS'; payload: PerformanceMetrics }
   | { type: 'ADD_CUSTOM_REQUEST'; payload: CustomRequest }
   | { type: 'UPDATE_CUSTOM_REQUEST'; payload: CustomRequest }
   | { type: 'DELETE_CUSTOM_REQUEST'; payload: string }
-  | { type: 'SET_COMPLETION_MODAL_DISMISSED'; payload: boolean };
+  | { type: 'SET_COMPLETION_MODAL_DISMISSED'; payload: boolean }
+  | { type: 'LOAD_RUN'; payload: BenchmarkRun }
+  | { type: 'SAVE_PROFILE'; payload: InstanceProfile }
+  | { type: 'DELETE_PROFILE'; payload: string }
+  | { type: 'SELECT_PROFILE'; payload: string }
+  | { type: 'SET_PAYLOAD_METRIC'; payload: PayloadSizeMetric };
 
+const initialPerformanceMetrics: PerformanceMetrics = {
+  restWins: 0,
+  graphqlWins: 0,
+  totalTests: 0,
+  averageRestResponseTime: 0,
+  averageGraphqlResponseTime: 0,
+  totalRestPayloadSize: 0,
+  totalGraphqlPayloadSize: 0,
+  successRate: 0,
+};
+
+// Read when the provider mounts, after the credential vault has been unlocked
 const getInitialState = (): BenchmarkState => {
   const storedCredentials = retrieveCredentials();
   const storedCustomRequests = loadCustomRequestsFromStorage();
@@ -38,79 +74,30 @@ const getInitialState = (): BenchmarkState => {
       password: storedCredentials?.password || '',
       token: storedCredentials?.token || '',
       connected: false,
+      authMode: storedCredentials?.authMode,
+      apiKey: storedCredentials?.apiKey || undefined,
     },
-  testConfiguration: {
-    dotWalkingTests: {
-      enabled: true,
-      parameters: {
-        table: 'incident',
-        recordLimit: 50,
-      },
-      selectedVariants: undefined,
-      selectedLimits: undefined,
-    },
-    multiTableTests: {
-      enabled: false,
-      parameters: {
-        recordLimit: 25,
-      },
-      selectedVariants: undefined,
-      selectedLimits: undefined,
-    },
-    schemaTailoringTests: {
-      enabled: false,
-      parameters: {
-        recordLimit: 100,
-      },
-      selectedVariants: undefined,
-      selectedLimits: undefined,
-    },
-    performanceScaleTests: {
-      enabled: false,
-      parameters: {
-        recordLimit: 500,
-      },
-      selectedVariants: undefined,
-      selectedLimits: undefined,
-    },
-    realWorldScenarios: {
-      enabled: false,
-      parameters: {
-        recordLimit: 5,
-      },
-      selectedVariants: undefined,
-    },
-  },
+  testConfiguration: defaultTestConfiguration,
   testResults: [],
   testStatuses: [],
-  performanceMetrics: {
-    restWins: 0,
-    graphqlWins: 0,
-    totalTests: 0,
-    averageRestResponseTime: 0,
-    averageGraphqlResponseTime: 0,
-    totalRestPayloadSize: 0,
-    totalGraphqlPayloadSize: 0,
-    successRate: 0,
-  },
+  performanceMetrics: initialPerformanceMetrics,
     isRunning: false,
+    pauseRequested: false,
+    isPaused: false,
+    cancelRequested: false,
     customRequests: storedCustomRequests,
     completionModalDismissed: false,
+    loadedRun: null,
+    profiles: retrieveProfiles(),
+    activeProfileId: retrieveActiveProfileId(),
+    payloadMetric: 'json',
   };
 };
 
-const initialState: BenchmarkState = getInitialState();
-
 function benchmarkReducer(state: BenchmarkState, action: BenchmarkAction): BenchmarkState {
   console.log('🔍 BenchmarkContext - Action dispatched:', action.type, action.payload);
   switch (action.type) {
     case 'SET_INSTANCE':
-      // Securely store credentials when instance is updated
-      try {
-        storeCredentials(action.payload);
-      } catch (error) {
-        console.error('Failed to store credentials securely:', error);
-      }
       return { ...state, instance: action.payload };
     case 'UPDATE_TEST_CONFIG':
       return { 
@@ -163,20 +150,28 @@ function benchmarkReducer(state: BenchmarkState, action: BenchmarkAction): Bench
       };
     }
     case 'SET_RUNNING':
-      return { ...state, isRunning: action.payload };
+      return { ...state, isRunning: action.payload, pauseRequested: false, isPaused: false, cancelRequested: false };
+    case 'REQUEST_PAUSE':
+      return state.isRunning ? { ...state, pauseRequested: true } : state;
+    case 'SET_PAUSED':
+      return { ...state, isPaused: action.payload, pauseRequested: action.payload ? state.pauseRequested : false };
+    case 'RESUME_RUN':
+      return { ...state, pauseRequested: false, isPaused: false };
+    case 'CANCEL_RUN':
+      return state.isRunning ? { ...state, cancelRequested: true, pauseRequested: false } : state;
     case 'RESET_TESTS':
       return { 
         ...state, 
         testResults: [], 
         testStatuses: [], 
-        performanceMetrics: initialState.performanceMetrics,
-        completionModalDismissed: false
+        performanceMetrics: initialPerformanceMetrics,
+        completionModalDismissed: false,
+        loadedRun: null
       };
     case 'UPDATE_METRICS':
       return { ...state, performanceMetrics: action.payload };
     case 'ADD_CUSTOM_REQUEST': {
       const newCustomRequests = [...state.customRequests, action.payload];
-      saveCustomRequestsToStorage(newCustomRequests);
       return { 
         ...state, 
         customRequests: newCustomRequests
@@ -186,7 +181,6 @@ function benchmarkReducer(state: BenchmarkState, action: BenchmarkAction): Bench
       const updatedCustomRequests = state.customRequests.map(req => 
         req.id === action.payload.id ? action.payload : req
       );
-      saveCustomRequestsToStorage(updatedCustomRequests);
       return { 
         ...state, 
         customRequests: updatedCustomRequests
@@ -194,7 +188,6 @@ function benchmarkReducer(state: BenchmarkState, action: BenchmarkAction): Bench
     }
     case 'DELETE_CUSTOM_REQUEST': {
       const filteredCustomRequests = state.customRequests.filter(req => req.id !== action.payload);
-      saveCustomRequestsToStorage(filteredCustomRequests);
       return { 
         ...state, 
         customRequests: filteredCustomRequests
@@ -202,6 +195,41 @@ function benchmarkReducer(state: BenchmarkState, action: BenchmarkAction): Bench
     }
     case 'SET_COMPLETION_MODAL_DISMISSED':
       return { ...state, completionModalDismissed: action.payload };
+    case 'SET_PAYLOAD_METRIC':
+      return { ...state, payloadMetric: action.payload };
+    case 'LOAD_RUN':
+      if (state.isRunning) return state;
+      return {
+        ...state,
+        testResults: action.payload.results,
+        testStatuses: action.payload.statuses,
+        performanceMetrics: action.payload.metrics,
+        completionModalDismissed: false,
+        loadedRun: { id: action.payload.id, name: action.payload.name, startedAt: action.payload.startedAt }
+      };
+    case 'SAVE_PROFILE': {
+      const exists = state.profiles.some(profile => profile.id === action.payload.id);
+      const profiles = exists
+        ? state.profiles.map(profile => (profile.id === action.payload.id ? action.payload : profile))
+        : [...state.profiles, action.payload];
+      return { ...state, profiles };
+    }
+    case 'DELETE_PROFILE': {
+      const profiles = state.profiles.filter(profile => profile.id !== action.payload);
+      if (state.activeProfileId !== action.payload) {
+        return { ...state, profiles };
+      }
+      return { ...state, profiles, activeProfileId: null };
+    }
+    case 'SELECT_PROFILE': {
+      const profile = state.profiles.find(p => p.id === action.payload);
+      if (!profile || state.isRunning) {
+        return state;
+      }
+      // Connected once the caller's connection test succeeds
+      const instance = profileToInstance(profile);
+      return { ...state, instance, activeProfileId: profile.id };
+    }
     default:
       return state;
   }
@@ -211,6 +239,45 @@ interface BenchmarkContextType {
   state: BenchmarkState;
   dispatch: React.Dispatch<BenchmarkAction>;
   clearStoredCredentials: () => void;
+  // Control for a new run, to pass to executeTests; pause/resume/cancel act on the latest one
+  createRunControl: () => ExecutionControl;
+  pauseRun: () => void;
+  resumeRun: () => void;
+  cancelRun: () => void;
+}
+
+// Securely store credentials when the instance is updated
+function persistCredentials(instance: ServiceNowInstance): void {
+  try {
+    storeCredentials(instance);
+  } catch (error) {
+    console.error('Failed to store credentials securely:', error);
+  }
+}
+
+// Saved runs keep timings and sizes but not the response payloads, which would grow IndexedDB without bound
+function withoutResponseBodies(statuses: TestStatus[]): TestStatus[] {
+  const strip = <T extends { responseBody?: unknown }>(call?: T) => {
+    if (!call) return call;
+    const { responseBody: _responseBody, ...rest } = call;
+    return rest as T;
+  };
+  return statuses.map(status => ({
+    ...status,
+    restApiCall: strip(status.restApiCall),
+    graphqlApiCall: strip(status.graphqlApiCall),
+    batchApiCall: strip(status.batchApiCall),
+  }));
+}
+
+// Writes a slice of state to storage from an effect, so the reducer stays pure; the initial value came from storage
+function usePersisted<T>(value: T, save: (value: T) => void): void {
+  const savedRef = useRef(value);
+  useEffect(() => {
+    if (savedRef.current === value) return;
+    savedRef.current = value;
+    save(value);
+  }, [value, save]);
 }
 
 // Helper function to safely clear stored credentials
@@ -225,7 +292,71 @@ function clearStoredCredentials(): void {
 const BenchmarkContext = createContext<BenchmarkContextType | undefined>(undefined);
 
 export function BenchmarkProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(benchmarkReducer, initialState);
+  const [state, dispatch] = useReducer(benchmarkReducer, undefined, getInitialState);
+  const runControlRef = useRef<ExecutionControl | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const runStartRef = useRef<{ startedAt: Date; testConfiguration: TestConfiguration; instanceUrl: string } | null>(null);
+
+  usePersisted(state.instance, persistCredentials);
+  usePersisted(state.customRequests, saveCustomRequestsToStorage);
+  usePersisted(state.profiles, storeProfiles);
+  usePersisted(state.activeProfileId, storeActiveProfileId);
+
+  const createRunControl = useCallback(() => {
+    runControlRef.current = new ExecutionControl();
+    return runControlRef.current;
+  }, []);
+
+  const pauseRun = useCallback(() => {
+    runControlRef.current?.pause();
+    dispatch({ type: 'REQUEST_PAUSE' });
+  }, []);
+
+  const resumeRun = useCallback(() => {
+    runControlRef.current?.resume();
+    dispatch({ type: 'RESUME_RUN' });
+  }, []);
+
+  const cancelRun = useCallback(() => {
+    runControlRef.current?.cancel();
+    dispatch({ type: 'CANCEL_RUN' });
+  }, []);
+
+  // Every finished run (completed, failed or cancelled) is saved to the run history
+  useEffect(() => {
+    const current = stateRef.current;
+    if (current.isRunning) {
+      runStartRef.current = runStartRef.current || {
+        startedAt: new Date(),
+        testConfiguration: current.testConfiguration,
+        instanceUrl: current.instance.url,
+      };
+      return;
+    }
+
+    const start = runStartRef.current;
+    runStartRef.current = null;
+    if (!start || current.testStatuses.length === 0 || !runHistoryService.isAvailable) return;
+
+    // Matrix runs cover several instances
+    const matrixUrls = Array.from(new Set(current.testResults.filter(result => result.instance).map(result => result.instance!.url)));
+    const run: BenchmarkRun = {
+      id: crypto.randomUUID(),
+      name: `Run ${start.startedAt.toLocaleString()}`,
+      tags: matrixUrls.length > 0 ? ['matrix'] : [],
+      instanceUrl: matrixUrls.length > 0 ? matrixUrls.join(', ') : start.instanceUrl,
+      appVersion: __APP_VERSION__,
+      startedAt: start.startedAt,
+      finishedAt: new Date(),
+      testConfiguration: start.testConfiguration,
+      results: current.testResults,
+      statuses: withoutResponseBodies(current.testStatuses),
+      metrics: current.performanceMetrics,
+      cancelled: current.testStatuses.some(status => status.status === 'cancelled'),
+    };
+    runHistoryService.saveRun(run).catch(error => console.error('Failed to save run to history:', error));
+  }, [state.isRunning]);
 
   // Clear credentials when component unmounts for security
   useEffect(() => {
@@ -236,7 +367,7 @@ export function BenchmarkProvider({ children }: { children: ReactNode }) {
   }, []);
 
   return (
-    <BenchmarkContext.Provider value={{ state, dispatch, clearStoredCredentials }}>
+    <BenchmarkContext.Provider value={{ state, dispatch, clearStoredCredentials, createRunControl, pauseRun, resumeRun, cancelRun }}>
       {children}
     </BenchmarkContext.Provider>
   );
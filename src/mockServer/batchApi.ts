@@ -0,0 +1,43 @@
+// Batch API (/api/now/v1/batch) for the local ServiceNow stand-in: runs each bundled request and base64 encodes its body
+
+import { performance } from 'node:perf_hooks';
+import { BatchRequestBody, BatchResponseBody } from '../types';
+import { errorResponse } from './tableApi';
+import type { MockResponse } from './server';
+
+// Routes one bundled request the same way the server routes a top-level one
+export type BatchSubRequestHandler = (method: string, url: URL) => MockResponse;
+
+export function handleBatchRequest(payload: unknown, baseUrl: string, handle: BatchSubRequestHandler): MockResponse {
+  const { batch_request_id, rest_requests } = (payload || {}) as Partial<BatchRequestBody>;
+  if (!Array.isArray(rest_requests)) {
+    return errorResponse(400, 'Request body must contain a "rest_requests" array');
+  }
+
+  const response: BatchResponseBody = {
+    batch_request_id: batch_request_id || '',
+    serviced_requests: [],
+    unserviced_requests: [],
+  };
+
+  for (const request of rest_requests) {
+    if (!request || typeof request.id !== 'string' || typeof request.url !== 'string') {
+      continue;
+    }
+
+    const start = performance.now();
+    const result = handle((request.method || 'GET').toUpperCase(), new URL(request.url, baseUrl));
+    const headers = { 'Content-Type': 'application/json', ...result.headers };
+
+    response.serviced_requests.push({
+      id: request.id,
+      status_code: result.status,
+      status_text: result.status < 300 ? 'OK' : 'Error',
+      headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+      body: Buffer.from(JSON.stringify(result.body), 'utf8').toString('base64'),
+      execution_time: Math.round(performance.now() - start),
+    });
+  }
+
+  return { status: 200, body: response };
+}
@@ -0,0 +1,193 @@
+// Field resolution (including dot-walking) and encoded query evaluation for the local ServiceNow stand-in
+
+import { MockDatabase, MockRecord, formatGlideDateTime } from './mockDatabase';
+import { MockFieldDefinition, getMockTableFields, mockTables } from './schema';
+
+export interface ResolvedField {
+  value: string;
+  displayValue: string;
+  definition: MockFieldDefinition;
+  // Referenced record for non-empty reference fields
+  target?: MockRecord;
+}
+
+export interface QueryContext {
+  // sys_id returned by javascript:gs.getUserID()
+  userSysId: string;
+}
+
+export function getDisplayValue(db: MockDatabase, definition: MockFieldDefinition, value: string): string {
+  if (!value) return '';
+
+  if (definition.type === 'reference') {
+    const target = db.get(value);
+    return target ? target[mockTables[target.sys_class_name].displayField] || '' : '';
+  }
+
+  if (definition.type === 'choice') {
+    return definition.choices?.[value] ?? value;
+  }
+
+  return value;
+}
+
+// Resolve "field" or "reference.field.other" against a record; undefined when the field does not exist
+export function resolveField(db: MockDatabase, record: MockRecord | undefined, path: string): ResolvedField | undefined {
+  const [name, ...rest] = path.split('.');
+  const table = record?.sys_class_name;
+  const definition = table ? getMockTableFields(table)[name] : undefined;
+  if (!definition) return undefined;
+
+  const value = record[name] ?? '';
+  const target = definition.type === 'reference' && value ? db.get(value) : undefined;
+
+  if (rest.length > 0) {
+    if (definition.type !== 'reference') return undefined;
+    if (!target) {
+      return { value: '', displayValue: '', definition: { type: 'string' } };
+    }
+    return resolveField(db, target, rest.join('.'));
+  }
+
+  return { value, displayValue: getDisplayValue(db, definition, value), definition, target };
+}
+
+type Operator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'LIKE' | 'NOT LIKE' | 'STARTSWITH' | 'ENDSWITH' | 'IN' | 'NOT IN' | 'ISEMPTY' | 'ISNOTEMPTY';
+
+interface Condition {
+  field: string;
+  operator: Operator;
+  value: string;
+}
+
+interface OrderBy {
+  field: string;
+  descending: boolean;
+}
+
+export interface ParsedQuery {
+  // Groups separated by ^NQ; each group is an AND of OR-alternatives
+  groups: Condition[][][];
+  orderBy: OrderBy[];
+}
+
+const CONDITION_PATTERN = /^([A-Za-z0-9_.]+?)(ISNOTEMPTY|ISEMPTY|NOT LIKE|LIKE|STARTSWITH|ENDSWITH|NOT IN|IN|!=|>=|<=|=|>|<)(.*)$/;
+
+export function parseEncodedQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { groups: [], orderBy: [] };
+
+  for (const groupText of query.split('^NQ')) {
+    const group: Condition[][] = [];
+
+    for (const term of groupText.split('^')) {
+      if (!term || term === 'EQ') continue;
+
+      if (term.startsWith('ORDERBYDESC')) {
+        parsed.orderBy.push({ field: term.slice('ORDERBYDESC'.length), descending: true });
+        continue;
+      }
+      if (term.startsWith('ORDERBY')) {
+        parsed.orderBy.push({ field: term.slice('ORDERBY'.length), descending: false });
+        continue;
+      }
+
+      const isAlternative = term.startsWith('OR') && group.length > 0;
+      const match = CONDITION_PATTERN.exec(isAlternative ? term.slice(2) : term);
+      if (!match) continue;
+
+      const condition: Condition = { field: match[1], operator: match[2] as Operator, value: match[3] };
+      if (isAlternative) {
+        group[group.length - 1].push(condition);
+      } else {
+        group.push([condition]);
+      }
+    }
+
+    if (group.length > 0) {
+      parsed.groups.push(group);
+    }
+  }
+
+  return parsed;
+}
+
+// Evaluate the javascript: values the test specs use; undefined when unsupported (condition is then ignored)
+function resolveQueryValue(value: string, context: QueryContext): string | undefined {
+  if (!value.startsWith('javascript:')) return value;
+
+  const script = value.slice('javascript:'.length).replace(/\s+/g, '');
+  const now = new Date();
+
+  switch (script) {
+    case 'gs.getUserID()':
+      return context.userSysId;
+    case 'gs.beginningOfToday()':
+      return formatGlideDateTime(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    case 'gs.beginningOfMonth()':
+      return formatGlideDateTime(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    case 'gs.beginningOfYear()':
+      return formatGlideDateTime(Date.UTC(now.getUTCFullYear(), 0, 1));
+    default:
+      return undefined;
+  }
+}
+
+function compareValues(left: string, right: string): number {
+  const leftNumber = Number(left);
+  const rightNumber = Number(right);
+  if (left !== '' && right !== '' && !isNaN(leftNumber) && !isNaN(rightNumber)) {
+    return leftNumber - rightNumber;
+  }
+  return left.localeCompare(right);
+}
+
+function matchesCondition(db: MockDatabase, record: MockRecord, condition: Condition, context: QueryContext): boolean {
+  const expected = resolveQueryValue(condition.value, context);
+  if (expected === undefined) return true;
+
+  const actual = resolveField(db, record, condition.field)?.value ?? '';
+  const list = expected.split(',');
+
+  switch (condition.operator) {
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+    case '>': return compareValues(actual, expected) > 0;
+    case '>=': return compareValues(actual, expected) >= 0;
+    case '<': return compareValues(actual, expected) < 0;
+    case '<=': return compareValues(actual, expected) <= 0;
+    case 'LIKE': return actual.toLowerCase().includes(expected.toLowerCase());
+    case 'NOT LIKE': return !actual.toLowerCase().includes(expected.toLowerCase());
+    case 'STARTSWITH': return actual.toLowerCase().startsWith(expected.toLowerCase());
+    case 'ENDSWITH': return actual.toLowerCase().endsWith(expected.toLowerCase());
+    case 'IN': return list.includes(actual);
+    case 'NOT IN': return !list.includes(actual);
+    case 'ISEMPTY': return actual === '';
+    case 'ISNOTEMPTY': return actual !== '';
+  }
+}
+
+// Filter and sort the table's records the way sysparm_query / queryConditions would
+export function runEncodedQuery(db: MockDatabase, table: string, query: string | undefined, context: QueryContext): MockRecord[] {
+  const parsed = parseEncodedQuery(query || '');
+  let records = db.query(table);
+
+  if (parsed.groups.length > 0) {
+    records = records.filter(record =>
+      parsed.groups.some(group =>
+        group.every(alternatives => alternatives.some(condition => matchesCondition(db, record, condition, context)))
+      )
+    );
+  }
+
+  if (parsed.orderBy.length > 0) {
+    records = [...records].sort((a, b) => {
+      for (const { field, descending } of parsed.orderBy) {
+        const difference = compareValues(resolveField(db, a, field)?.value ?? '', resolveField(db, b, field)?.value ?? '');
+        if (difference !== 0) return descending ? -difference : difference;
+      }
+      return 0;
+    });
+  }
+
+  return records;
+}
@@ -0,0 +1,294 @@
+// GraphQL API (/api/now/graphql) for the local ServiceNow stand-in: the GlideRecord_Query subset the app emits
+
+import { MockDatabase, MockRecord } from './mockDatabase';
+import { QueryContext, getDisplayValue, resolveField, runEncodedQuery } from './encodedQuery';
+import { computeAggregates } from './statsApi';
+import { AggregateFunction, AggregateSpec } from '../types';
+import type { MockResponse } from './server';
+
+type ArgumentValue = string | number | boolean | null | ArgumentValue[] | { [key: string]: ArgumentValue };
+
+interface Selection {
+  // Key in the response (alias when given)
+  key: string;
+  name: string;
+  args: Record<string, ArgumentValue>;
+  selections: Selection[];
+}
+
+interface GraphQLError {
+  message: string;
+}
+
+class GraphQLSyntaxError extends Error {}
+
+const TOKEN_PATTERN = /\s+|,|#[^\n]*|("(?:[^"\\]|\\.)*")|(-?\d+(?:\.\d+)?)|([_A-Za-z][_0-9A-Za-z]*)|(\$[_A-Za-z][_0-9A-Za-z]*)|([{}():[\]!=])/y;
+
+function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      throw new GraphQLSyntaxError(`Syntax Error: Unexpected character "${source[start]}" at position ${start}`);
+    }
+    const token = match[1] || match[2] || match[3] || match[4] || match[5];
+    if (token) tokens.push(token);
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: string[], private variables: Record<string, ArgumentValue>) {}
+
+  parseDocument(): Selection[] {
+    // Optional "query Name($var: Type)" header
+    if (this.peek() === 'query') {
+      this.next();
+      if (this.peek() !== '{' && this.peek() !== '(') this.next();
+      if (this.peek() === '(') this.skipBalanced('(', ')');
+    }
+    const selections = this.parseSelectionSet();
+    if (this.position < this.tokens.length) {
+      throw new GraphQLSyntaxError(`Syntax Error: Unexpected "${this.peek()}"`);
+    }
+    return selections;
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): string {
+    const token = this.tokens[this.position++];
+    if (token === undefined) throw new GraphQLSyntaxError('Syntax Error: Unexpected end of query');
+    return token;
+  }
+
+  private expect(token: string) {
+    const actual = this.next();
+    if (actual !== token) throw new GraphQLSyntaxError(`Syntax Error: Expected "${token}", found "${actual}"`);
+  }
+
+  private skipBalanced(open: string, close: string) {
+    let depth = 0;
+    do {
+      const token = this.next();
+      if (token === open) depth++;
+      if (token === close) depth--;
+    } while (depth > 0);
+  }
+
+  private parseSelectionSet(): Selection[] {
+    this.expect('{');
+    const selections: Selection[] = [];
+    while (this.peek() !== '}') {
+      selections.push(this.parseSelection());
+    }
+    this.expect('}');
+    return selections;
+  }
+
+  private parseSelection(): Selection {
+    const key = this.next();
+    let name = key;
+    if (this.peek() === ':') {
+      this.next();
+      name = this.next();
+    }
+
+    const args: Record<string, ArgumentValue> = {};
+    if (this.peek() === '(') {
+      this.next();
+      while (this.peek() !== ')') {
+        const argName = this.next();
+        this.expect(':');
+        args[argName] = this.parseValue();
+      }
+      this.expect(')');
+    }
+
+    const selections = this.peek() === '{' ? this.parseSelectionSet() : [];
+    return { key, name, args, selections };
+  }
+
+  private parseValue(): ArgumentValue {
+    const token = this.next();
+
+    if (token.startsWith('"')) return JSON.parse(token);
+    if (token.startsWith('$')) return this.variables[token.slice(1)] ?? null;
+    if (/^-?\d/.test(token)) return Number(token);
+    if (token === 'true' || token === 'false') return token === 'true';
+    if (token === 'null') return null;
+
+    if (token === '[') {
+      const list: ArgumentValue[] = [];
+      while (this.peek() !== ']') list.push(this.parseValue());
+      this.expect(']');
+      return list;
+    }
+
+    if (token === '{') {
+      const object: Record<string, ArgumentValue> = {};
+      while (this.peek() !== '}') {
+        const fieldName = this.next();
+        this.expect(':');
+        object[fieldName] = this.parseValue();
+      }
+      this.expect('}');
+      return object;
+    }
+
+    // Enum value
+    return token;
+  }
+}
+
+// Resolve a record's requested fields: each field selects value, displayValue and/or _reference
+function formatGraphQLRecord(db: MockDatabase, record: MockRecord, selections: Selection[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const selection of selections) {
+    if (selection.name === '__typename') {
+      result[selection.key] = `${record.sys_class_name}_GlideRecord`;
+      continue;
+    }
+
+    const field = resolveField(db, record, selection.name);
+    const formatted: Record<string, unknown> = {};
+
+    for (const part of selection.selections) {
+      switch (part.name) {
+        case 'value':
+          formatted[part.key] = field ? field.value : null;
+          break;
+        case 'displayValue':
+          formatted[part.key] = field ? getDisplayValue(db, field.definition, field.value) : null;
+          break;
+        case '_reference':
+          formatted[part.key] = field?.target ? formatGraphQLRecord(db, field.target, part.selections) : null;
+          break;
+        default:
+          formatted[part.key] = null;
+      }
+    }
+
+    result[selection.key] = formatted;
+  }
+
+  return result;
+}
+
+const isAggregateFunction = (name: string): name is AggregateFunction => ['sum', 'avg', 'min', 'max'].includes(name);
+
+// _aggregate(groupBy: [...]) { groupBy { field { value displayValue } } count sum { field { value } } ... }, one entry per group
+function executeAggregate(db: MockDatabase, records: MockRecord[], selection: Selection): unknown[] {
+  const groupBy = Array.isArray(selection.args.groupBy) ? selection.args.groupBy.filter((field): field is string => typeof field === 'string') : [];
+  const spec: AggregateSpec = { groupBy, count: true };
+  for (const part of selection.selections) {
+    if (isAggregateFunction(part.name)) {
+      spec[part.name] = part.selections.map(field => field.name);
+    }
+  }
+
+  return computeAggregates(db, records, spec).map(group => {
+    const result: Record<string, unknown> = {};
+    for (const part of selection.selections) {
+      if (part.name === 'count') {
+        result[part.key] = group.count;
+      } else if (part.name === 'groupBy') {
+        result[part.key] = Object.fromEntries(part.selections.map(field => {
+          const resolved = group.groupBy.find(entry => entry.field === field.name)?.resolved;
+          return [field.key, Object.fromEntries(field.selections.map(leaf => [
+            leaf.key,
+            leaf.name === 'displayValue' ? resolved?.displayValue ?? null : resolved?.value ?? null,
+          ]))];
+        }));
+      } else if (isAggregateFunction(part.name)) {
+        const values = group.values[part.name];
+        result[part.key] = Object.fromEntries(part.selections.map(field => [
+          field.key,
+          Object.fromEntries(field.selections.map(leaf => [leaf.key, values[field.name] || null])),
+        ]));
+      } else {
+        result[part.key] = null;
+      }
+    }
+    return result;
+  });
+}
+
+function executeTableQuery(db: MockDatabase, selection: Selection, context: QueryContext, errors: GraphQLError[]): unknown {
+  const table = selection.name;
+  if (!db.hasTable(table)) {
+    errors.push({ message: `Table '${table}' is not available through GlideRecord_Query` });
+    return null;
+  }
+
+  const queryConditions = typeof selection.args.queryConditions === 'string' ? selection.args.queryConditions : undefined;
+  const pagination = (selection.args.pagination || {}) as Record<string, ArgumentValue>;
+  const offset = typeof pagination.offset === 'number' ? pagination.offset : 0;
+  const limit = typeof pagination.limit === 'number' ? pagination.limit : undefined;
+
+  const records = runEncodedQuery(db, table, queryConditions, context);
+  const page = records.slice(offset, limit !== undefined ? offset + limit : undefined);
+  const result: Record<string, unknown> = {};
+
+  for (const part of selection.selections) {
+    switch (part.name) {
+      case '_results':
+        result[part.key] = page.map(record => formatGraphQLRecord(db, record, part.selections));
+        break;
+      case '_rowCount':
+        result[part.key] = records.length;
+        break;
+      case '_aggregate':
+        result[part.key] = executeAggregate(db, records, part);
+        break;
+      default:
+        errors.push({ message: `Field '${part.name}' is not defined on '${table}'` });
+    }
+  }
+
+  return result;
+}
+
+export function handleGraphQLRequest(db: MockDatabase, payload: unknown, context: QueryContext): MockResponse {
+  const { query, variables } = (payload || {}) as { query?: unknown; variables?: Record<string, ArgumentValue> };
+  if (typeof query !== 'string') {
+    return { status: 400, body: { errors: [{ message: 'Request body must contain a "query" string' }] } };
+  }
+
+  let document: Selection[];
+  try {
+    document = new Parser(tokenize(query), variables || {}).parseDocument();
+  } catch (error) {
+    if (error instanceof GraphQLSyntaxError) {
+      return { status: 400, body: { errors: [{ message: error.message }] } };
+    }
+    throw error;
+  }
+
+  const errors: GraphQLError[] = [];
+  const data: Record<string, unknown> = {};
+
+  for (const root of document) {
+    if (root.name !== 'GlideRecord_Query') {
+      errors.push({ message: `Field '${root.name}' is not supported by the mock server` });
+      continue;
+    }
+
+    const tables: Record<string, unknown> = {};
+    for (const selection of root.selections) {
+      tables[selection.key] = executeTableQuery(db, selection, context, errors);
+    }
+    data[root.key] = tables;
+  }
+
+  return { status: 200, body: errors.length > 0 ? { data, errors } : { data } };
+}
@@ -0,0 +1,70 @@
+// Entry point of the local ServiceNow stand-in: npm run mock-server -- [options]
+
+import { parseArgs } from 'node:util';
+import { seedMockDatabase } from './mockDatabase';
+import { createMockServer } from './server';
+
+const USAGE = `Usage: npm run mock-server -- [options]
+
+  --port <port>         Port to listen on (default: 8090)
+  --host <host>         Interface to bind (default: 127.0.0.1)
+  --seed <number>       Seed for the generated data (default: 42)
+  --incidents <count>   Number of incidents to generate (default: 500)
+  --username <name>     Basic auth user name (default: admin)
+  --password <secret>   Basic auth password (default: admin)
+  --api-key <key>       Key accepted in the x-sn-apikey header (default: mock-api-key)
+  --latency <ms>        Delay added to every API response (default: 0)
+  --client-id <id>      OAuth client id for /oauth_token.do (default: mock-client)
+  --client-secret <s>   OAuth client secret (default: mock-secret)
+  --token-lifetime <s>  OAuth access token lifetime in seconds (default: 1800)
+  --static <dir>        Serve a built app from this directory (e.g. dist)
+  --quiet               Do not log requests
+  --help                Show this message
+`;
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8090' },
+    host: { type: 'string', default: '127.0.0.1' },
+    seed: { type: 'string', default: '42' },
+    incidents: { type: 'string', default: '500' },
+    username: { type: 'string', default: 'admin' },
+    password: { type: 'string', default: 'admin' },
+    'api-key': { type: 'string', default: 'mock-api-key' },
+    latency: { type: 'string', default: '0' },
+    'client-id': { type: 'string', default: 'mock-client' },
+    'client-secret': { type: 'string', default: 'mock-secret' },
+    'token-lifetime': { type: 'string', default: '1800' },
+    static: { type: 'string' },
+    quiet: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+if (values.help) {
+  process.stdout.write(USAGE);
+  process.exit(0);
+}
+
+const db = seedMockDatabase({ seed: Number(values.seed), incidents: Number(values.incidents) });
+const server = createMockServer({
+  db,
+  username: values.username,
+  password: values.password,
+  apiKey: values['api-key'],
+  latency: Number(values.latency),
+  oauthClientId: values['client-id'],
+  oauthClientSecret: values['client-secret'],
+  oauthTokenLifetime: Number(values['token-lifetime']),
+  staticDir: values.static,
+  log: values.quiet ? undefined : message => process.stdout.write(`${message}\n`),
+});
+
+server.listen(Number(values.port), values.host, () => {
+  const tables = ['incident', 'problem', 'change_request', 'task', 'sc_request', 'sc_req_item', 'kb_knowledge', 'sys_user', 'cmdb_ci'];
+  process.stdout.write(`Mock ServiceNow instance listening on http://${values.host}:${values.port}\n`);
+  process.stdout.write(`Records: ${tables.map(table => `${table}=${db.count(table)}`).join(', ')}\n`);
+  process.stdout.write(`Basic auth: ${values.username} / ${'*'.repeat(values.password.length)}\n`);
+  process.stdout.write(`API key: ${'*'.repeat(values['api-key'].length)}\n`);
+  process.stdout.write(`OAuth client: ${values['client-id']} (tokens valid ${values['token-lifetime']}s)\n`);
+});
@@ -0,0 +1,398 @@
+// In-memory record store for the local ServiceNow stand-in, seeded with reproducible generated data
+
+import { getMockTableHierarchy, impactChoices, mockTables, priorityChoices } from './schema';
+
+// Raw field values as ServiceNow stores them: references hold the target sys_id
+export type MockRecord = Record<string, string>;
+
+export interface SeedOptions {
+  seed: number;
+  incidents: number;
+}
+
+export class MockDatabase {
+  private records = new Map<string, MockRecord[]>();
+  private bySysId = new Map<string, MockRecord>();
+
+  insert(table: string, values: MockRecord): MockRecord {
+    const record: MockRecord = { ...values, sys_class_name: table };
+    if (!this.records.has(table)) {
+      this.records.set(table, []);
+    }
+    this.records.get(table)!.push(record);
+    this.bySysId.set(record.sys_id, record);
+    return record;
+  }
+
+  get(sysId: string): MockRecord | undefined {
+    return this.bySysId.get(sysId);
+  }
+
+  // Records of the table and of every table extending it
+  query(table: string): MockRecord[] {
+    return getMockTableHierarchy(table).flatMap(name => this.records.get(name) || []);
+  }
+
+  hasTable(table: string): boolean {
+    return table in mockTables;
+  }
+
+  count(table: string): number {
+    return this.query(table).length;
+  }
+}
+
+// Small deterministic PRNG (mulberry32) so every run serves the same data for a given seed
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: T[]): T => items[Math.floor(next() * items.length)],
+    chance: (probability: number) => next() < probability,
+    sysId: () => Array.from({ length: 32 }, () => Math.floor(next() * 16).toString(16)).join(''),
+  };
+}
+
+const BASE_DATE = Date.UTC(2025, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+export function formatGlideDateTime(time: number): string {
+  return new Date(time).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+const firstNames = ['Abel', 'Beth', 'Carla', 'David', 'Elena', 'Fred', 'Grace', 'Hugo', 'Irene', 'Jamal', 'Kara', 'Luis', 'Maya', 'Nils', 'Olga', 'Pavel', 'Quinn', 'Rita', 'Sam', 'Tara'];
+const lastNames = ['Tuter', 'Anglin', 'Luie', 'Loo', 'Mendez', 'Luddy', 'Chen', 'Ortiz', 'Novak', 'Patel', 'Rossi', 'Schmidt', 'Tanaka', 'Walsh', 'Young'];
+const departments = ['IT', 'Finance', 'Human Resources', 'Sales', 'Customer Support', 'Product Management', 'Development', 'Operations'];
+const groups = ['Service Desk', 'Network', 'Database', 'Hardware', 'Software', 'Application Development', 'Change Management', 'Problem Solving', 'IT Securities', 'Capacity Management', 'CAB Approval', 'Openspace'];
+const cities = [['San Diego', 'USA'], ['London', 'UK'], ['Paris', 'France'], ['Berlin', 'Germany'], ['Tokyo', 'Japan'], ['Sydney', 'Australia'], ['Toronto', 'Canada'], ['Madrid', 'Spain'], ['Amsterdam', 'Netherlands'], ['Singapore', 'Singapore']];
+const ciNames = ['app-server', 'db-server', 'mail-server', 'web-frontend', 'file-share', 'printer', 'router', 'laptop', 'payroll-host', 'vpn-gateway'];
+const services = ['Email', 'SAP Financial Accounting', 'Electronic Messaging', 'IT Services', 'Bond Trading', 'Retail Adding Points', 'Blackberry', 'Client Services', 'Employee Payroll', 'Customer Portal'];
+const problems = ['Email server is slow', 'Unable to connect to VPN', 'Printer queue stuck', 'Laptop does not boot', 'Payroll job failed overnight', 'Website returns errors', 'Password reset not working', 'Database backups failing', 'Network drive unavailable', 'SSO login loop'];
+const roles = ['admin', 'itil', 'catalog_admin', 'knowledge', 'asset', 'approver_user', 'report_user'];
+const vendors = ['Dell', 'Apple', 'Lenovo', 'Cisco', 'Microsoft', 'HP'];
+const models = ['Latitude 7440', 'MacBook Pro 14', 'ThinkPad X1', 'Catalyst 9300', 'Surface Laptop 5', 'EliteDisplay E24'];
+const relationshipTypes: Array<[string, string]> = [['Depends on', 'Used by'], ['Runs on', 'Runs'], ['Hosted on', 'Hosts']];
+const catalog: Array<[string, string[]]> = [
+  ['Hardware', ['Standard Laptop', 'Monitor', 'Docking Station']],
+  ['Software', ['Office Suite', 'Adobe Acrobat', 'Visual Studio']],
+  ['HR', ['New Hire Onboarding', 'Badge Replacement']],
+  ['Access', ['VPN Access', 'Shared Mailbox']],
+];
+const knowledgeCategories = ['Email', 'Network', 'Hardware', 'Accounts', 'Software'];
+const incidentCategories: Array<[string, string[]]> = [
+  ['inquiry', ['antivirus', 'email', 'internal application']],
+  ['software', ['email', 'operating system']],
+  ['hardware', ['cpu', 'disk', 'keyboard', 'memory', 'monitor', 'mouse']],
+  ['network', ['dhcp', 'dns', 'ip address', 'vpn', 'wireless']],
+  ['database', ['db2', 'ms sql server', 'oracle']],
+];
+
+export function seedMockDatabase({ seed, incidents }: SeedOptions): MockDatabase {
+  const db = new MockDatabase();
+  const random = createRandom(seed);
+  const ids = (table: string) => db.query(table).map(record => record.sys_id);
+  const daysAgo = (maxDays: number) => BASE_DATE - random.int(0, maxDays * 24 * 60) * 60 * 1000;
+  const system = (created: number): MockRecord => ({
+    sys_id: random.sysId(),
+    sys_created_on: formatGlideDateTime(created),
+    sys_created_by: 'admin',
+    sys_updated_on: formatGlideDateTime(created + random.int(0, 30) * DAY),
+    sys_updated_by: 'admin',
+    sys_mod_count: String(random.int(0, 12)),
+  });
+
+  for (const [city, country] of cities) {
+    db.insert('cmn_location', { ...system(daysAgo(2000)), name: `${city} Office`, street: `${random.int(1, 999)} Main Street`, city, country });
+  }
+  const locations = ids('cmn_location');
+
+  // Users first: departments and managers are filled in once everything exists
+  const users = [db.insert('sys_user', {
+    ...system(daysAgo(2000)), user_name: 'admin', first_name: 'System', last_name: 'Administrator', name: 'System Administrator',
+    email: 'admin@example.com', phone: '', title: 'Administrator', active: 'true', vip: 'false', department: '', manager: '', location: locations[0],
+  })];
+  for (let i = 1; i < 100; i++) {
+    const first = random.pick(firstNames);
+    const last = random.pick(lastNames);
+    users.push(db.insert('sys_user', {
+      ...system(daysAgo(2000)),
+      user_name: `${first}.${last}${i}`.toLowerCase(),
+      first_name: first,
+      last_name: last,
+      name: `${first} ${last}`,
+      email: `${first}.${last}${i}@example.com`.toLowerCase(),
+      phone: `+1 555 ${String(random.int(0, 9999)).padStart(4, '0')}`,
+      title: random.pick(['Engineer', 'Analyst', 'Manager', 'Director', 'Technician', 'Consultant']),
+      active: random.chance(0.9) ? 'true' : 'false',
+      vip: random.chance(0.05) ? 'true' : 'false',
+      department: '',
+      manager: '',
+      location: random.pick(locations),
+    }));
+  }
+  const userIds = users.map(user => user.sys_id);
+
+  departments.forEach((name, i) => {
+    db.insert('cmn_department', { ...system(daysAgo(2000)), name, id: `DEP${String(i + 1).padStart(3, '0')}`, description: `${name} department`, dept_head: random.pick(userIds) });
+  });
+  const departmentIds = ids('cmn_department');
+  for (const user of users) {
+    user.department = random.pick(departmentIds);
+    user.manager = user.user_name === 'admin' ? '' : random.pick(userIds.slice(0, 20));
+  }
+
+  for (const name of groups) {
+    db.insert('sys_user_group', { ...system(daysAgo(2000)), name, description: `${name} group`, email: `${name.replace(/\s+/g, '.').toLowerCase()}@example.com`, active: 'true', manager: random.pick(userIds) });
+  }
+  const groupIds = ids('sys_user_group');
+
+  const configurationItem = (name: string): MockRecord => ({
+    ...system(daysAgo(1500)),
+    name,
+    asset_tag: `P${random.int(1000000, 9999999)}`,
+    serial_number: random.sysId().slice(0, 12).toUpperCase(),
+    category: random.pick(['Hardware', 'Software', 'Network', 'Resource']),
+    operational_status: random.pick(['1', '1', '1', '2', '3', '6']),
+    install_status: random.pick(['1', '1', '3', '6', '7']),
+    owned_by: random.pick(userIds),
+    assigned_to: random.pick(userIds),
+    support_group: random.pick(groupIds),
+    location: random.pick(locations),
+  });
+  for (let i = 0; i < 150; i++) {
+    db.insert('cmdb_ci', configurationItem(`${random.pick(ciNames)}-${String(i + 1).padStart(3, '0')}`));
+  }
+  for (const name of services) {
+    db.insert('cmdb_ci_service', { ...configurationItem(name), busines_criticality: random.pick(['1', '2', '3']) });
+  }
+  const ciIds = ids('cmdb_ci');
+  const serviceIds = ids('cmdb_ci_service');
+
+  const taskFields = (prefix: string, index: number, open: boolean): MockRecord => {
+    const opened = daysAgo(365);
+    const priority = random.pick(Object.keys(priorityChoices));
+    return {
+      ...system(opened),
+      number: `${prefix}${String(index).padStart(7, '0')}`,
+      short_description: random.pick(problems),
+      description: `${random.pick(problems)}. Reported by the user, needs investigation.`,
+      priority,
+      impact: random.pick(Object.keys(impactChoices)),
+      urgency: random.pick(Object.keys(impactChoices)),
+      active: open ? 'true' : 'false',
+      opened_at: formatGlideDateTime(opened),
+      opened_by: random.pick(userIds),
+      closed_at: open ? '' : formatGlideDateTime(opened + random.int(1, 20) * DAY),
+      assigned_to: random.chance(0.8) ? random.pick(userIds) : '',
+      assignment_group: random.pick(groupIds),
+      cmdb_ci: random.chance(0.85) ? random.pick(ciIds) : '',
+      business_service: random.chance(0.6) ? random.pick(serviceIds) : '',
+      location: random.pick(locations),
+      work_notes: '',
+      close_notes: open ? '' : 'Resolved by the assignment group',
+    };
+  };
+
+  // Counters come from their own stream so adding them did not change the rest of the seeded data
+  const counters = createRandom(seed + 1);
+  for (let i = 1; i <= incidents; i++) {
+    const open = random.chance(0.6);
+    const [category, subcategories] = random.pick(incidentCategories);
+    const record = taskFields('INC', 10000 + i, open);
+    db.insert('incident', {
+      ...record,
+      state: open ? random.pick(['1', '2', '3']) : random.pick(['6', '7', '8']),
+      caller_id: random.pick(userIds),
+      category,
+      subcategory: random.pick(subcategories),
+      resolved_at: open ? '' : record.closed_at,
+      resolved_by: open ? '' : random.pick(userIds),
+      close_code: open ? '' : random.pick(['Solved (Permanently)', 'Solved (Work Around)', 'Not Solved (Too Costly)']),
+      reassignment_count: String(counters.int(0, 4)),
+      reopen_count: String(counters.chance(0.15) ? counters.int(1, 2) : 0),
+    });
+  }
+
+  const relatedCount = Math.max(10, Math.round(incidents / 5));
+  for (let i = 1; i <= relatedCount; i++) {
+    const open = random.chance(0.5);
+    db.insert('problem', {
+      ...taskFields('PRB', 40000 + i, open),
+      state: open ? random.pick(['101', '102', '103', '104']) : random.pick(['106', '107']),
+      known_error: random.chance(0.3) ? 'true' : 'false',
+      cause_notes: '',
+      fix_notes: '',
+    });
+
+    const start = daysAgo(180);
+    db.insert('change_request', {
+      ...taskFields('CHG', 30000 + i, open),
+      state: open ? random.pick(['-5', '-4', '-3', '-2', '-1']) : random.pick(['0', '3', '4']),
+      type: random.pick(['normal', 'standard', 'emergency']),
+      risk: random.pick(['2', '3', '4']),
+      requested_by: random.pick(userIds),
+      start_date: formatGlideDateTime(start),
+      end_date: formatGlideDateTime(start + random.int(1, 48) * 60 * 60 * 1000),
+    });
+
+    db.insert('task', { ...taskFields('TASK', 20000 + i, open), state: open ? random.pick(['-5', '1', '2']) : random.pick(['3', '4']) });
+  }
+
+  // Tables the catalog, knowledge, asset and approval scenarios query; seeded last so the records above stay the same
+  const changeIds = ids('change_request');
+  const taskRecordState = (open: boolean) => (open ? random.pick(['1', '2']) : random.pick(['3', '4']));
+
+  roles.forEach(name => db.insert('sys_user_role', { ...system(daysAgo(2000)), name, description: `${name} role` }));
+  const roleIds = ids('sys_user_role');
+  for (const userId of userIds) {
+    db.insert('sys_user_grmember', { ...system(daysAgo(1000)), user: userId, group: random.pick(groupIds) });
+    for (const role of new Set([random.pick(roleIds), random.pick(roleIds)])) {
+      db.insert('sys_user_has_role', { ...system(daysAgo(1000)), user: userId, role, granted_by: random.chance(0.5) ? random.pick(groupIds) : '', inherited: 'false' });
+    }
+  }
+
+  for (let i = 1; i <= relatedCount; i++) {
+    const open = random.chance(0.5);
+    db.insert('change_task', { ...taskFields('CTASK', 50000 + i, open), state: taskRecordState(open), change_request: random.pick(changeIds) });
+  }
+  const approvable = [...changeIds, ...ids('change_task')];
+  for (let i = 0; i < relatedCount; i++) {
+    db.insert('sysapproval_approver', {
+      ...system(daysAgo(180)),
+      approver: random.pick(userIds),
+      state: random.pick(['requested', 'approved', 'approved', 'rejected', 'not_required']),
+      sysapproval: random.pick(approvable),
+      comments: '',
+    });
+  }
+
+  vendors.forEach(name => db.insert('core_company', { ...system(daysAgo(2000)), name, vendor: 'true', manufacturer: 'true', website: `https://www.${name.toLowerCase().replace(/\s+/g, '')}.com` }));
+  const vendorIds = ids('core_company');
+  for (const name of models) {
+    db.insert('cmdb_model', { ...system(daysAgo(2000)), name, manufacturer: random.pick(vendorIds) });
+  }
+  const modelIds = ids('cmdb_model');
+  for (const [parent, child] of relationshipTypes) {
+    db.insert('cmdb_rel_type', { ...system(daysAgo(2000)), name: `${parent}::${child}`, parent_descriptor: parent, child_descriptor: child });
+  }
+  const relationshipTypeIds = ids('cmdb_rel_type');
+  for (const child of ciIds) {
+    db.insert('cmdb_rel_ci', { ...system(daysAgo(1500)), parent: random.pick(serviceIds), child, type: random.pick(relationshipTypeIds) });
+  }
+  for (let i = 1; i <= 200; i++) {
+    const model = random.pick(modelIds);
+    db.insert('alm_asset', {
+      ...system(daysAgo(1500)),
+      asset_tag: `P${String(100000 + i)}`,
+      display_name: `P${String(100000 + i)} - ${db.get(model)!.name}`,
+      install_status: random.pick(['1', '1', '1', '2', '6', '7']),
+      model,
+      ci: random.chance(0.7) ? random.pick(ciIds) : '',
+      assigned_to: random.chance(0.8) ? random.pick(userIds) : '',
+      location: random.pick(locations),
+      cost: (random.int(200, 5000) + 0.99).toFixed(2),
+    });
+  }
+  for (let i = 1; i <= 30; i++) {
+    const starts = daysAgo(700);
+    const active = random.chance(0.7);
+    db.insert('ast_contract', {
+      ...system(starts),
+      number: `CNTR${String(10000 + i).padStart(7, '0')}`,
+      short_description: `${random.pick(['Support', 'Maintenance', 'Lease', 'License'])} agreement`,
+      state: active ? 'active' : random.pick(['draft', 'expired', 'cancelled']),
+      active: active ? 'true' : 'false',
+      vendor: random.pick(vendorIds),
+      cost: String(random.int(1000, 100000)),
+      starts: formatGlideDateTime(starts),
+      ends: formatGlideDateTime(starts + random.int(180, 1095) * DAY),
+    });
+  }
+  const slaTasks = ids('incident').slice(0, relatedCount);
+  for (const task of slaTasks) {
+    db.insert('sla', {
+      ...system(daysAgo(90)),
+      name: random.pick(['Priority 1 resolution', 'Priority 2 resolution', 'Response time', 'Availability']),
+      active: random.chance(0.7) ? 'true' : 'false',
+      percentage: String(random.int(20, 160)),
+      business_service: random.pick(serviceIds),
+      task,
+    });
+  }
+
+  for (const [title, items] of catalog) {
+    const category = db.insert('sc_category', { ...system(daysAgo(2000)), title, description: `${title} requests`, active: 'true' });
+    for (const name of items) {
+      db.insert('sc_cat_item', { ...system(daysAgo(2000)), name, short_description: `Request ${name.toLowerCase()}`, category: category.sys_id, active: 'true' });
+    }
+  }
+  const catalogItemIds = ids('sc_cat_item');
+  for (let i = 1; i <= relatedCount; i++) {
+    const open = random.chance(0.5);
+    const requestedFor = random.pick(userIds);
+    const request = db.insert('sc_request', {
+      ...taskFields('REQ', 60000 + i, open),
+      state: taskRecordState(open),
+      requested_for: requestedFor,
+      request_state: open ? random.pick(['requested', 'in_process']) : random.pick(['closed_complete', 'closed_rejected']),
+      stage: open ? random.pick(['requested', 'fulfillment', 'delivery']) : 'closed_complete',
+      approval: open ? random.pick(['requested', 'approved']) : random.pick(['approved', 'rejected']),
+    });
+    for (let item = 0; item < random.int(1, 3); item++) {
+      db.insert('sc_req_item', {
+        ...taskFields('RITM', 70000 + i * 10 + item, open),
+        state: taskRecordState(open),
+        request: request.sys_id,
+        cat_item: random.pick(catalogItemIds),
+        requested_for: requestedFor,
+        stage: open ? random.pick(['request_approved', 'fulfillment', 'delivery']) : 'complete',
+        quantity: String(random.int(1, 3)),
+      });
+    }
+  }
+
+  for (const title of knowledgeCategories) {
+    db.insert('kb_category', { ...system(daysAgo(2000)), label: title, title, description: `${title} articles`, parent: '', active: 'true' });
+  }
+  const knowledgeCategoryIds = ids('kb_category');
+  for (let i = 1; i <= relatedCount; i++) {
+    const article = db.insert('kb_knowledge', {
+      ...system(daysAgo(700)),
+      number: `KB${String(i).padStart(7, '0')}`,
+      short_description: `How to fix: ${random.pick(problems).toLowerCase()}`,
+      text: `<p>${random.pick(problems)}. Follow the steps below to resolve it.</p>`,
+      workflow_state: random.pick(['published', 'published', 'published', 'draft', 'review', 'retired']),
+      kb_category: random.pick(knowledgeCategoryIds),
+      author: random.pick(userIds),
+      sys_view_count: String(random.int(0, 500)),
+      active: 'true',
+    });
+    for (let use = 0; use < random.int(0, 4); use++) {
+      db.insert('kb_use', { ...system(daysAgo(300)), article: article.sys_id, user: random.pick(userIds), viewed: 'true' });
+    }
+    if (random.chance(0.4)) {
+      db.insert('kb_feedback', { ...system(daysAgo(300)), article: article.sys_id, rating: String(random.int(1, 5)), comments: random.pick(['Helpful', 'Out of date', 'Worked for me', '']), user: random.pick(userIds) });
+    }
+  }
+
+  for (let i = 0; i < incidents * 4; i++) {
+    const level = random.pick(['0', '0', '0', '1', '2', '-1']);
+    db.insert('syslog', {
+      ...system(daysAgo(30)),
+      level,
+      source: random.pick(['SMTPSender', 'Evaluator', 'DiscoverySensor', 'Scheduler', 'REST API']),
+      message: level === '2' ? `${random.pick(problems)}: operation failed` : `${random.pick(['Job completed', 'Session started', 'Cache flushed', 'Event processed'])}`,
+    });
+  }
+
+  return db;
+}
@@ -0,0 +1,86 @@
+// OAuth 2.0 token endpoint (/oauth_token.do) for the local ServiceNow stand-in: password, client credentials and refresh token grants
+
+import { randomBytes } from 'node:crypto';
+import { MockRecord } from './mockDatabase';
+import type { MockResponse } from './server';
+
+export interface MockOAuthOptions {
+  clientId: string;
+  clientSecret: string;
+  // Access token lifetime in seconds
+  tokenLifetime: number;
+  // Password grant credentials, the same as basic auth
+  username: string;
+  password: string;
+  findUser: (userName: string) => MockRecord | undefined;
+}
+
+interface IssuedToken {
+  user: MockRecord;
+  expiresAt: number;
+}
+
+const REFRESH_TOKEN_LIFETIME = 100 * 24 * 60 * 60;
+
+function oauthError(status: number, error: string, description: string): MockResponse {
+  return { status, body: { error, error_description: description } };
+}
+
+export function createOAuthTokenStore(options: MockOAuthOptions) {
+  const accessTokens = new Map<string, IssuedToken>();
+  const refreshTokens = new Map<string, IssuedToken>();
+
+  function issue(user: MockRecord): MockResponse {
+    const now = Date.now();
+    const accessToken = randomBytes(32).toString('base64url');
+    const refreshToken = randomBytes(32).toString('base64url');
+    accessTokens.set(accessToken, { user, expiresAt: now + options.tokenLifetime * 1000 });
+    refreshTokens.set(refreshToken, { user, expiresAt: now + REFRESH_TOKEN_LIFETIME * 1000 });
+
+    return {
+      status: 200,
+      body: { access_token: accessToken, refresh_token: refreshToken, scope: 'useraccount', token_type: 'Bearer', expires_in: options.tokenLifetime },
+    };
+  }
+
+  function handleTokenRequest(form: URLSearchParams): MockResponse {
+    if (form.get('client_id') !== options.clientId || form.get('client_secret') !== options.clientSecret) {
+      return oauthError(401, 'access_denied', 'Invalid client credentials');
+    }
+
+    switch (form.get('grant_type')) {
+      case 'password': {
+        if (form.get('username') !== options.username || form.get('password') !== options.password) {
+          return oauthError(401, 'access_denied', 'Invalid user credentials');
+        }
+        return issue(options.findUser(options.username) || options.findUser('admin')!);
+      }
+      case 'client_credentials':
+        return issue(options.findUser('admin')!);
+      case 'refresh_token': {
+        const refreshToken = form.get('refresh_token') || '';
+        const issued = refreshTokens.get(refreshToken);
+        if (!issued || issued.expiresAt <= Date.now()) {
+          return oauthError(401, 'access_denied', 'Invalid refresh token');
+        }
+        refreshTokens.delete(refreshToken);
+        return issue(issued.user);
+      }
+      default:
+        return oauthError(400, 'unsupported_grant_type', `Unsupported grant type: ${form.get('grant_type')}`);
+    }
+  }
+
+  // The user a bearer token was issued to, or undefined when it is unknown or expired
+  function authenticateBearer(token: string): MockRecord | undefined {
+    const issued = accessTokens.get(token);
+    if (!issued) return undefined;
+    if (issued.expiresAt <= Date.now()) {
+      accessTokens.delete(token);
+      return undefined;
+    }
+    return issued.user;
+  }
+
+  return { handleTokenRequest, authenticateBearer };
+}
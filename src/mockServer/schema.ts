@@ -0,0 +1,378 @@
+// Table definitions served by the local ServiceNow stand-in
+
+export type MockFieldType = 'string' | 'integer' | 'boolean' | 'choice' | 'reference' | 'glide_date_time';
+
+export interface MockFieldDefinition {
+  type: MockFieldType;
+  // Target table for reference fields
+  reference?: string;
+  // value -> label for choice fields
+  choices?: Record<string, string>;
+}
+
+export interface MockTableDefinition {
+  name: string;
+  label: string;
+  // Parent table: inherits its fields and its queries include this table's records
+  extends?: string;
+  displayField: string;
+  fields: Record<string, MockFieldDefinition>;
+}
+
+const string: MockFieldDefinition = { type: 'string' };
+const integer: MockFieldDefinition = { type: 'integer' };
+const boolean: MockFieldDefinition = { type: 'boolean' };
+const dateTime: MockFieldDefinition = { type: 'glide_date_time' };
+const reference = (table: string): MockFieldDefinition => ({ type: 'reference', reference: table });
+const choice = (choices: Record<string, string>): MockFieldDefinition => ({ type: 'choice', choices });
+
+const systemFields: Record<string, MockFieldDefinition> = {
+  sys_id: string,
+  sys_class_name: string,
+  sys_created_on: dateTime,
+  sys_created_by: string,
+  sys_updated_on: dateTime,
+  sys_updated_by: string,
+  sys_mod_count: integer,
+};
+
+export const priorityChoices = { '1': '1 - Critical', '2': '2 - High', '3': '3 - Moderate', '4': '4 - Low', '5': '5 - Planning' };
+export const impactChoices = { '1': '1 - High', '2': '2 - Medium', '3': '3 - Low' };
+
+const tableList: MockTableDefinition[] = [
+  {
+    name: 'cmn_location',
+    label: 'Location',
+    displayField: 'name',
+    fields: { name: string, street: string, city: string, country: string },
+  },
+  {
+    name: 'cmn_department',
+    label: 'Department',
+    displayField: 'name',
+    fields: { name: string, id: string, description: string, dept_head: reference('sys_user') },
+  },
+  {
+    name: 'sys_user',
+    label: 'User',
+    displayField: 'name',
+    fields: {
+      user_name: string,
+      first_name: string,
+      last_name: string,
+      name: string,
+      email: string,
+      phone: string,
+      title: string,
+      active: boolean,
+      vip: boolean,
+      department: reference('cmn_department'),
+      manager: reference('sys_user'),
+      location: reference('cmn_location'),
+    },
+  },
+  {
+    name: 'sys_user_group',
+    label: 'Group',
+    displayField: 'name',
+    fields: { name: string, description: string, email: string, active: boolean, manager: reference('sys_user') },
+  },
+  {
+    name: 'cmdb_ci',
+    label: 'Configuration Item',
+    displayField: 'name',
+    fields: {
+      name: string,
+      asset_tag: string,
+      serial_number: string,
+      category: string,
+      operational_status: choice({ '1': 'Operational', '2': 'Non-Operational', '3': 'Repair in Progress', '6': 'Retired' }),
+      install_status: choice({ '1': 'Installed', '3': 'In Maintenance', '6': 'In Stock', '7': 'Retired' }),
+      owned_by: reference('sys_user'),
+      assigned_to: reference('sys_user'),
+      support_group: reference('sys_user_group'),
+      location: reference('cmn_location'),
+    },
+  },
+  {
+    name: 'cmdb_ci_service',
+    label: 'Business Service',
+    extends: 'cmdb_ci',
+    displayField: 'name',
+    fields: { busines_criticality: choice({ '1': '1 - most critical', '2': '2 - somewhat critical', '3': '3 - less critical' }) },
+  },
+  {
+    name: 'task',
+    label: 'Task',
+    displayField: 'number',
+    fields: {
+      number: string,
+      short_description: string,
+      description: string,
+      state: choice({ '-5': 'Pending', '1': 'Open', '2': 'Work in Progress', '3': 'Closed Complete', '4': 'Closed Incomplete' }),
+      priority: choice(priorityChoices),
+      impact: choice(impactChoices),
+      urgency: choice(impactChoices),
+      active: boolean,
+      opened_at: dateTime,
+      opened_by: reference('sys_user'),
+      closed_at: dateTime,
+      assigned_to: reference('sys_user'),
+      assignment_group: reference('sys_user_group'),
+      cmdb_ci: reference('cmdb_ci'),
+      business_service: reference('cmdb_ci_service'),
+      location: reference('cmn_location'),
+      work_notes: string,
+      close_notes: string,
+    },
+  },
+  {
+    name: 'incident',
+    label: 'Incident',
+    extends: 'task',
+    displayField: 'number',
+    fields: {
+      state: choice({ '1': 'New', '2': 'In Progress', '3': 'On Hold', '6': 'Resolved', '7': 'Closed', '8': 'Canceled' }),
+      caller_id: reference('sys_user'),
+      category: choice({ inquiry: 'Inquiry / Help', software: 'Software', hardware: 'Hardware', network: 'Network', database: 'Database' }),
+      subcategory: string,
+      resolved_at: dateTime,
+      resolved_by: reference('sys_user'),
+      close_code: string,
+      reassignment_count: integer,
+      reopen_count: integer,
+    },
+  },
+  {
+    name: 'problem',
+    label: 'Problem',
+    extends: 'task',
+    displayField: 'number',
+    fields: {
+      state: choice({ '101': 'New', '102': 'Assess', '103': 'Root Cause Analysis', '104': 'Fix in Progress', '106': 'Resolved', '107': 'Closed' }),
+      known_error: boolean,
+      cause_notes: string,
+      fix_notes: string,
+    },
+  },
+  {
+    name: 'change_request',
+    label: 'Change Request',
+    extends: 'task',
+    displayField: 'number',
+    fields: {
+      state: choice({ '-5': 'New', '-4': 'Assess', '-3': 'Authorize', '-2': 'Scheduled', '-1': 'Implement', '0': 'Review', '3': 'Closed', '4': 'Canceled' }),
+      type: choice({ normal: 'Normal', standard: 'Standard', emergency: 'Emergency' }),
+      risk: choice({ '2': 'High', '3': 'Moderate', '4': 'Low' }),
+      requested_by: reference('sys_user'),
+      start_date: dateTime,
+      end_date: dateTime,
+    },
+  },
+  {
+    name: 'change_task',
+    label: 'Change Task',
+    extends: 'task',
+    displayField: 'number',
+    fields: { change_request: reference('change_request') },
+  },
+  {
+    name: 'sys_user_role',
+    label: 'Role',
+    displayField: 'name',
+    fields: { name: string, description: string },
+  },
+  {
+    name: 'sys_user_has_role',
+    label: 'User Role',
+    displayField: 'role',
+    fields: { user: reference('sys_user'), role: reference('sys_user_role'), granted_by: reference('sys_user_group'), inherited: boolean },
+  },
+  {
+    name: 'sys_user_grmember',
+    label: 'Group Member',
+    displayField: 'user',
+    fields: { user: reference('sys_user'), group: reference('sys_user_group') },
+  },
+  {
+    name: 'sysapproval_approver',
+    label: 'Approval',
+    displayField: 'approver',
+    fields: {
+      approver: reference('sys_user'),
+      state: choice({ requested: 'Requested', approved: 'Approved', rejected: 'Rejected', not_required: 'No Longer Required' }),
+      sysapproval: reference('task'),
+      comments: string,
+    },
+  },
+  {
+    name: 'core_company',
+    label: 'Company',
+    displayField: 'name',
+    fields: { name: string, vendor: boolean, manufacturer: boolean, website: string },
+  },
+  {
+    name: 'cmdb_model',
+    label: 'Product Model',
+    displayField: 'name',
+    fields: { name: string, manufacturer: reference('core_company') },
+  },
+  {
+    name: 'cmdb_rel_type',
+    label: 'CI Relationship Type',
+    displayField: 'name',
+    fields: { name: string, parent_descriptor: string, child_descriptor: string },
+  },
+  {
+    name: 'cmdb_rel_ci',
+    label: 'CI Relationship',
+    displayField: 'type',
+    fields: { parent: reference('cmdb_ci'), child: reference('cmdb_ci'), type: reference('cmdb_rel_type') },
+  },
+  {
+    name: 'alm_asset',
+    label: 'Asset',
+    displayField: 'display_name',
+    fields: {
+      asset_tag: string,
+      display_name: string,
+      install_status: choice({ '1': 'In use', '2': 'On order', '6': 'In stock', '7': 'Retired' }),
+      model: reference('cmdb_model'),
+      ci: reference('cmdb_ci'),
+      assigned_to: reference('sys_user'),
+      location: reference('cmn_location'),
+      cost: string,
+    },
+  },
+  {
+    name: 'ast_contract',
+    label: 'Contract',
+    displayField: 'number',
+    fields: {
+      number: string,
+      short_description: string,
+      state: choice({ draft: 'Draft', active: 'Active', expired: 'Expired', cancelled: 'Cancelled' }),
+      active: boolean,
+      vendor: reference('core_company'),
+      cost: string,
+      starts: dateTime,
+      ends: dateTime,
+    },
+  },
+  {
+    name: 'sla',
+    label: 'SLA',
+    displayField: 'name',
+    fields: { name: string, active: boolean, percentage: integer, business_service: reference('cmdb_ci_service'), task: reference('task') },
+  },
+  {
+    name: 'sc_category',
+    label: 'Catalog Category',
+    displayField: 'title',
+    fields: { title: string, description: string, active: boolean },
+  },
+  {
+    name: 'sc_cat_item',
+    label: 'Catalog Item',
+    displayField: 'name',
+    fields: { name: string, short_description: string, category: reference('sc_category'), active: boolean },
+  },
+  {
+    name: 'sc_request',
+    label: 'Request',
+    extends: 'task',
+    displayField: 'number',
+    fields: {
+      requested_for: reference('sys_user'),
+      request_state: choice({ requested: 'Pending Approval', in_process: 'Approved', closed_complete: 'Closed Complete', closed_rejected: 'Closed Rejected' }),
+      stage: choice({ requested: 'Requested', fulfillment: 'Fulfillment', delivery: 'Delivery', closed_complete: 'Completed' }),
+      approval: choice({ requested: 'Requested', approved: 'Approved', rejected: 'Rejected', not_required: 'Not Yet Requested' }),
+    },
+  },
+  {
+    name: 'sc_req_item',
+    label: 'Requested Item',
+    extends: 'task',
+    displayField: 'number',
+    fields: {
+      request: reference('sc_request'),
+      cat_item: reference('sc_cat_item'),
+      requested_for: reference('sys_user'),
+      stage: choice({ request_approved: 'Request Approved', fulfillment: 'Fulfillment', delivery: 'Delivery', complete: 'Completed' }),
+      quantity: integer,
+    },
+  },
+  {
+    name: 'kb_category',
+    label: 'Knowledge Category',
+    displayField: 'label',
+    fields: { label: string, title: string, description: string, parent: reference('kb_category'), active: boolean },
+  },
+  {
+    name: 'kb_knowledge',
+    label: 'Knowledge',
+    displayField: 'number',
+    fields: {
+      number: string,
+      short_description: string,
+      text: string,
+      workflow_state: choice({ draft: 'Draft', review: 'Review', published: 'Published', retired: 'Retired' }),
+      kb_category: reference('kb_category'),
+      author: reference('sys_user'),
+      sys_view_count: integer,
+      active: boolean,
+    },
+  },
+  {
+    name: 'kb_feedback',
+    label: 'Knowledge Feedback',
+    displayField: 'article',
+    fields: { article: reference('kb_knowledge'), rating: integer, comments: string, user: reference('sys_user') },
+  },
+  {
+    name: 'kb_use',
+    label: 'Knowledge Use',
+    displayField: 'article',
+    fields: { article: reference('kb_knowledge'), user: reference('sys_user'), viewed: boolean },
+  },
+  {
+    name: 'syslog',
+    label: 'System Log',
+    displayField: 'message',
+    fields: {
+      level: choice({ '0': 'Information', '1': 'Warning', '2': 'Error', '-1': 'Debug' }),
+      source: string,
+      message: string,
+    },
+  },
+  {
+    // One entry per API request, written by the server
+    name: 'syslog_transaction',
+    label: 'Transaction Log Entry',
+    displayField: 'url',
+    fields: {
+      url: string,
+      type: string,
+      response_time: integer,
+      sql_time: integer,
+      business_rule_time: integer,
+      semaphore_wait_time: integer,
+    },
+  },
+];
+
+export const mockTables: Record<string, MockTableDefinition> = Object.fromEntries(tableList.map(table => [table.name, table]));
+
+// Own fields merged with every ancestor's, child definitions winning
+export function getMockTableFields(tableName: string): Record<string, MockFieldDefinition> {
+  const table = mockTables[tableName];
+  if (!table) return {};
+
+  const inherited = table.extends ? getMockTableFields(table.extends) : systemFields;
+  return { ...inherited, ...table.fields };
+}
+
+// The table itself plus every table extending it
+export function getMockTableHierarchy(tableName: string): string[] {
+  return [tableName, ...tableList.filter(table => table.extends === tableName).flatMap(table => getMockTableHierarchy(table.name))];
+}
@@ -0,0 +1,274 @@
+// HTTP server for the local ServiceNow stand-in: Table API, GraphQL, Batch API, OAuth and the scoped app endpoints
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+import { extname, join, normalize } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { MockDatabase, MockRecord, formatGlideDateTime } from './mockDatabase';
+import { errorResponse, handleTableRequest } from './tableApi';
+import { handleGraphQLRequest } from './graphqlApi';
+import { handleBatchRequest } from './batchApi';
+import { handleStatsRequest } from './statsApi';
+import { createOAuthTokenStore } from './oauth';
+
+export interface MockResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export interface MockServerOptions {
+  db: MockDatabase;
+  // Credentials accepted for basic auth
+  username: string;
+  password: string;
+  // Accepted in the x-sn-apikey header
+  apiKey: string;
+  // Artificial delay added to every API response, in milliseconds
+  latency: number;
+  // OAuth client accepted by /oauth_token.do and the lifetime of its access tokens in seconds
+  oauthClientId: string;
+  oauthClientSecret: string;
+  oauthTokenLifetime: number;
+  // Built app served for the scoped app home and everything outside /api (production auth path)
+  staticDir?: string;
+  log?: (message: string) => void;
+}
+
+const APP_API = '/api/x_elosa_api_benc_0/app';
+const SESSION_TOKEN_LIFETIME = 30 * 60 * 1000;
+
+const contentTypes: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+function setCorsHeaders(req: IncomingMessage, res: ServerResponse) {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Accept, X-UserToken, X-Requested-With, x-sn-apikey');
+  res.setHeader('Access-Control-Expose-Headers', 'X-Total-Count, Link');
+  // Lets the app in development mode read the connection and request phases of its resource timing entries
+  res.setHeader('Timing-Allow-Origin', req.headers.origin || '*');
+}
+
+// Gzipped when the client accepts it, as the instance does, so transferred and decoded sizes differ
+function sendJson(req: IncomingMessage, res: ServerResponse, response: MockResponse) {
+  const body = Buffer.from(JSON.stringify(response.body));
+  const gzip = /\bgzip\b/.test(String(req.headers['accept-encoding'] || ''));
+  const encoded = gzip ? gzipSync(body) : body;
+  res.writeHead(response.status, {
+    'Content-Type': 'application/json',
+    'Content-Length': String(encoded.length),
+    Vary: 'Accept-Encoding',
+    ...(gzip ? { 'Content-Encoding': 'gzip' } : {}),
+    ...response.headers,
+  });
+  res.end(encoded);
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const text = await readBody(req);
+  return text ? JSON.parse(text) : undefined;
+}
+
+export function createMockServer(options: MockServerOptions): Server {
+  const { db } = options;
+  const sessionTokens = new Map<string, { user: MockRecord; expiresAt: number }>();
+  const findUser = (userName: string) => db.query('sys_user').find(user => user.user_name === userName);
+  const oauth = createOAuthTokenStore({
+    clientId: options.oauthClientId,
+    clientSecret: options.oauthClientSecret,
+    tokenLifetime: options.oauthTokenLifetime,
+    username: options.username,
+    password: options.password,
+    findUser,
+  });
+
+  // The user making the request, or undefined when no valid credentials were sent
+  function authenticate(req: IncomingMessage): MockRecord | undefined {
+    const userToken = req.headers['x-usertoken'];
+    if (typeof userToken === 'string') {
+      const session = sessionTokens.get(userToken);
+      return session && session.expiresAt > Date.now() ? session.user : undefined;
+    }
+
+    const apiKey = req.headers['x-sn-apikey'];
+    if (typeof apiKey === 'string') {
+      return apiKey === options.apiKey ? findUser(options.username) || findUser('admin') : undefined;
+    }
+
+    const authorization = req.headers.authorization || '';
+    if (authorization.startsWith('Bearer ')) {
+      return oauth.authenticateBearer(authorization.slice(7));
+    }
+
+    if (authorization.startsWith('Basic ')) {
+      const [username, ...password] = Buffer.from(authorization.slice(6), 'base64').toString('utf8').split(':');
+      if (username === options.username && password.join(':') === options.password) {
+        return findUser(username) || findUser('admin');
+      }
+    }
+
+    return undefined;
+  }
+
+  async function serveStatic(pathname: string, res: ServerResponse): Promise<boolean> {
+    if (!options.staticDir) return false;
+
+    const root = normalize(options.staticDir);
+    let file = normalize(join(root, decodeURIComponent(pathname)));
+    if (!file.startsWith(root)) return false;
+
+    const isFile = await stat(file).then(info => info.isFile(), () => false);
+    if (!isFile) {
+      // Client-side routes (e.g. the scoped app home) fall back to the single page
+      file = join(root, 'index.html');
+    }
+
+    try {
+      const content = await readFile(file);
+      res.writeHead(200, { 'Content-Type': contentTypes[extname(file)] || 'application/octet-stream' });
+      res.end(content);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async function route(req: IncomingMessage, url: URL): Promise<MockResponse> {
+    const baseUrl = `http://${req.headers.host}`;
+    const method = req.method || 'GET';
+
+    // Stands in for the scripted REST resource; the browser session is assumed to be logged in as admin
+    if (method === 'GET' && url.pathname === `${APP_API}/get-token`) {
+      const token = randomBytes(24).toString('hex');
+      const expiresAt = Date.now() + SESSION_TOKEN_LIFETIME;
+      sessionTokens.set(token, { user: findUser('admin')!, expiresAt });
+      return { status: 200, body: { result: { token, expires: new Date(expiresAt).toISOString() } } };
+    }
+
+    if (method === 'POST' && url.pathname === '/oauth_token.do') {
+      return oauth.handleTokenRequest(new URLSearchParams(await readBody(req)));
+    }
+
+    const user = authenticate(req);
+    if (!user) {
+      return errorResponse(401, 'User Not Authenticated', 'Required to provide Auth information');
+    }
+    const context = { userSysId: user.sys_id };
+
+    if (method === 'GET' && url.pathname === `${APP_API}/instance-info`) {
+      return { status: 200, body: { result: { url: baseUrl, username: user.user_name, instance_name: 'mock', version: 'mock-server' } } };
+    }
+
+    const routeTableRequest = (tableMethod: string, tableUrl: URL): MockResponse | undefined => {
+      const tableMatch = /^\/api\/now\/(?:v\d+\/)?table\/([^/]+)(?:\/([^/]+))?$/.exec(tableUrl.pathname);
+      if (tableMethod !== 'GET' || !tableMatch) return undefined;
+      return handleTableRequest(db, { table: tableMatch[1], sysId: tableMatch[2], params: tableUrl.searchParams, baseUrl, context });
+    };
+
+    const tableResponse = routeTableRequest(method, url);
+    if (tableResponse) {
+      return tableResponse;
+    }
+
+    const statsMatch = /^\/api\/now\/(?:v\d+\/)?stats\/([^/]+)$/.exec(url.pathname);
+    if (method === 'GET' && statsMatch) {
+      return handleStatsRequest(db, statsMatch[1], url.searchParams, context);
+    }
+
+    if (method === 'POST' && /^\/api\/now\/(?:v\d+\/)?batch$/.test(url.pathname)) {
+      let payload: unknown;
+      try {
+        payload = await readJsonBody(req);
+      } catch {
+        return errorResponse(400, 'Request body is not valid JSON');
+      }
+      // Only Table API reads can be bundled
+      return handleBatchRequest(payload, baseUrl, (subMethod, subUrl) =>
+        routeTableRequest(subMethod, subUrl) || errorResponse(400, 'Requested URI does not represent any resource', subUrl.pathname)
+      );
+    }
+
+    if (method === 'POST' && url.pathname === '/api/now/graphql') {
+      let payload: unknown;
+      try {
+        payload = await readJsonBody(req);
+      } catch {
+        return { status: 400, body: { errors: [{ message: 'Request body is not valid JSON' }] } };
+      }
+      return handleGraphQLRequest(db, payload, context);
+    }
+
+    return errorResponse(400, 'Requested URI does not represent any resource', url.pathname);
+  }
+
+  // Transaction log for server-side timing: the query work stands in for SQL time and the added latency for semaphore wait
+  function logTransaction(url: URL, start: number, handled: number) {
+    if (!url.pathname.startsWith('/api/')) return;
+    const end = Date.now();
+    db.insert('syslog_transaction', {
+      sys_id: randomBytes(16).toString('hex'),
+      sys_created_on: formatGlideDateTime(start),
+      sys_created_by: 'system',
+      sys_updated_on: formatGlideDateTime(end),
+      sys_updated_by: 'system',
+      sys_mod_count: '0',
+      url: `${url.pathname}${url.search}`,
+      type: 'REST',
+      response_time: String(end - start),
+      sql_time: String(handled - start),
+      business_rule_time: '0',
+      semaphore_wait_time: String(end - handled),
+    });
+  }
+
+  return createServer(async (req, res) => {
+    const start = Date.now();
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    setCorsHeaders(req, res);
+
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+
+      const isAppPage = !url.pathname.startsWith('/api/') || url.pathname === `${APP_API}/home`;
+      if (isAppPage && req.method === 'GET' && await serveStatic(url.pathname, res)) {
+        return;
+      }
+
+      const response = await route(req, url);
+      const handled = Date.now();
+      if (options.latency > 0) {
+        await new Promise(resolve => setTimeout(resolve, options.latency));
+      }
+
+      sendJson(req, res, response);
+      logTransaction(url, start, handled);
+    } catch (error) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: error instanceof Error ? error.message : String(error), detail: null }, status: 'failure' }));
+    } finally {
+      options.log?.(`${req.method} ${url.pathname}${url.search} ${res.statusCode} ${Date.now() - start}ms`);
+    }
+  });
+}
@@ -0,0 +1,103 @@
+// Aggregate API (/api/now/stats/{table}) for the local ServiceNow stand-in, plus the grouping shared with GraphQL _aggregate
+
+import { AggregateFunction, AggregateSpec } from '../types';
+import { MockDatabase, MockRecord } from './mockDatabase';
+import { QueryContext, ResolvedField, resolveField, runEncodedQuery } from './encodedQuery';
+import { errorResponse } from './tableApi';
+import type { MockResponse } from './server';
+
+export interface AggregateGroup {
+  // Group-by field values, in groupBy order
+  groupBy: Array<{ field: string; resolved?: ResolvedField }>;
+  count: number;
+  // Formatted values per function and field, '' when the group has no numeric value
+  values: Record<AggregateFunction, Record<string, string>>;
+}
+
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'avg', 'min', 'max'];
+
+function aggregateValue(fn: AggregateFunction, numbers: number[]): string {
+  if (numbers.length === 0) return '';
+  switch (fn) {
+    case 'sum':
+      return String(numbers.reduce((total, value) => total + value, 0));
+    case 'avg':
+      return (numbers.reduce((total, value) => total + value, 0) / numbers.length).toFixed(4);
+    case 'min':
+      return String(Math.min(...numbers));
+    case 'max':
+      return String(Math.max(...numbers));
+  }
+}
+
+// Groups are ordered by their group-by values; without groupBy there is a single group
+export function computeAggregates(db: MockDatabase, records: MockRecord[], spec: AggregateSpec): AggregateGroup[] {
+  const groupBy = spec.groupBy || [];
+  const groups = new Map<string, MockRecord[]>();
+
+  for (const record of records) {
+    const key = groupBy.map(field => resolveField(db, record, field)?.value ?? '').join('|');
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+  if (groupBy.length === 0 && groups.size === 0) {
+    groups.set('', []);
+  }
+
+  return Array.from(groups.keys()).sort().map(key => {
+    const members = groups.get(key)!;
+    const values = {} as AggregateGroup['values'];
+    for (const fn of AGGREGATE_FUNCTIONS) {
+      values[fn] = {};
+      for (const field of spec[fn] || []) {
+        const numbers = members
+          .map(record => resolveField(db, record, field)?.value)
+          .filter(value => value !== undefined && value !== '')
+          .map(Number)
+          .filter(Number.isFinite);
+        values[fn][field] = aggregateValue(fn, numbers);
+      }
+    }
+
+    return {
+      groupBy: groupBy.map(field => ({ field, resolved: members[0] && resolveField(db, members[0], field) })),
+      count: members.length,
+      values,
+    };
+  });
+}
+
+function listParam(params: URLSearchParams, name: string): string[] | undefined {
+  const fields = params.get(name)?.split(',').map(field => field.trim()).filter(Boolean);
+  return fields && fields.length > 0 ? fields : undefined;
+}
+
+export function handleStatsRequest(db: MockDatabase, table: string, params: URLSearchParams, context: QueryContext): MockResponse {
+  if (!db.hasTable(table)) {
+    return errorResponse(400, `Invalid table ${table}`);
+  }
+
+  const spec: AggregateSpec = {
+    count: params.get('sysparm_count') === 'true',
+    groupBy: listParam(params, 'sysparm_group_by'),
+    sum: listParam(params, 'sysparm_sum_fields'),
+    avg: listParam(params, 'sysparm_avg_fields'),
+    min: listParam(params, 'sysparm_min_fields'),
+    max: listParam(params, 'sysparm_max_fields'),
+  };
+
+  const records = runEncodedQuery(db, table, params.get('sysparm_query') || undefined, context);
+  const groups = computeAggregates(db, records, spec).map(group => {
+    const stats: Record<string, unknown> = {};
+    if (spec.count) stats.count = String(group.count);
+    for (const fn of AGGREGATE_FUNCTIONS) {
+      if (spec[fn]) stats[fn] = group.values[fn];
+    }
+    return {
+      stats,
+      groupby_fields: group.groupBy.map(({ field, resolved }) => ({ field, value: resolved?.value ?? '' })),
+    };
+  });
+
+  // The stats API only returns a list when grouping
+  return { status: 200, body: { result: spec.groupBy ? groups : { stats: groups[0].stats } } };
+}
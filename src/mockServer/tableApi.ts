@@ -0,0 +1,126 @@
+// Table API (/api/now/table/{table}) for the local ServiceNow stand-in
+
+import { MockDatabase, MockRecord } from './mockDatabase';
+import { QueryContext, resolveField, runEncodedQuery } from './encodedQuery';
+import { getMockTableFields } from './schema';
+import { RestDisplayValue } from '../types';
+import type { MockResponse } from './server';
+
+const DEFAULT_LIMIT = 10000;
+
+export interface TableRequest {
+  table: string;
+  sysId?: string;
+  params: URLSearchParams;
+  // Origin used for reference links and the Link header
+  baseUrl: string;
+  context: QueryContext;
+}
+
+export function errorResponse(status: number, message: string, detail: string | null = null): MockResponse {
+  return { status, body: { error: { message, detail }, status: 'failure' } };
+}
+
+// sysparm_display_value and sysparm_exclude_reference_link
+interface RestValueFormat {
+  displayValue: RestDisplayValue;
+  excludeReferenceLink: boolean;
+}
+
+function parseValueFormat(params: URLSearchParams): RestValueFormat {
+  const displayValue = params.get('sysparm_display_value');
+  return {
+    displayValue: displayValue === 'true' || displayValue === 'all' ? displayValue : 'false',
+    excludeReferenceLink: params.get('sysparm_exclude_reference_link') === 'true',
+  };
+}
+
+// REST shape of a single field: plain string, {display_value, value} with display_value=all,
+// and wrapped with a link for references unless links are excluded
+function formatRestValue(record: MockRecord, path: string, db: MockDatabase, baseUrl: string, format: RestValueFormat): unknown {
+  const field = resolveField(db, record, path);
+  if (!field) return undefined;
+
+  const link = field.definition.type === 'reference' && field.value && !format.excludeReferenceLink
+    ? `${baseUrl}/api/now/table/${field.definition.reference}/${field.value}`
+    : undefined;
+
+  switch (format.displayValue) {
+    case 'true':
+      return link ? { link, display_value: field.displayValue } : field.displayValue;
+    case 'all':
+      return link
+        ? { display_value: field.displayValue, link, value: field.value }
+        : { display_value: field.displayValue, value: field.value };
+    default:
+      return link ? { link, value: field.value } : field.value;
+  }
+}
+
+function formatRestRecord(record: MockRecord, fields: string[] | undefined, db: MockDatabase, baseUrl: string, format: RestValueFormat): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const path of fields || Object.keys(getMockTableFields(record.sys_class_name))) {
+    const value = formatRestValue(record, path, db, baseUrl, format);
+    // Unknown fields are left out, as the real Table API does
+    if (value !== undefined) {
+      result[path] = value;
+    }
+  }
+
+  return result;
+}
+
+function buildLinkHeader(baseUrl: string, table: string, params: URLSearchParams, offset: number, limit: number, total: number): string {
+  const link = (linkOffset: number, rel: string) => {
+    const linkParams = new URLSearchParams(params);
+    linkParams.set('sysparm_offset', String(linkOffset));
+    linkParams.set('sysparm_limit', String(limit));
+    return `<${baseUrl}/api/now/table/${table}?${linkParams.toString()}>;rel="${rel}"`;
+  };
+
+  const links = [link(0, 'first')];
+  if (offset > 0) links.push(link(Math.max(0, offset - limit), 'prev'));
+  if (offset + limit < total) links.push(link(offset + limit, 'next'));
+  links.push(link(Math.max(0, Math.floor((total - 1) / limit) * limit), 'last'));
+
+  return links.join(',');
+}
+
+export function handleTableRequest(db: MockDatabase, request: TableRequest): MockResponse {
+  const { table, sysId, params, baseUrl, context } = request;
+
+  if (!db.hasTable(table)) {
+    return errorResponse(400, `Invalid table ${table}`);
+  }
+
+  const fields = params.get('sysparm_fields')?.split(',').map(field => field.trim()).filter(Boolean);
+  const format = parseValueFormat(params);
+
+  if (sysId) {
+    const record = db.query(table).find(candidate => candidate.sys_id === sysId);
+    if (!record) {
+      return errorResponse(404, 'No Record found', "Record doesn't exist or ACL restricts the record retrieval");
+    }
+    return { status: 200, body: { result: formatRestRecord(record, fields, db, baseUrl, format) } };
+  }
+
+  const limit = Math.max(1, parseInt(params.get('sysparm_limit') || '', 10) || DEFAULT_LIMIT);
+  const offset = Math.max(0, parseInt(params.get('sysparm_offset') || '', 10) || 0);
+  const records = runEncodedQuery(db, table, params.get('sysparm_query') || undefined, context);
+  const page = records.slice(offset, offset + limit);
+
+  const headers: Record<string, string> = {};
+  if (params.get('sysparm_no_count') !== 'true') {
+    headers['X-Total-Count'] = String(records.length);
+  }
+  if (params.get('sysparm_suppress_pagination_header') !== 'true') {
+    headers['Link'] = buildLinkHeader(baseUrl, table, params, offset, limit, records.length);
+  }
+
+  return {
+    status: 200,
+    headers,
+    body: { result: page.map(record => formatRestRecord(record, fields, db, baseUrl, format)) },
+  };
+}
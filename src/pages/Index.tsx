@@ -6,6 +6,8 @@ import { TestConfiguration } from "../components/TestConfiguration/TestConfigura
 import { ExecutionArea } from "../components/ExecutionArea/ExecutionArea";
 import { Scoreboard } from "../components/Scoreboard/Scoreboard";
 import { TestSpecsExplorer } from "../components/TestSpecs/TestSpecsExplorer";
+import { RunHistory } from "../components/History/RunHistory";
+import { VaultGate } from "../components/Security/VaultGate";
 import { useBenchmark } from "../contexts/BenchmarkContext";
 import { isAuthError, getAuthErrorMessage, getAuthStatus, isProductionMode } from "../services/authService";
 import { apiService } from "../services/apiService";
@@ -13,10 +15,11 @@ import { Alert, AlertDescription } from "../components/ui/alert";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "../components/ui/tabs";
 import { ProcessedTestSpec } from "../services/testSpecsService";
 import { TestExecutionService } from "../services/testExecutionService";
-import { Info, Play, BookOpen } from "lucide-react";
+import { profileToInstance } from "../utils/instanceProfiles";
+import { Info, Play, BookOpen, History } from "lucide-react";
 
 function BenchmarkDashboard() {
-    const { state, dispatch } = useBenchmark();
+    const { state, dispatch, createRunControl } = useBenchmark();
     const [activeTab, setActiveTab] = useState("benchmark");
 
     useEffect(() => {
@@ -28,21 +31,31 @@ function BenchmarkDashboard() {
                 // Production mode - fetch instance info then test connection
                 await fetchInstanceInfo();
             } else {
-                // Development mode - use environment variables for basic auth
-
-                const instance: ServiceNowInstance = {
-                    url: import.meta.env.VITE_INSTANCE_URL,
-                    username: import.meta.env.VITE_APP_USER,
-                    password: import.meta.env.VITE_APP_PASSWORD,
-                    token: "",
-                    connected: false,
-                    authMode: "basic",
-                };
-
-                if (instance.url && instance.username && instance.password) {
+                // Development mode - use the active profile, or environment variables for basic auth
+                const activeProfile = state.profiles.find((profile) => profile.id === state.activeProfileId);
+                const instance: ServiceNowInstance = activeProfile
+                    ? profileToInstance(activeProfile)
+                    : {
+                          url: import.meta.env.VITE_INSTANCE_URL,
+                          username: import.meta.env.VITE_APP_USER,
+                          password: import.meta.env.VITE_APP_PASSWORD,
+                          token: "",
+                          connected: false,
+                          authMode: import.meta.env.VITE_API_KEY ? "apikey" : import.meta.env.VITE_OAUTH_CLIENT_ID ? "oauth" : "basic",
+                          apiKey: import.meta.env.VITE_API_KEY,
+                          oauth: import.meta.env.VITE_OAUTH_CLIENT_ID
+                              ? {
+                                    grantType: import.meta.env.VITE_APP_USER ? "password" : "client_credentials",
+                                    clientId: import.meta.env.VITE_OAUTH_CLIENT_ID,
+                                    clientSecret: import.meta.env.VITE_OAUTH_CLIENT_SECRET,
+                                }
+                              : undefined,
+                      };
+
+                if (instance.url && (instance.authMode !== "basic" || (instance.username && instance.password))) {
                     // Set instance for development mode
                     apiService.setInstance(instance);
-                    await testConnection();
+                    await testConnection(instance);
                 }
             }
         };
@@ -50,7 +63,7 @@ function BenchmarkDashboard() {
         initializeConnection();
     }, []);
 
-    const testConnection = useCallback(async () => {
+    const testConnection = useCallback(async (developmentInstance?: ServiceNowInstance) => {
         try {
             const result = await apiService.testConnection();
 
@@ -72,14 +85,8 @@ function BenchmarkDashboard() {
                     });
                 } else {
                     // Development mode - instance already set via apiService.setInstance()
-                    const instance: ServiceNowInstance = {
-                        url: import.meta.env.VITE_INSTANCE_URL,
-                        username: import.meta.env.VITE_APP_USER,
-                        password: import.meta.env.VITE_APP_PASSWORD,
-                        token: "",
-                        connected: true,
-                        authMode: "basic",
-                    };
+                    const instance: ServiceNowInstance = { ...developmentInstance!, connected: true };
+                    apiService.setInstance(instance);
 
                     dispatch({
                         type: "SET_INSTANCE",
@@ -164,6 +171,10 @@ function BenchmarkDashboard() {
     const handleRunTestFromSpecs = async (spec: ProcessedTestSpec) => {
         // Map the test spec to the existing test configuration format
         const categoryKey = (() => {
+            // Specs carry the configuration key; the display names are kept for older callers
+            if (spec.category in state.testConfiguration) {
+                return spec.category;
+            }
             switch (spec.category) {
                 case "Dot-Walking Performance":
                     return "dotWalkingTests";
@@ -190,6 +201,9 @@ function BenchmarkDashboard() {
                 schemaTailoringTests: { ...state.testConfiguration.schemaTailoringTests, enabled: false },
                 performanceScaleTests: { ...state.testConfiguration.performanceScaleTests, enabled: false },
                 realWorldScenarios: { ...state.testConfiguration.realWorldScenarios, enabled: false },
+                aggregateTests: { ...state.testConfiguration.aggregateTests, enabled: false },
+                paginationTests: { ...state.testConfiguration.paginationTests, enabled: false },
+                customRequests: { ...state.testConfiguration.customRequests, enabled: false },
                 // Then enable and configure the selected test
                 [categoryKey]: {
                     enabled: true,
@@ -198,7 +212,8 @@ function BenchmarkDashboard() {
                         recordLimit: spec.recordLimits[0], // Use first record limit as default
                     },
                     selectedVariants: spec.variant ? [spec.variant] : undefined,
-                    selectedLimits: [spec.recordLimits[0]],
+                    selectedLimits: spec.recordLimits.length > 0 ? [spec.recordLimits[0]] : undefined,
+                    limitSweep: undefined,
                 },
             },
         });
@@ -211,6 +226,7 @@ function BenchmarkDashboard() {
             state.instance,
             {
                 ...state.testConfiguration,
+                customRequests: { ...state.testConfiguration.customRequests, enabled: false },
                 [categoryKey]: {
                     enabled: true,
                     parameters: {
@@ -218,10 +234,13 @@ function BenchmarkDashboard() {
                         recordLimit: spec.recordLimits[0],
                     },
                     selectedVariants: spec.variant ? [spec.variant] : undefined,
-                    selectedLimits: [spec.recordLimits[0]],
+                    selectedLimits: spec.recordLimits.length > 0 ? [spec.recordLimits[0]] : undefined,
+                    limitSweep: undefined,
                 },
             },
-            dispatch
+            dispatch,
+            [],
+            { control: createRunControl() }
         );
 
         if (!result.success) {
@@ -250,7 +269,7 @@ function BenchmarkDashboard() {
                 )}
 
                 <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-                    <TabsList className="grid w-full grid-cols-2 mb-8">
+                    <TabsList className="grid w-full grid-cols-3 mb-8">
                         <TabsTrigger value="benchmark" className="flex items-center gap-2">
                             <Play className="h-4 w-4" />
                             API Benchmark
@@ -259,6 +278,10 @@ function BenchmarkDashboard() {
                             <BookOpen className="h-4 w-4" />
                             Test Explorer
                         </TabsTrigger>
+                        <TabsTrigger value="history" className="flex items-center gap-2">
+                            <History className="h-4 w-4" />
+                            Run History
+                        </TabsTrigger>
                     </TabsList>
 
                     <TabsContent value="benchmark" className="mt-0">
@@ -279,6 +302,10 @@ function BenchmarkDashboard() {
                     <TabsContent value="test-specs" className="mt-0">
                         <TestSpecsExplorer onRunTest={handleRunTestFromSpecs} onSwitchToBenchmark={handleSwitchToBenchmark} />
                     </TabsContent>
+
+                    <TabsContent value="history" className="mt-0">
+                        <RunHistory onOpenRun={handleSwitchToBenchmark} />
+                    </TabsContent>
                 </Tabs>
             </main>
         </div>
@@ -287,9 +314,11 @@ function BenchmarkDashboard() {
 
 const Index = () => {
     return (
-        <BenchmarkProvider>
-            <BenchmarkDashboard />
-        </BenchmarkProvider>
+        <VaultGate>
+            <BenchmarkProvider>
+                <BenchmarkDashboard />
+            </BenchmarkProvider>
+        </VaultGate>
     );
 };
 
@@ -1,20 +1,23 @@
-// Authentication service supporting both development (basic auth) and production (session token) modes
+// Authentication service supporting development (basic auth), production (session token), OAuth and API key modes
 
 import { getEnvironmentConfig, envLog } from '../utils/environment';
 import { getSessionToken, refreshSessionToken } from '../utils/tokenManager';
-import { ServiceNowInstance } from '../types';
+import { getOAuthToken, refreshOAuthToken } from '../utils/oauthTokenManager';
+import { InstanceAuthMode, ServiceNowInstance } from '../types';
 
 export interface AuthHeaders {
   'Content-Type': string;
   'Authorization'?: string;
   'X-UserToken'?: string;
   'X-Requested-With'?: string;
+  'x-sn-apikey'?: string;
 }
 
 export interface AuthConfig {
   headers: AuthHeaders;
   baseUrl: string;
   isSessionAuth: boolean;
+  authMode: InstanceAuthMode;
 }
 
 export interface AuthError {
@@ -37,8 +40,10 @@ class AuthService {
     };
 
     let baseUrl = this.config.baseUrl;
+    // Instances without an explicit mode follow the environment
+    const authMode = instance?.authMode ?? (this.config.useSessionAuth ? 'session' : 'basic');
 
-    if (this.config.useSessionAuth) {
+    if (authMode === 'session') {
       // Production mode - use session token
       try {
         const token = await getSessionToken();
@@ -51,8 +56,32 @@ class AuthService {
         envLog.error('Failed to get session token:', error);
         throw this.createAuthError('TOKEN_FETCH_FAILED', 'Failed to retrieve session token', error as Error);
       }
+    } else if (authMode === 'oauth') {
+      if (!instance) {
+        throw this.createAuthError('AUTH_FAILED', 'An instance is required for OAuth');
+      }
+
+      try {
+        const token = await getOAuthToken(instance);
+        headers['Authorization'] = `Bearer ${token}`;
+        baseUrl = instance.url || this.config.baseUrl;
+
+        envLog.info('Using OAuth bearer token');
+      } catch (error) {
+        envLog.error('Failed to get OAuth token:', error);
+        throw this.createAuthError('TOKEN_FETCH_FAILED', `Failed to retrieve OAuth access token: ${(error as Error).message}`, error as Error);
+      }
+    } else if (authMode === 'apikey') {
+      if (!instance || !instance.apiKey) {
+        throw this.createAuthError('AUTH_FAILED', 'An API key is required for API key authentication');
+      }
+
+      headers['x-sn-apikey'] = instance.apiKey;
+      baseUrl = instance.url || this.config.baseUrl;
+
+      envLog.info('Using API key authentication');
     } else {
-      // Development mode - use basic auth
+      // Basic auth, the development mode default
       if (!instance || !instance.username || !instance.password) {
         throw this.createAuthError('AUTH_FAILED', 'Username and password required for development mode');
       }
@@ -67,7 +96,8 @@ class AuthService {
     return {
       headers,
       baseUrl,
-      isSessionAuth: this.config.useSessionAuth
+      isSessionAuth: authMode === 'session',
+      authMode
     };
   }
 
@@ -112,6 +142,14 @@ class AuthService {
           return this.makeAuthenticatedRequest(endpoint, options, instance, retryCount + 1);
         }
 
+        // The access token may have been revoked or expired early; get a new one and retry once
+        if (authConfig.authMode === 'oauth' && response.status === 401 && retryCount === 0) {
+          envLog.warn('OAuth token rejected, fetching a new token and retrying...');
+
+          await refreshOAuthToken(instance!);
+          return this.makeAuthenticatedRequest(endpoint, options, instance, retryCount + 1);
+        }
+
         throw this.createAuthError('AUTH_FAILED', `Authentication failed: ${response.status} ${response.statusText}`);
       }
 
@@ -154,7 +192,7 @@ class AuthService {
   // Test authentication
   async testAuthentication(instance?: ServiceNowInstance): Promise<boolean> {
     try {
-      const response = await this.makeAuthenticatedRequest('api/now/table/sys_user', {
+      const response = await this.makeAuthenticatedRequest('api/now/table/sys_user?sysparm_limit=1', {
         method: 'GET'
       }, instance);
 
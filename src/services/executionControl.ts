@@ -0,0 +1,84 @@
+// Pause, resume and cancel handle for a running benchmark
+
+// Thrown inside the execution engine once the run has been cancelled
+export class RunCancelledError extends Error {
+  constructor() {
+    super('Benchmark run cancelled');
+    this.name = 'RunCancelledError';
+  }
+}
+
+export class ExecutionControl {
+  private abortController = new AbortController();
+  private pauseRequested = false;
+  private resumeListeners: Array<() => void> = [];
+
+  // Passed to every benchmark request so cancelling aborts in-flight calls
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  get isPauseRequested(): boolean {
+    return this.pauseRequested && !this.isCancelled;
+  }
+
+  cancel(): void {
+    this.abortController.abort();
+    this.releaseWaiters();
+  }
+
+  // Takes effect once the current test has finished
+  pause(): void {
+    if (!this.isCancelled) {
+      this.pauseRequested = true;
+    }
+  }
+
+  resume(): void {
+    this.pauseRequested = false;
+    this.releaseWaiters();
+  }
+
+  // Resolves right away unless a pause was requested, otherwise on resume or cancel
+  waitWhilePaused(): Promise<void> {
+    if (!this.isPauseRequested) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.resumeListeners.push(resolve));
+  }
+
+  throwIfCancelled(): void {
+    if (this.isCancelled) {
+      throw new RunCancelledError();
+    }
+  }
+
+  private releaseWaiters(): void {
+    const listeners = this.resumeListeners;
+    this.resumeListeners = [];
+    listeners.forEach(listener => listener());
+  }
+}
+
+// setTimeout that ends early when the signal aborts
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
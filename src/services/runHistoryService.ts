@@ -0,0 +1,80 @@
+// Run history persisted in IndexedDB so finished runs survive a reload
+
+import { BenchmarkRun } from '../types';
+
+const DB_NAME = 'snow-api-analyzer';
+const DB_VERSION = 1;
+const RUN_STORE = 'runs';
+
+export type BenchmarkRunUpdate = Partial<Pick<BenchmarkRun, 'name' | 'tags'>>;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class RunHistoryService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  get isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(RUN_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry after a failed open
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDatabase();
+    return db.transaction(RUN_STORE, mode).objectStore(RUN_STORE);
+  }
+
+  async saveRun(run: BenchmarkRun): Promise<void> {
+    await requestToPromise((await this.store('readwrite')).put(run));
+  }
+
+  // Newest first
+  async listRuns(): Promise<BenchmarkRun[]> {
+    const runs = await requestToPromise((await this.store('readonly')).index('startedAt').getAll());
+    return (runs as BenchmarkRun[]).reverse();
+  }
+
+  async getRun(id: string): Promise<BenchmarkRun | undefined> {
+    return requestToPromise((await this.store('readonly')).get(id)) as Promise<BenchmarkRun | undefined>;
+  }
+
+  async updateRun(id: string, update: BenchmarkRunUpdate): Promise<BenchmarkRun> {
+    const store = await this.store('readwrite');
+    const run = await requestToPromise(store.get(id)) as BenchmarkRun | undefined;
+    if (!run) {
+      throw new Error(`Run ${id} not found`);
+    }
+
+    const updated = { ...run, ...update };
+    await requestToPromise(store.put(updated));
+    return updated;
+  }
+
+  async deleteRun(id: string): Promise<void> {
+    await requestToPromise((await this.store('readwrite')).delete(id));
+  }
+}
+
+export const runHistoryService = new RunHistoryService();
@@ -1,459 +1,1338 @@
 import { testSpecs } from '../specs/testSpecs';
-import { buildRestUrl, buildGraphQLQuery, buildMultiTableGraphQLQuery, validateMultiTableScenario } from '../utils/apiBuilders';
-import { compareApiResponses, compareMultiTableApiResponses } from '../utils/dataComparison';
+import { buildRestUrl, buildGraphQLQuery, buildMultiTableGraphQLQuery, buildBatchRequest, parseBatchResponse, BATCH_ENDPOINT, validateMultiTableScenario, getCustomRequestQueryParams, buildStatsUrl, buildAggregateGraphQLQuery } from '../utils/apiBuilders';
+import { compareAggregateResponses, compareApiResponses, compareMultiTableApiResponses, summarizeVisibility } from '../utils/dataComparison';
+import { applyOutlierPolicy, compareBatchResponseTimes, compareResponseTimes, determineThreeWayWinner, determineWinner } from '../utils/statistics';
+import { buildRunSchedule } from '../utils/executionOrder';
 import { makeAuthenticatedRequest, isAuthError, getAuthErrorMessage } from '../services/authService';
-import { ServiceNowInstance, TestConfiguration } from '../types';
+import { ExecutionControl, RunCancelledError, delay } from './executionControl';
+import { profileToInstance, toResultInstance, matrixTestId } from '../utils/instanceProfiles';
+import { emptyRestTuningMatrix, expandRestTuning, restDisplayValueForShape, withRestTuning } from '../utils/restTuning';
+import { sweepLimits } from '../utils/limitSweep';
+import { defaultVariants, expandQuerySweep } from '../utils/querySweeps';
+import { ClientSpan, clearResourceEntries, findResourceEntries, findResourceEntry, reserveResourceTimingBuffer, toNetworkTiming } from '../utils/networkTiming';
+import { measurePayload, sumPayloadSizes } from '../utils/payloadSize';
+import { TRANSACTION_LOOKUP_CHUNK, buildTransactionLogUrl, newCorrelationId, parseTransactionLog, withCorrelationId } from '../utils/serverTiming';
+import { MAX_TRAVERSAL_PAGES, TraversalLog, comparePaginationTraversals, offsetOfEndpoint, parseLinkHeader, recordSysId, toInstanceEndpoint } from '../utils/pagination';
+import { AggregateSpec, ApiSide, BatchResponseBody, ComparisonStatistics, CustomRequest, DataComparisonResult, DataVisibility, DepthSweepSpec, ExecutionOrderRecord, FieldSweepSpec, InstanceProfile, LimitSweepScale, MatrixInstanceResult, GraphQLValueShape, MeasurementSettings, PaginationComparison, PaginationSpec, PayloadSizes, PerformanceMetrics, QuerySweepStep, RestTuningMatrix, RestTuningOptions, ServerTiming, ServiceNowInstance, TestConfiguration, TestResult, TestStatus, TestWinner, ValidationError } from '../types';
 
 export interface TestExecutionResult {
   success: boolean;
   error?: string;
+  // Stopped through the execution control; results up to that point were kept
+  cancelled?: boolean;
+}
+
+export interface MatrixExecutionResult extends TestExecutionResult {
+  instances: MatrixInstanceResult[];
+}
+
+export type TestCategoryKey = keyof TestConfiguration;
+
+// Sends one benchmark API call; the browser app goes through the shared auth service
+export type ApiRequestFn = (endpoint: string, options: RequestInit, instance: ServiceNowInstance) => Promise<Response>;
+
+// Receives the context actions a run produces
+export type ExecutionDispatch = React.Dispatch<{ type: string; payload?: any }>;
+
+export interface TestExecutionOptions {
+  request?: ApiRequestFn;
+  control?: ExecutionControl;
+  // Keep the records and fields each API returned, to compare users
+  captureVisibility?: boolean;
+  // Read the server-side timing of every measured request from syslog_transaction (off unless true)
+  serverTiming?: boolean;
+}
+
+// Execution order of the benchmark categories; custom requests run last
+export const testCategories: Array<{ key: TestCategoryKey; title: string }> = [
+  { key: 'dotWalkingTests', title: '🚀 Dot-Walking Performance' },
+  { key: 'multiTableTests', title: '📊 Multi-Table Queries' },
+  { key: 'schemaTailoringTests', title: '📱 Schema Tailoring' },
+  { key: 'performanceScaleTests', title: '⚡ Performance at Scale' },
+  { key: 'realWorldScenarios', title: '🌟 Real-World Scenarios' },
+  { key: 'aggregateTests', title: '🧮 Aggregate Queries' },
+  { key: 'paginationTests', title: '📄 Pagination' },
+  { key: 'customRequests', title: '🛠️ Custom Requests' },
+];
+
+// Used for every category without its own settings; the exact U test needs at least 4 vs 4
+// samples to reach significance at 0.05 (p ≈ 0.029), and 5 vs 5 leaves some margin (p ≈ 0.008)
+export const defaultMeasurementSettings: MeasurementSettings = {
+  warmupRuns: 1,
+  iterations: 5,
+  cooldownMs: 100,
+  outlierPolicy: 'none',
+  executionOrder: 'restFirst',
+};
+
+// Categories, variants and limits selected when nothing has been configured yet
+export const defaultTestConfiguration: TestConfiguration = {
+  dotWalkingTests: {
+    enabled: true,
+    parameters: {
+      table: 'incident',
+      recordLimit: 50,
+    },
+    selectedVariants: undefined,
+    selectedLimits: undefined,
+  },
+  multiTableTests: {
+    enabled: false,
+    parameters: {
+      recordLimit: 25,
+      parallelRest: false,
+      maxConcurrency: 4,
+      batchApi: true,
+    },
+    selectedVariants: undefined,
+    selectedLimits: undefined,
+  },
+  schemaTailoringTests: {
+    enabled: false,
+    parameters: {
+      recordLimit: 100,
+    },
+    selectedVariants: undefined,
+    selectedLimits: undefined,
+  },
+  performanceScaleTests: {
+    enabled: false,
+    parameters: {
+      recordLimit: 500,
+    },
+    selectedVariants: undefined,
+    selectedLimits: undefined,
+  },
+  realWorldScenarios: {
+    enabled: false,
+    parameters: {
+      recordLimit: 5,
+    },
+    selectedVariants: undefined,
+  },
+  aggregateTests: {
+    enabled: false,
+    parameters: {},
+    selectedVariants: undefined,
+  },
+  paginationTests: {
+    enabled: false,
+    parameters: {
+      recordLimit: 500,
+    },
+    selectedVariants: undefined,
+  },
+  customRequests: {
+    enabled: false,
+    parameters: {
+      recordLimit: 25,
+    },
+    selectedVariants: undefined,
+    selectedTags: undefined,
+    selectedLimits: undefined,
+  },
+};
+
+interface RestCallSpec {
+  table: string;
+  fields: string[];
+  filter?: string;
+}
+
+// Loose view over the heterogeneous variant shapes in testSpecs
+interface VariantSpec {
+  table?: string;
+  recordLimits?: number[];
+  tests?: ScenarioSpec[];
+  scenarios?: ScenarioSpec[];
+  fieldSweep?: FieldSweepSpec;
+  depthSweep?: DepthSweepSpec;
+}
+
+interface ScenarioSpec {
+  name: string;
+  table?: string;
+  filter?: string;
+  restFields?: string[];
+  graphqlFields?: Record<string, unknown>;
+  restCalls?: RestCallSpec[];
+  aggregate?: AggregateSpec;
+  pagination?: PaginationSpec;
+  querySweep?: QuerySweepStep;
+}
+
+interface PlannedTestBase {
+  id: string;
+  testType: string;
+  category: TestCategoryKey;
+  measurement: MeasurementSettings;
+  // Set when the limit was generated by a limit sweep
+  sweepScale?: LimitSweepScale;
+}
+
+export interface SingleTablePlannedTest extends PlannedTestBase {
+  kind: 'single';
+  limit: number;
+  table: string;
+  restParams: Parameters<typeof buildRestUrl>[0];
+  graphqlParams: Parameters<typeof buildGraphQLQuery>[0];
+  comparisonFields: string[];
+  restTuning?: RestTuningOptions;
+  graphqlShape?: GraphQLValueShape;
+  // Set on scenarios generated by a field-count or dot-walk-depth sweep
+  querySweep?: QuerySweepStep;
+}
+
+export interface MultiTablePlannedTest extends PlannedTestBase {
+  kind: 'multi';
+  limit: number;
+  // REST calls in flight at once; 1 runs them sequentially
+  restConcurrency: number;
+  // Also time the calls bundled into one Batch API request
+  includeBatch: boolean;
+  scenario: {
+    name: string;
+    restCalls: RestCallSpec[];
+  };
+  restTuning?: RestTuningOptions;
+  graphqlShape?: GraphQLValueShape;
+}
+
+// /api/now/stats compared with a GlideRecord_Query _aggregate; aggregates have no record limit
+export interface AggregatePlannedTest extends PlannedTestBase {
+  kind: 'aggregate';
+  table: string;
+  filter?: string;
+  aggregate: AggregateSpec;
+}
+
+// Every page of a filtered result set through both APIs; the limit is the page size
+export interface PaginationPlannedTest extends PlannedTestBase {
+  kind: 'pagination';
+  limit: number;
+  table: string;
+  filter?: string;
+  restFields?: string[];
+  graphqlFields?: Record<string, unknown>;
+  comparisonFields: string[];
+  pagination: PaginationSpec;
+}
+
+// One REST vs GraphQL comparison resolved from the test configuration
+export type PlannedTest = SingleTablePlannedTest | MultiTablePlannedTest | AggregatePlannedTest | PaginationPlannedTest;
+
+interface TestOutcome {
+  restApi: TestResult['restApi'];
+  graphqlApi: TestResult['graphqlApi'];
+  dataComparison: DataComparisonResult;
+  restApiCall: TestStatus['restApiCall'];
+  graphqlApiCall: TestStatus['graphqlApiCall'];
+  // Successful response times only, used for the significance test
+  restSamples: number[];
+  graphqlSamples: number[];
+  executionOrder: ExecutionOrderRecord;
+  // Multi-table scenarios with the Batch API enabled
+  batchApi?: TestResult['batchApi'];
+  batchApiCall?: TestStatus['batchApiCall'];
+  batchDataComparison?: DataComparisonResult;
+  batchSamples?: number[];
+  visibility?: DataVisibility;
+  pagination?: PaginationComparison;
+}
+
+// One REST call, REST batch or GraphQL query
+interface CallSample {
+  responseTime: number;
+  payloadSize: number;
+  payloadSizes?: PayloadSizes;
+  success: boolean;
+  responseBody?: unknown;
+  // REST batches: individual call times added up
+  sequentialSum?: number;
+  headers?: Headers;
+  // Pagination scenarios: the pages behind a whole-traversal sample
+  traversal?: TraversalLog;
+  // Tags of every request behind the sample, for the transaction log lookup
+  correlationIds?: string[];
+}
+
+interface MeasuredCalls extends CallSample {
+  // Measured runs in order, failures included as 0
+  allResponseTimes: number[];
+  warmupResponseTimes: number[];
+  discardedResponseTimes: number[];
+  // Successful runs left after outlier rejection
+  samples: number[];
+  sequentialSum?: number;
+  // Requests of the measured runs, warm-ups excluded
+  correlationIds: string[];
+}
+
+// The Batch API only competes in multi-table scenarios
+interface ContenderRuns {
+  rest: () => Promise<CallSample>;
+  graphql: () => Promise<CallSample>;
+  batch?: () => Promise<CallSample>;
+}
+
+interface MeasuredContenders {
+  rest: MeasuredCalls;
+  graphql: MeasuredCalls;
+  batch?: MeasuredCalls;
+  executionOrder: ExecutionOrderRecord;
+}
+
+// Raw runs of one API while a test is being measured
+interface CollectedCalls {
+  warmup: number[];
+  times: number[];
+  successful: number[];
+  sequentialSums: number[];
+  correlationIds: string[];
+  last?: CallSample;
+  success: boolean;
+}
+
+const GRAPHQL_ENDPOINT = 'api/now/graphql';
+
+// Waits before each transaction log lookup; later ones only ask for the transactions not found yet
+const SERVER_TIMING_RETRIES = [0, 1000, 3000];
+
+// Runs the tasks with at most `limit` in flight; results keep the task order
+async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function formatValidationErrors(errors: ValidationError[]): string {
+  return errors.map(e => `${e.field}: ${e.message}`).join(', ');
+}
+
+// Defaults, then the category settings, then the overrides; counts are clamped to sane values
+export function resolveMeasurementSettings(...layers: Array<Partial<MeasurementSettings> | undefined>): MeasurementSettings {
+  const settings = Object.assign({}, defaultMeasurementSettings, ...layers.filter(Boolean)) as MeasurementSettings;
+  return {
+    warmupRuns: Math.max(0, Math.floor(settings.warmupRuns)),
+    iterations: Math.max(1, Math.floor(settings.iterations)),
+    cooldownMs: Math.max(0, settings.cooldownMs),
+    outlierPolicy: settings.outlierPolicy,
+    executionOrder: settings.executionOrder,
+    orderSeed: settings.orderSeed === undefined ? undefined : Math.floor(Math.abs(settings.orderSeed)) >>> 0,
+  };
+}
+
+function resolveRestConcurrency(parameters: TestConfiguration['multiTableTests']['parameters']): number {
+  if (!parameters.parallelRest) return 1;
+  const maxConcurrency = parameters.maxConcurrency ?? defaultTestConfiguration.multiTableTests.parameters.maxConcurrency;
+  return Math.max(1, Math.floor(maxConcurrency));
+}
+
+function planCustomRequests(
+  categoryConfig: TestConfiguration['customRequests'],
+  customRequests: CustomRequest[]
+): PlannedTest[] {
+  const plan: PlannedTest[] = [];
+  const selectedIds = categoryConfig.selectedVariants;
+  const selectedTags = categoryConfig.selectedTags;
+
+  const requests = customRequests.filter(request =>
+    (!selectedIds || selectedIds.includes(request.id)) &&
+    (!selectedTags || selectedTags.length === 0 || (request.tags || []).some(tag => selectedTags.includes(tag)))
+  );
+
+  for (const request of requests) {
+    const { limitSweep } = categoryConfig;
+    const limits = limitSweep ? sweepLimits(limitSweep) : categoryConfig.selectedLimits || [request.restConfig.limit || categoryConfig.parameters.recordLimit];
+
+    for (const limit of limits) {
+      const { restParams, graphqlParams } = getCustomRequestQueryParams(request, limit);
+      plan.push({
+        kind: 'single',
+        id: `customRequests-${request.id}-${limit}`,
+        testType: `customRequests-${request.name}-${limit}`,
+        category: 'customRequests',
+        limit,
+        measurement: resolveMeasurementSettings(categoryConfig.measurement, request.measurement),
+        sweepScale: limitSweep?.scale,
+        table: request.table,
+        restParams,
+        graphqlParams,
+        comparisonFields: request.restConfig.fields,
+      });
+    }
+  }
+
+  return plan;
+}
+
+// Single and multi-table tests run once per combination of the REST tuning matrix. A GraphQL value
+// shape pins the REST display value to the one returning the same data
+function applyRestTuning(tests: PlannedTest[], matrix: RestTuningMatrix | undefined, graphqlShape: GraphQLValueShape | undefined): PlannedTest[] {
+  const tunings = graphqlShape
+    ? expandRestTuning({ ...(matrix || emptyRestTuningMatrix), displayValue: [restDisplayValueForShape[graphqlShape]] })
+    : expandRestTuning(matrix);
+  if (tunings.length === 0) return tests;
+
+  return tests.flatMap((test): PlannedTest[] => {
+    if (test.kind === 'aggregate' || test.kind === 'pagination') return [test];
+    const shaped = (id: string) => (graphqlShape ? `${id}-gql_${graphqlShape}` : id);
+    return tunings.map(restTuning => {
+      const tuned = {
+        id: withRestTuning(shaped(test.id), restTuning),
+        testType: withRestTuning(shaped(test.testType), restTuning),
+        restTuning,
+        graphqlShape,
+      };
+      return test.kind === 'single'
+        ? { ...test, ...tuned, restParams: { ...test.restParams, tuning: restTuning }, graphqlParams: { ...test.graphqlParams, shape: graphqlShape } }
+        : { ...test, ...tuned };
+    });
+  });
 }
 
 export class TestExecutionService {
+  // Flatten the enabled categories, variants, scenarios and limits into the list of tests to run
+  static buildTestPlan(testConfiguration: TestConfiguration, customRequests: CustomRequest[] = []): PlannedTest[] {
+    const plan: PlannedTest[] = [];
+
+    for (const category of testCategories) {
+      const categoryConfig = testConfiguration[category.key];
+      if (!categoryConfig || !categoryConfig.enabled) continue;
+
+      if (category.key === 'customRequests') {
+        const { restTuning, graphqlShape } = testConfiguration.customRequests;
+        plan.push(...applyRestTuning(planCustomRequests(testConfiguration.customRequests, customRequests), restTuning, graphqlShape));
+        continue;
+      }
+
+      const categorySpecs = testSpecs[category.key] as unknown as Record<string, VariantSpec>;
+      // A limit sweep replaces the selected limits
+      const limitSweep = 'limitSweep' in categoryConfig ? categoryConfig.limitSweep : undefined;
+      const selectedLimits = limitSweep ? sweepLimits(limitSweep) : 'selectedLimits' in categoryConfig ? categoryConfig.selectedLimits : undefined;
+      const sweepScale = limitSweep?.scale;
+      const variants = categoryConfig.selectedVariants || defaultVariants(categorySpecs);
+      const measurement = resolveMeasurementSettings(categoryConfig.measurement);
+      const restConcurrency = category.key === 'multiTableTests' ? resolveRestConcurrency(testConfiguration.multiTableTests.parameters) : 1;
+      const includeBatch = category.key === 'multiTableTests' && testConfiguration.multiTableTests.parameters.batchApi !== false;
+      const categoryPlan: PlannedTest[] = [];
+
+      for (const variant of variants) {
+        const variantSpec = categorySpecs[variant];
+        if (!variantSpec) continue;
+
+        // Sweep variants generate their scenarios instead of listing them
+        const scenarios: ScenarioSpec[] = variantSpec.tests || variantSpec.scenarios || expandQuerySweep(variantSpec);
+        const limits = selectedLimits || variantSpec.recordLimits || [categoryConfig.parameters.recordLimit];
+
+        for (const scenario of scenarios) {
+          const table = scenario.table || variantSpec.table;
+
+          if (scenario.aggregate) {
+            const id = `${category.key}-${variant}-${scenario.name}`;
+            categoryPlan.push({
+              kind: 'aggregate',
+              id,
+              testType: id,
+              category: category.key,
+              measurement,
+              table,
+              filter: scenario.filter,
+              aggregate: scenario.aggregate,
+            });
+            continue;
+          }
+
+          for (const limit of limits) {
+            const id = `${category.key}-${variant}-${scenario.name}-${limit}`;
+
+            if (scenario.pagination) {
+              categoryPlan.push({
+                kind: 'pagination',
+                id,
+                testType: id,
+                category: category.key,
+                limit,
+                measurement,
+                sweepScale,
+                table,
+                filter: scenario.filter,
+                restFields: scenario.restFields,
+                graphqlFields: scenario.graphqlFields,
+                comparisonFields: scenario.restFields || [],
+                pagination: scenario.pagination,
+              });
+              continue;
+            }
+
+            if (scenario.restCalls && scenario.restCalls.length > 0) {
+              categoryPlan.push({
+                kind: 'multi',
+                id,
+                testType: id,
+                category: category.key,
+                limit,
+                measurement,
+                sweepScale,
+                restConcurrency,
+                includeBatch,
+                scenario: { name: scenario.name, restCalls: scenario.restCalls },
+              });
+              continue;
+            }
+
+            // Single table scenario - use scenario.table or fallback to the variant table
+            if (!table) {
+              console.error(`No table specified for scenario ${scenario.name} in ${variant}`);
+              continue;
+            }
+
+            categoryPlan.push({
+              kind: 'single',
+              id,
+              testType: id,
+              category: category.key,
+              limit,
+              measurement,
+              sweepScale,
+              table,
+              restParams: { table, fields: scenario.restFields, limit },
+              graphqlParams: { table, fields: scenario.graphqlFields, limit },
+              comparisonFields: scenario.restFields || [],
+              querySweep: scenario.querySweep,
+            });
+          }
+        }
+      }
+
+      // Aggregates and pagination traversals have neither option and are left as planned
+      const { restTuning, graphqlShape } = categoryConfig as { restTuning?: RestTuningMatrix; graphqlShape?: GraphQLValueShape };
+      plan.push(...applyRestTuning(categoryPlan, restTuning, graphqlShape));
+    }
+
+    return plan;
+  }
+
   static async executeTests(
     instance: ServiceNowInstance,
     testConfiguration: TestConfiguration,
-    dispatch: React.Dispatch<{ type: string; payload?: any }>
+    dispatch: ExecutionDispatch,
+    customRequests: CustomRequest[] = [],
+    options: TestExecutionOptions = {}
   ): Promise<TestExecutionResult> {
     if (!instance.connected) {
       console.log('ServiceNow instance not connected');
       return { success: false, error: 'Instance not connected' };
     }
 
+    const request = options.request || makeAuthenticatedRequest;
+    const control = options.control;
+    const signal = control?.signal;
+
     dispatch({ type: 'SET_RUNNING', payload: true });
     dispatch({ type: 'RESET_TESTS' });
 
+    // Timer spans of the current test's requests, matched with their resource timing entries after the test
+    const clientSpans = new Map<string, ClientSpan>();
+    reserveResourceTimingBuffer();
+    // Set once the transaction log refused a lookup
+    let serverTimingDenied: string | undefined;
+
     try {
-      // Helper to run multiple measurements for more accurate results
-      async function measureApiCall(
-        endpoint: string, 
-        options: RequestInit, 
-        iterations: number = 3,
-        testId?: string,
-        testDisplayName?: string,
-        isRestCall?: boolean,
-        baseProgress?: number
-      ): Promise<{ responseTime: number; payloadSize: number; success: boolean; responseBody?: unknown; allResponseTimes: number[] }> {
-        const times: number[] = [];
-        let finalResponseBody: unknown;
-        let finalPayloadSize = 0;
-        let success = true;
-
-        for (let i = 0; i < iterations; i++) {
-          // Update progress before starting each iteration
-          if (testId && testDisplayName) {
-            const iterationProgress = ((i + 1) / iterations) * 50; // Each API type gets 50% of progress
-            const currentProgress = (baseProgress || 0) + iterationProgress;
-            const finalProgress = Math.min(currentProgress, 100);
-            
-            dispatch({
-              type: 'UPDATE_TEST_STATUS',
-              payload: {
-                id: testId,
-                testType: testDisplayName,
-                status: 'running',
-                progress: finalProgress,
-                startTime: testStartTime,
-              },
-            });
-            
-            // Allow UI to update before starting the API call
-            await new Promise(resolve => setTimeout(resolve, 300));
+      // One timed call; failures are reported in the sample instead of thrown
+      async function timeApiCall(endpoint: string, options: RequestInit): Promise<CallSample> {
+        const correlationId = newCorrelationId();
+        try {
+          const start = performance.now();
+          const response = await request(withCorrelationId(endpoint, correlationId), { ...options, signal }, instance);
+          // An error response (e.g. 400 Invalid table) is a failed sample, not a payload to compare
+          if (!response.ok) {
+            return { responseTime: 0, payloadSize: 0, success: false, correlationIds: [correlationId] };
           }
+          const body = await response.clone().text();
+          const responseBody = JSON.parse(body);
+          const end = performance.now();
+          const responseTime = end - start;
+          clientSpans.set(correlationId, { start, end });
 
-          try {
-            const start = performance.now();
-            const response = await makeAuthenticatedRequest(endpoint, options, instance);
-            const responseBody = await response.clone().json();
-            const responseTime = performance.now() - start;
-            
-            times.push(responseTime);
-            if (i === iterations - 1) { // Keep last response for data comparison
-              finalResponseBody = responseBody;
-              finalPayloadSize = JSON.stringify(responseBody).length;
-              console.log('🔍 measureApiCall - Final iteration payload size:', finalPayloadSize, 'for', testId);
-            }
-            
-            // Small delay between measurements to reduce caching effects
-            if (i < iterations - 1) {
-              await new Promise(resolve => setTimeout(resolve, 100));
-            }
-          } catch (e) {
-            success = false;
-            times.push(0);
-            
-            // Log auth errors for debugging
-            if (isAuthError(e)) {
-              console.error('Authentication error:', getAuthErrorMessage(e));
+          const payloadSizes = measurePayload(body, response.headers);
+          if (payloadSizes.transferred === undefined) {
+            // Chunked responses carry no Content-Length; the resource entry is queued just after the body is read
+            await delay(0, signal);
+            const entry = findResourceEntry(correlationId);
+            // Body bytes only, like Content-Length; transferSize would add the response headers
+            payloadSizes.transferred = entry?.encodedBodySize || undefined;
+          }
+
+          return { responseTime, payloadSize: JSON.stringify(responseBody).length, payloadSizes, success: true, responseBody, headers: response.headers, correlationIds: [correlationId] };
+        } catch (e) {
+          // Log auth errors for debugging
+          if (!signal?.aborted && isAuthError(e)) {
+            console.error('Authentication error:', getAuthErrorMessage(e));
+          }
+          return { responseTime: 0, payloadSize: 0, success: false, correlationIds: [correlationId] };
+        }
+      }
+
+      // Network phases of the tagged requests that completed; the entries and spans are cleared for the next test
+      function collectNetworkTiming(calls: Array<TestStatus['restApiCall']>): void {
+        const entries = findResourceEntries();
+        for (const call of calls) {
+          if (!call?.correlationIds) continue;
+          call.networkTiming = call.correlationIds
+            .filter(id => entries.has(id) && clientSpans.has(id))
+            .map(id => toNetworkTiming(id, entries.get(id)!, clientSpans.get(id)!));
+        }
+        clearResourceEntries();
+        clientSpans.clear();
+      }
+
+      // Server-side timing of the tagged requests; the log is written as transactions end, so requests missing from a
+      // partly logged chunk are looked up again. An empty chunk is not retried: the rows are not readable or never match
+      async function fetchServerTiming(call: TestStatus['restApiCall']): Promise<void> {
+        const correlationIds = call?.correlationIds || [];
+        if (correlationIds.length === 0) return;
+        if (serverTimingDenied) {
+          call.serverTimingError = serverTimingDenied;
+          call.serverTiming = [];
+          return;
+        }
+
+        const found = new Map<string, ServerTiming>();
+        try {
+          let pending = correlationIds;
+          for (const wait of SERVER_TIMING_RETRIES) {
+            if (pending.length === 0) break;
+            if (wait > 0) await delay(wait, signal);
+
+            const retry: string[] = [];
+            for (let i = 0; i < pending.length; i += TRANSACTION_LOOKUP_CHUNK) {
+              const chunk = pending.slice(i, i + TRANSACTION_LOOKUP_CHUNK);
+              const response = await request(buildTransactionLogUrl(chunk), { method: 'GET', headers: { 'Accept': 'application/json' }, signal }, instance);
+              if (response.status === 403) {
+                // Not readable for this user; the remaining tests of the run skip the lookup
+                serverTimingDenied = 'syslog_transaction returned 403';
+                throw new Error(serverTimingDenied);
+              }
+              if (!response.ok) throw new Error(`syslog_transaction returned ${response.status}`);
+              const timings = parseTransactionLog(await response.json(), chunk);
+              timings.forEach((timing, id) => found.set(id, timing));
+              if (timings.size > 0) retry.push(...chunk.filter(id => !timings.has(id)));
             }
+            pending = retry;
           }
+        } catch (e) {
+          control?.throwIfCancelled();
+          call.serverTimingError = e instanceof Error ? e.message : String(e);
         }
+        call.serverTiming = correlationIds.filter(id => found.has(id)).map(id => found.get(id)!);
+      }
 
-        // Use median time for more stable results (less affected by outliers)
-        const sortedTimes = [...times].sort((a, b) => a - b);
-        const medianTime = sortedTimes[Math.floor(sortedTimes.length / 2)];
+      // Warm-up and measured runs of every API in the configured execution order, separated by the cool-down;
+      // outliers are rejected from the successful samples of each API
+      async function measureContenders(
+        runs: ContenderRuns,
+        settings: MeasurementSettings,
+        test: PlannedTest,
+        testStartTime: Date
+      ): Promise<MeasuredContenders> {
+        const sides = (['rest', 'graphql', 'batch'] as ApiSide[]).filter(side => runs[side]);
+        const { schedule, record } = buildRunSchedule(settings.executionOrder, sides, settings.warmupRuns, settings.iterations, settings.orderSeed);
+        const collected = {} as Record<ApiSide, CollectedCalls>;
+        for (const side of sides) {
+          collected[side] = { warmup: [], times: [], successful: [], sequentialSums: [], correlationIds: [], success: true };
+        }
 
-        console.log('🔍 measureApiCall result:', {
-          responseTime: medianTime,
-          payloadSize: finalPayloadSize,
-          success,
-          allResponseTimes: times
+        for (let i = 0; i < schedule.length; i++) {
+          const { side, warmup } = schedule[i];
+          control?.throwIfCancelled();
+
+          // Update progress before starting each run
+          dispatch({
+            type: 'UPDATE_TEST_STATUS',
+            payload: {
+              id: test.id,
+              testType: test.testType,
+              status: 'running',
+              progress: Math.min(((i + 1) / schedule.length) * 100, 100),
+              startTime: testStartTime,
+            },
+          });
+
+          // Allow UI to update before starting the API call
+          await delay(300, signal);
+
+          if (i > 0 && settings.cooldownMs > 0) {
+            await delay(settings.cooldownMs, signal);
+          }
+
+          const sample = await runs[side]();
+          // An aborted call is not a failure of the API
+          control?.throwIfCancelled();
+          const calls = collected[side];
+          if (warmup) {
+            calls.warmup.push(sample.responseTime);
+            continue;
+          }
+
+          calls.times.push(sample.responseTime);
+          calls.correlationIds.push(...(sample.correlationIds || []));
+          if (sample.success) {
+            calls.successful.push(sample.responseTime);
+            if (sample.sequentialSum !== undefined) calls.sequentialSums.push(sample.sequentialSum);
+            calls.last = sample; // Keep last response for data comparison
+          } else {
+            calls.success = false;
+          }
+        }
+
+        const summarize = (calls: CollectedCalls): MeasuredCalls => {
+          const { kept, discarded } = applyOutlierPolicy(calls.successful, settings.outlierPolicy);
+
+          // Use median time for more stable results (less affected by outliers)
+          const medianTime = median(kept.length > 0 ? kept : calls.times);
+
+          return {
+            responseTime: medianTime,
+            payloadSize: calls.last?.payloadSize ?? 0,
+            payloadSizes: calls.last?.payloadSizes,
+            success: calls.success,
+            responseBody: calls.last?.responseBody,
+            allResponseTimes: calls.times,
+            warmupResponseTimes: calls.warmup,
+            discardedResponseTimes: discarded,
+            samples: kept,
+            sequentialSum: median(calls.sequentialSums),
+            traversal: calls.last?.traversal,
+            correlationIds: calls.correlationIds
+          };
+        };
+
+        return {
+          rest: summarize(collected.rest),
+          graphql: summarize(collected.graphql),
+          batch: collected.batch && summarize(collected.batch),
+          executionOrder: record
+        };
+      }
+
+      function toApiResult(measured: MeasuredCalls, requestCount: number): TestResult['restApi'] {
+        return {
+          responseTime: measured.responseTime,
+          payloadSize: measured.payloadSize,
+          payloadSizes: measured.payloadSizes,
+          requestCount,
+          success: measured.success,
+          allResponseTimes: measured.allResponseTimes,
+          warmupResponseTimes: measured.warmupResponseTimes,
+          discardedResponseTimes: measured.discardedResponseTimes
+        };
+      }
+
+      // Single table: REST and GraphQL each fetch the same records once per configured iteration
+      async function runSingleTableTest(test: SingleTablePlannedTest, testStartTime: Date): Promise<TestOutcome> {
+        const restUrl = buildRestUrl(test.restParams);
+        if (restUrl.errors.length > 0) {
+          throw new Error(`REST URL validation errors: ${formatValidationErrors(restUrl.errors)}`);
+        }
+
+        const graphqlQuery = buildGraphQLQuery(test.graphqlParams);
+        if (graphqlQuery.errors.length > 0) {
+          throw new Error(`GraphQL query validation errors: ${formatValidationErrors(graphqlQuery.errors)}`);
+        }
+
+        const restOptions = { method: 'GET', headers: { 'Accept': 'application/json' } };
+        const graphqlOptions = {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query: graphqlQuery.query })
+        };
+        const { rest: restResult, graphql: graphqlResult, executionOrder } = await measureContenders(
+          {
+            rest: () => timeApiCall(restUrl.url, restOptions),
+            graphql: () => timeApiCall(GRAPHQL_ENDPOINT, graphqlOptions)
+          },
+          test.measurement,
+          test,
+          testStartTime
+        );
+
+        const dataComparison = compareApiResponses(
+          restResult.responseBody,
+          graphqlResult.responseBody,
+          test.table,
+          test.comparisonFields,
+          test.restTuning
+        );
+
+        return {
+          restApi: toApiResult(restResult, 1),
+          graphqlApi: toApiResult(graphqlResult, 1),
+          dataComparison,
+          visibility: options.captureVisibility
+            ? summarizeVisibility(restResult.responseBody, graphqlResult.responseBody, test.table, test.comparisonFields, dataComparison)
+            : undefined,
+          restApiCall: {
+            url: restUrl.url,
+            method: 'GET',
+            responseTime: restResult.responseTime,
+            payloadSize: restResult.payloadSize,
+            success: restResult.success,
+            correlationIds: restResult.correlationIds,
+            responseBody: restResult.responseBody
+          },
+          graphqlApiCall: {
+            url: GRAPHQL_ENDPOINT,
+            method: 'POST',
+            query: graphqlQuery.query,
+            responseTime: graphqlResult.responseTime,
+            payloadSize: graphqlResult.payloadSize,
+            success: graphqlResult.success,
+            correlationIds: graphqlResult.correlationIds,
+            requestBody: graphqlOptions.body,
+            responseBody: graphqlResult.responseBody
+          },
+          restSamples: restResult.samples,
+          graphqlSamples: graphqlResult.samples,
+          executionOrder
+        };
+      }
+
+      // Aggregates: the stats API and the GraphQL aggregate compute the same counts and metrics server-side
+      async function runAggregateTest(test: AggregatePlannedTest, testStartTime: Date): Promise<TestOutcome> {
+        const statsUrl = buildStatsUrl({ table: test.table, aggregate: test.aggregate, filter: test.filter });
+        if (statsUrl.errors.length > 0) {
+          throw new Error(`REST URL validation errors: ${formatValidationErrors(statsUrl.errors)}`);
+        }
+
+        const graphqlQuery = buildAggregateGraphQLQuery({ table: test.table, aggregate: test.aggregate, filter: test.filter });
+        if (graphqlQuery.errors.length > 0) {
+          throw new Error(`GraphQL query validation errors: ${formatValidationErrors(graphqlQuery.errors)}`);
+        }
+
+        const restOptions = { method: 'GET', headers: { 'Accept': 'application/json' } };
+        const graphqlOptions = {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query: graphqlQuery.query })
+        };
+        const { rest: restResult, graphql: graphqlResult, executionOrder } = await measureContenders(
+          {
+            rest: () => timeApiCall(statsUrl.url, restOptions),
+            graphql: () => timeApiCall(GRAPHQL_ENDPOINT, graphqlOptions)
+          },
+          test.measurement,
+          test,
+          testStartTime
+        );
+
+        return {
+          restApi: toApiResult(restResult, 1),
+          graphqlApi: toApiResult(graphqlResult, 1),
+          dataComparison: compareAggregateResponses(restResult.responseBody, graphqlResult.responseBody, test.table, test.aggregate),
+          restApiCall: {
+            url: statsUrl.url,
+            method: 'GET',
+            responseTime: restResult.responseTime,
+            payloadSize: restResult.payloadSize,
+            success: restResult.success,
+            correlationIds: restResult.correlationIds,
+            responseBody: restResult.responseBody
+          },
+          graphqlApiCall: {
+            url: GRAPHQL_ENDPOINT,
+            method: 'POST',
+            query: graphqlQuery.query,
+            responseTime: graphqlResult.responseTime,
+            payloadSize: graphqlResult.payloadSize,
+            success: graphqlResult.success,
+            correlationIds: graphqlResult.correlationIds,
+            requestBody: graphqlOptions.body,
+            responseBody: graphqlResult.responseBody
+          },
+          restSamples: restResult.samples,
+          graphqlSamples: graphqlResult.samples,
+          executionOrder
+        };
+      }
+
+      // Pagination: a measured run walks every page of the result set, so each sample is a whole traversal
+      async function runPaginationTest(test: PaginationPlannedTest, testStartTime: Date): Promise<TestOutcome> {
+        // Pages are keyed by sys_id, so REST has to return it and both APIs page in the same order
+        const restFields = test.restFields && !test.restFields.includes('sys_id') ? ['sys_id', ...test.restFields] : test.restFields;
+        const restParams = { table: test.table, fields: restFields, limit: test.limit, filter: test.filter, sort: 'sys_id' };
+        const graphqlParams = { table: test.table, fields: test.graphqlFields, limit: test.limit, filter: test.filter, rowCount: true };
+
+        const restUrl = buildRestUrl(restParams);
+        if (restUrl.errors.length > 0) {
+          throw new Error(`REST URL validation errors: ${formatValidationErrors(restUrl.errors)}`);
+        }
+
+        const graphqlQuery = buildGraphQLQuery(graphqlParams);
+        if (graphqlQuery.errors.length > 0) {
+          throw new Error(`GraphQL query validation errors: ${formatValidationErrors(graphqlQuery.errors)}`);
+        }
+
+        const maxRecords = test.pagination.maxRecords ?? Infinity;
+        const restOptions = { method: 'GET', headers: { 'Accept': 'application/json' } };
+        const graphqlOptions = (query: string) => ({
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query })
         });
+        const failed: CallSample = { responseTime: 0, payloadSize: 0, success: false };
+
+        // Follows rel="next" of the Link header; without the header, pages continue until a short one
+        async function traverseRest(): Promise<CallSample> {
+          const traversal: TraversalLog = { pageSize: test.limit, pages: [], totalTime: 0, ids: [] };
+          const records: Record<string, unknown>[] = [];
+          const correlationIds: string[] = [];
+          const pageSizes: Array<PayloadSizes | undefined> = [];
+          let endpoint: string | undefined = restUrl.url;
+          const start = performance.now();
+
+          while (endpoint && traversal.pages.length < MAX_TRAVERSAL_PAGES) {
+            control?.throwIfCancelled();
+            const offset = offsetOfEndpoint(endpoint);
+            const page = await timeApiCall(endpoint, restOptions);
+            correlationIds.push(...(page.correlationIds || []));
+            if (!page.success) return { ...failed, correlationIds };
+
+            const pageRecords = (page.responseBody as { result?: Record<string, unknown>[] })?.result || [];
+            const reportedTotal = parseInt(page.headers?.get('X-Total-Count') || '', 10);
+            if (Number.isFinite(reportedTotal)) traversal.reportedTotal = reportedTotal;
+            traversal.pages.push({ offset, responseTime: page.responseTime, payloadSize: page.payloadSize, recordCount: pageRecords.length });
+            pageSizes.push(page.payloadSizes);
+            records.push(...pageRecords);
+            if (pageRecords.length === 0 || records.length >= maxRecords) break;
+
+            const link = page.headers?.get('Link');
+            const next = link ? parseLinkHeader(link).next : undefined;
+            if (link) {
+              endpoint = next && toInstanceEndpoint(next);
+            } else {
+              endpoint = pageRecords.length < test.limit ? undefined : buildRestUrl({ ...restParams, offset: offset + pageRecords.length }).url;
+            }
+          }
+
+          traversal.totalTime = performance.now() - start;
+          traversal.ids = records.map(record => recordSysId(record) || '');
+          const payloadSize = traversal.pages.reduce((total, page) => total + page.payloadSize, 0);
+          return { responseTime: traversal.totalTime, payloadSize, payloadSizes: sumPayloadSizes(pageSizes), success: true, responseBody: { result: records }, traversal, correlationIds };
+        }
+
+        // Moves the pagination offset until _rowCount is reached or a page comes back short
+        async function traverseGraphql(): Promise<CallSample> {
+          const traversal: TraversalLog = { pageSize: test.limit, pages: [], totalTime: 0, ids: [] };
+          const records: Record<string, unknown>[] = [];
+          const correlationIds: string[] = [];
+          const pageSizes: Array<PayloadSizes | undefined> = [];
+          let offset = 0;
+          const start = performance.now();
+
+          while (traversal.pages.length < MAX_TRAVERSAL_PAGES) {
+            control?.throwIfCancelled();
+            const query = offset === 0 ? graphqlQuery.query : buildGraphQLQuery({ ...graphqlParams, after: String(offset) }).query;
+            const page = await timeApiCall(GRAPHQL_ENDPOINT, graphqlOptions(query));
+            correlationIds.push(...(page.correlationIds || []));
+            if (!page.success) return { ...failed, correlationIds };
+
+            const tableResult = (page.responseBody as {
+              data?: { GlideRecord_Query?: Record<string, { _rowCount?: number | string; _results?: Record<string, unknown>[] }> };
+            })?.data?.GlideRecord_Query?.[test.table];
+            const pageRecords = tableResult?._results || [];
+            const reportedTotal = Number(tableResult?._rowCount);
+            if (tableResult?._rowCount !== undefined && Number.isFinite(reportedTotal)) traversal.reportedTotal = reportedTotal;
+            traversal.pages.push({ offset, responseTime: page.responseTime, payloadSize: page.payloadSize, recordCount: pageRecords.length });
+            pageSizes.push(page.payloadSizes);
+            records.push(...pageRecords);
+            offset += pageRecords.length;
+
+            const reachedTotal = traversal.reportedTotal !== undefined && offset >= traversal.reportedTotal;
+            if (pageRecords.length < test.limit || records.length >= maxRecords || reachedTotal) break;
+          }
+
+          traversal.totalTime = performance.now() - start;
+          traversal.ids = records.map(record => recordSysId(record) || '');
+          const payloadSize = traversal.pages.reduce((total, page) => total + page.payloadSize, 0);
+          const responseBody = { data: { GlideRecord_Query: { [test.table]: { _results: records } } } };
+          return { responseTime: traversal.totalTime, payloadSize, payloadSizes: sumPayloadSizes(pageSizes), success: true, responseBody, traversal, correlationIds };
+        }
+
+        const { rest: restResult, graphql: graphqlResult, executionOrder } = await measureContenders(
+          { rest: traverseRest, graphql: traverseGraphql },
+          test.measurement,
+          test,
+          testStartTime
+        );
+
+        const pagination = restResult.traversal && graphqlResult.traversal
+          ? comparePaginationTraversals(restResult.traversal, graphqlResult.traversal, test.pagination.maxRecords)
+          : undefined;
 
         return {
-          responseTime: medianTime,
-          payloadSize: finalPayloadSize,
-          success,
-          responseBody: finalResponseBody,
-          allResponseTimes: times
+          restApi: toApiResult(restResult, restResult.traversal?.pages.length ?? 0),
+          graphqlApi: toApiResult(graphqlResult, graphqlResult.traversal?.pages.length ?? 0),
+          dataComparison: compareApiResponses(restResult.responseBody, graphqlResult.responseBody, test.table, test.comparisonFields),
+          restApiCall: {
+            url: restUrl.url,
+            method: 'GET',
+            responseTime: restResult.responseTime,
+            payloadSize: restResult.payloadSize,
+            success: restResult.success,
+            correlationIds: restResult.correlationIds,
+            responseBody: restResult.responseBody
+          },
+          graphqlApiCall: {
+            url: GRAPHQL_ENDPOINT,
+            method: 'POST',
+            query: graphqlQuery.query,
+            responseTime: graphqlResult.responseTime,
+            payloadSize: graphqlResult.payloadSize,
+            success: graphqlResult.success,
+            correlationIds: graphqlResult.correlationIds,
+            requestBody: graphqlOptions(graphqlQuery.query).body,
+            responseBody: graphqlResult.responseBody
+          },
+          restSamples: restResult.samples,
+          graphqlSamples: graphqlResult.samples,
+          executionOrder,
+          pagination
         };
       }
 
-      const testCategories = [
-        { key: 'dotWalkingTests', title: '🚀 Dot-Walking Performance' },
-        { key: 'multiTableTests', title: '📊 Multi-Table Queries' },
-        { key: 'schemaTailoringTests', title: '📱 Schema Tailoring' },
-        { key: 'performanceScaleTests', title: '⚡ Performance at Scale' },
-        { key: 'realWorldScenarios', title: '🌟 Real-World Scenarios' },
-      ];
+      // Multi-table: one REST call per table compared with a single GraphQL query and, optionally, one Batch API request
+      async function runMultiTableTest(test: MultiTablePlannedTest, testStartTime: Date): Promise<TestOutcome> {
+        const validation = validateMultiTableScenario(test.scenario);
+        if (!validation.valid) {
+          throw new Error(formatValidationErrors(validation.errors));
+        }
+
+        if (validation.warnings.length > 0) {
+          console.warn(`Multi-table scenario warnings for ${test.scenario.name}:`, validation.warnings);
+        }
+
+        const restCalls = test.scenario.restCalls;
+        const restUrls: string[] = [];
+
+        for (const call of restCalls) {
+          const restUrl = buildRestUrl({ table: call.table, fields: call.fields, filter: call.filter, limit: test.limit, tuning: test.restTuning });
+          if (restUrl.errors.length > 0) {
+            throw new Error(`REST URL validation errors: ${formatValidationErrors(restUrl.errors)}`);
+          }
+          restUrls.push(restUrl.url);
+        }
+
+        // Each REST sample is one full batch of calls, so it is comparable with a single GraphQL query.
+        // Sequential batches are timed as the sum of their calls, parallel ones by wall-clock
+        const restOptions = { method: 'GET', headers: { 'Accept': 'application/json' } };
+        const parallel = test.restConcurrency > 1;
+        const runRestBatch = async (): Promise<CallSample> => {
+          const batchStart = performance.now();
+          let responses: CallSample[];
+          if (parallel) {
+            responses = await runWithConcurrency(restUrls.map(url => () => timeApiCall(url, restOptions)), test.restConcurrency);
+          } else {
+            responses = [];
+            for (const url of restUrls) {
+              if (responses.length > 0 && test.measurement.cooldownMs > 0) {
+                await delay(test.measurement.cooldownMs, signal);
+              }
+              responses.push(await timeApiCall(url, restOptions));
+            }
+          }
+          const sequentialSum = responses.reduce((sum, r) => sum + r.responseTime, 0);
+
+          return {
+            responseTime: parallel ? performance.now() - batchStart : sequentialSum,
+            payloadSize: responses.reduce((sum, r) => sum + r.payloadSize, 0),
+            payloadSizes: sumPayloadSizes(responses.map(r => r.payloadSizes)),
+            success: responses.every(r => r.success),
+            responseBody: responses.map(r => r.responseBody),
+            sequentialSum,
+            correlationIds: responses.flatMap(r => r.correlationIds || [])
+          };
+        };
+
+        const graphqlQuery = buildMultiTableGraphQLQuery({ restCalls, limit: test.limit, orderBy: 'sys_id', shape: test.graphqlShape });
+        if (graphqlQuery.errors.length > 0) {
+          throw new Error(`GraphQL query build errors: ${formatValidationErrors(graphqlQuery.errors)}`);
+        }
+
+        const graphqlOptions = {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query: graphqlQuery.query })
+        };
+        // The Batch API bundles the same Table API calls into one request
+        let batchRequestBody: string | undefined;
+        let runBatch: (() => Promise<CallSample>) | undefined;
+        if (test.includeBatch) {
+          const batchRequest = buildBatchRequest({ restCalls, limit: test.limit, tuning: test.restTuning });
+          if (batchRequest.errors.length > 0) {
+            throw new Error(`Batch request build errors: ${formatValidationErrors(batchRequest.errors)}`);
+          }
 
-      const enabledTests = testCategories.filter(category => 
-        testConfiguration[category.key as keyof typeof testConfiguration].enabled
-      );
+          batchRequestBody = JSON.stringify(batchRequest.body);
+          const batchOptions = {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+            body: batchRequestBody
+          };
+          runBatch = async (): Promise<CallSample> => {
+            const sample = await timeApiCall(BATCH_ENDPOINT, batchOptions);
+            if (!sample.success) return sample;
+
+            const { bodies, failures } = parseBatchResponse(sample.responseBody as BatchResponseBody, restCalls.length);
+            if (failures.length > 0) {
+              console.warn(`Batch API failures for ${test.scenario.name}:`, failures);
+            }
+            return { ...sample, success: failures.length === 0, responseBody: bodies };
+          };
+        }
+
+        const { rest: restResult, graphql: graphqlResult, batch: batchResult, executionOrder } = await measureContenders(
+          { rest: runRestBatch, graphql: () => timeApiCall(GRAPHQL_ENDPOINT, graphqlOptions), batch: runBatch },
+          test.measurement,
+          test,
+          testStartTime
+        );
+
+        const restResponseBodies = (restResult.responseBody as unknown[] | undefined) || [];
+        const dataComparison = compareMultiTableApiResponses(
+          restResponseBodies,
+          graphqlResult.responseBody,
+          restCalls,
+          test.restTuning
+        );
+
+        return {
+          restApi: {
+            ...toApiResult(restResult, restCalls.length),
+            batchTiming: {
+              mode: parallel ? 'parallel' : 'sequential',
+              maxConcurrency: test.restConcurrency,
+              sequentialSum: restResult.sequentialSum ?? restResult.responseTime,
+              wallClock: restResult.responseTime
+            }
+          },
+          graphqlApi: toApiResult(graphqlResult, 1),
+          dataComparison,
+          restApiCall: {
+            url: `${restCalls.length} ${parallel ? `parallel (max ${test.restConcurrency}) ` : ''}REST calls to: ${restCalls.map(c => c.table).join(', ')}`,
+            method: 'GET',
+            responseTime: restResult.responseTime,
+            payloadSize: restResult.payloadSize,
+            success: restResult.success,
+            correlationIds: restResult.correlationIds,
+            requestBody: restUrls,
+            responseBody: restResponseBodies
+          },
+          graphqlApiCall: {
+            url: GRAPHQL_ENDPOINT,
+            method: 'POST',
+            query: graphqlQuery.query,
+            responseTime: graphqlResult.responseTime,
+            payloadSize: graphqlResult.payloadSize,
+            success: graphqlResult.success,
+            correlationIds: graphqlResult.correlationIds,
+            requestBody: graphqlOptions.body,
+            responseBody: graphqlResult.responseBody
+          },
+          batchApi: batchResult && toApiResult(batchResult, 1),
+          batchApiCall: batchResult && {
+            url: BATCH_ENDPOINT,
+            method: 'POST',
+            responseTime: batchResult.responseTime,
+            payloadSize: batchResult.payloadSize,
+            success: batchResult.success,
+            correlationIds: batchResult.correlationIds,
+            requestBody: batchRequestBody,
+            responseBody: batchResult.responseBody
+          },
+          batchDataComparison: batchResult && compareMultiTableApiResponses(
+            (batchResult.responseBody as unknown[] | undefined) || [],
+            graphqlResult.responseBody,
+            restCalls,
+            test.restTuning
+          ),
+          restSamples: restResult.samples,
+          graphqlSamples: graphqlResult.samples,
+          batchSamples: batchResult?.samples,
+          executionOrder
+        };
+      }
+
+      const plan = TestExecutionService.buildTestPlan(testConfiguration, customRequests);
 
       let totalTests = 0;
       let restWins = 0;
       let graphqlWins = 0;
+      let batchWins = 0;
       let totalRestResponseTime = 0;
       let totalGraphqlResponseTime = 0;
       let totalRestPayloadSize = 0;
       let totalGraphqlPayloadSize = 0;
+      let cancelled = false;
+
+      // Tests that never ran keep a cancelled status so the run shows where it stopped
+      const markCancelled = (tests: PlannedTest[]) => {
+        for (const test of tests) {
+          dispatch({
+            type: 'UPDATE_TEST_STATUS',
+            payload: { id: test.id, testType: test.testType, status: 'cancelled', progress: 0, endTime: new Date() },
+          });
+        }
+      };
 
-      // Process each enabled test category
-      for (const category of enabledTests) {
-        const categorySpecs = testSpecs[category.key as keyof typeof testSpecs];
-        const categoryConfig = testConfiguration[category.key as keyof typeof testConfiguration];
+      for (let index = 0; index < plan.length; index++) {
+        const test = plan[index];
 
-        if (!categorySpecs || !categoryConfig.enabled) continue;
+        if (control?.isPauseRequested) {
+          dispatch({ type: 'SET_PAUSED', payload: true });
+          await control.waitWhilePaused();
+          dispatch({ type: 'SET_PAUSED', payload: false });
+        }
 
-        // Get variants and limits to test
-        const variants = categoryConfig.selectedVariants || Object.keys(categorySpecs);
-        const limits = categoryConfig.selectedLimits || [categoryConfig.parameters.recordLimit];
+        if (control?.isCancelled) {
+          markCancelled(plan.slice(index));
+          cancelled = true;
+          break;
+        }
 
-        // Process each variant
-        for (const variant of variants) {
-          const variantSpec = categorySpecs[variant];
-          if (!variantSpec) continue;
+        const testStartTime = new Date();
 
-          // Process each limit
-          for (const limit of limits) {
-            const testId = `${category.key}-${variant}-${limit}`;
-            const testDisplayName = `${category.title} - ${variant} (${limit} records)`;
+        dispatch({
+          type: 'UPDATE_TEST_STATUS',
+          payload: {
+            id: test.id,
+            testType: test.testType,
+            status: 'running',
+            progress: 0,
+            startTime: testStartTime,
+          },
+        });
 
-            const testStartTime = new Date().toISOString();
-            
-            // Update test status
+        try {
+          const outcome = test.kind === 'multi'
+            ? await runMultiTableTest(test, testStartTime)
+            : test.kind === 'aggregate'
+              ? await runAggregateTest(test, testStartTime)
+              : test.kind === 'pagination'
+                ? await runPaginationTest(test, testStartTime)
+                : await runSingleTableTest(test, testStartTime);
+
+          const calls = [outcome.restApiCall, outcome.graphqlApiCall, outcome.batchApiCall];
+          // Resource entries are queued after the last body is read
+          await delay(0, signal);
+          collectNetworkTiming(calls);
+          if (options.serverTiming) {
+            for (const call of calls) {
+              await fetchServerTiming(call);
+            }
+          }
+
+          // A winner is only declared when both APIs succeeded and the difference is significant
+          const statistics: ComparisonStatistics = compareResponseTimes(outcome.restSamples, outcome.graphqlSamples);
+          const bothSucceeded = outcome.restApi.success && outcome.graphqlApi.success;
+          // A failed Batch API call (e.g. the endpoint is blocked) leaves the REST vs GraphQL comparison standing
+          const batchStatistics = outcome.batchSamples && compareBatchResponseTimes(outcome.batchSamples, outcome.restSamples, outcome.graphqlSamples);
+          let winner: TestWinner = 'tie';
+          if (bothSucceeded) {
+            winner = batchStatistics && outcome.batchApi?.success
+              ? determineThreeWayWinner(statistics, batchStatistics)
+              : determineWinner(statistics);
+          }
+
+          if (winner === 'rest') restWins++;
+          if (winner === 'graphql') graphqlWins++;
+          if (winner === 'batch') batchWins++;
+
+          // Update totals
+          totalTests++;
+          totalRestResponseTime += outcome.restApi.responseTime;
+          totalGraphqlResponseTime += outcome.graphqlApi.responseTime;
+          totalRestPayloadSize += outcome.restApi.payloadSize;
+          totalGraphqlPayloadSize += outcome.graphqlApi.payloadSize;
+
+          dispatch({
+            type: 'ADD_TEST_RESULT',
+            payload: {
+              id: test.id,
+              testType: test.testType,
+              category: test.category,
+              restApi: outcome.restApi,
+              graphqlApi: outcome.graphqlApi,
+              winner,
+              timestamp: new Date(),
+              dataComparison: outcome.dataComparison,
+              statistics,
+              executionOrder: outcome.executionOrder,
+              batchApi: outcome.batchApi,
+              batchDataComparison: outcome.batchDataComparison,
+              batchStatistics,
+              visibility: outcome.visibility,
+              restTuning: test.kind === 'single' || test.kind === 'multi' ? test.restTuning : undefined,
+              graphqlShape: test.kind === 'single' || test.kind === 'multi' ? test.graphqlShape : undefined,
+              pagination: outcome.pagination,
+              limitSweep: test.kind !== 'aggregate' && test.sweepScale ? { limit: test.limit, scale: test.sweepScale } : undefined,
+              querySweep: test.kind === 'single' ? test.querySweep : undefined
+            }
+          });
+
+          dispatch({
+            type: 'UPDATE_TEST_STATUS',
+            payload: {
+              id: test.id,
+              testType: test.testType,
+              status: 'completed',
+              progress: 100,
+              startTime: testStartTime,
+              endTime: new Date(),
+              dataComparison: outcome.dataComparison,
+              restApiCall: outcome.restApiCall,
+              graphqlApiCall: outcome.graphqlApiCall,
+              batchApiCall: outcome.batchApiCall
+            },
+          });
+        } catch (error) {
+          if (error instanceof RunCancelledError) {
             dispatch({
               type: 'UPDATE_TEST_STATUS',
-              payload: {
-                id: testId,
-                testType: testDisplayName,
-                status: 'running',
-                progress: 0,
-                startTime: testStartTime,
-              },
+              payload: { id: test.id, testType: test.testType, status: 'cancelled', endTime: new Date() },
             });
-
-            try {
-              // Handle multi-table tests differently
-              if (category.key === 'multiTableTests' && variantSpec.restCalls) {
-                // Multi-table test execution logic
-                const validation = validateMultiTableScenario(variantSpec);
-                if (!validation.isValid) {
-                  throw new Error(validation.error);
-                }
-
-                // Execute REST calls (multiple calls)
-                dispatch({
-                  type: 'UPDATE_TEST_STATUS',
-                  payload: {
-                    id: testId,
-                    testType: testDisplayName,
-                    status: 'running',
-                    progress: 5,
-                    startTime: new Date().toISOString(),
-                  },
-                });
-                
-                const restStartTime = performance.now();
-                const restResponses = [];
-                
-                for (let i = 0; i < variantSpec.restCalls.length; i++) {
-                  const call = variantSpec.restCalls[i];
-                  const restUrl = buildRestUrl(call.table, call.fields, call.filter || '', limit);
-                  const restOptions = { method: 'GET', headers: { 'Accept': 'application/json' } };
-                  
-                  const restResult = await measureApiCall(
-                    restUrl, 
-                    restOptions, 
-                    1, 
-                    testId, 
-                    testDisplayName, 
-                    true, 
-                    (i / variantSpec.restCalls.length) * 50
-                  );
-                  restResponses.push(restResult);
-                }
-
-                // Calculate total REST time and payload size
-                const restTotalTime = restResponses.reduce((sum, r) => sum + r.responseTime, 0);
-                const restTotalPayload = restResponses.reduce((sum, r) => sum + r.payloadSize, 0);
-                const restSuccess = restResponses.every(r => r.success);
-
-                // Execute GraphQL call (single call)
-                dispatch({
-                  type: 'UPDATE_TEST_STATUS',
-                  payload: {
-                    id: testId,
-                    testType: testDisplayName,
-                    status: 'running',
-                    progress: 55,
-                    startTime: new Date().toISOString(),
-                  },
-                });
-                
-                const graphqlQuery = buildMultiTableGraphQLQuery(variantSpec, limit);
-                const graphqlUrl = `${instance.url}/api/now/graphql`;
-                const graphqlOptions = {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({ query: graphqlQuery })
-                };
-
-                const graphqlResult = await measureApiCall(graphqlUrl, graphqlOptions, 1, testId, testDisplayName, false, 50);
-
-                // Compare responses
-                const comparison = compareMultiTableApiResponses(
-                  restResponses.map(r => r.responseBody),
-                  graphqlResult.responseBody,
-                  variantSpec
-                );
-
-                // Determine winner
-                const restWon = restSuccess && (restTotalTime < graphqlResult.responseTime);
-                const graphqlWon = graphqlResult.success && (graphqlResult.responseTime < restTotalTime);
-
-                if (restWon) restWins++;
-                if (graphqlWon) graphqlWins++;
-
-                // Update totals
-                totalTests++;
-                totalRestResponseTime += restTotalTime;
-                totalGraphqlResponseTime += graphqlResult.responseTime;
-                totalRestPayloadSize += restTotalPayload;
-                totalGraphqlPayloadSize += graphqlResult.payloadSize;
-
-                // Add test result
-                dispatch({
-                  type: 'ADD_TEST_RESULT',
-                  payload: {
-                    id: testId,
-                    testType: testDisplayName,
-                    restApi: {
-                      responseTime: restTotalTime,
-                      payloadSize: restTotalPayload,
-                      requestCount: restResponses.length,
-                      success: restSuccess,
-                      allResponseTimes: restResponses.map(r => r.responseTime)
-                    },
-                    graphqlApi: {
-                      responseTime: graphqlResult.responseTime,
-                      payloadSize: graphqlResult.payloadSize,
-                      requestCount: 1,
-                      success: graphqlResult.success,
-                      allResponseTimes: graphqlResult.allResponseTimes
-                    },
-                    winner: restWon ? 'rest' : graphqlWon ? 'graphql' : 'tie',
-                    timestamp: new Date(),
-                    dataComparison: comparison
-                  }
-                });
-
-                // Final update
-                dispatch({
-                  type: 'UPDATE_TEST_STATUS',
-                  payload: {
-                    id: testId,
-                    testType: testDisplayName,
-                    status: 'completed',
-                    progress: 100,
-                    startTime: new Date().toISOString(),
-                    endTime: new Date().toISOString(),
-                    dataComparison: comparison,
-                    restApiCall: {
-                      url: 'Multiple REST calls',
-                      method: 'GET',
-                      responseTime: restTotalTime,
-                      payloadSize: restTotalPayload,
-                      success: restSuccess,
-                      responseBody: restResponses.map(r => r.responseBody)
-                    },
-                    graphqlApiCall: {
-                      url: graphqlUrl,
-                      method: 'POST',
-                      query: graphqlQuery,
-                      responseTime: graphqlResult.responseTime,
-                      payloadSize: graphqlResult.payloadSize,
-                      success: graphqlResult.success,
-                      responseBody: graphqlResult.responseBody
-                    }
-                  },
-                });
-              } else {
-                // Single table test execution logic
-                
-                // Start REST calls
-                dispatch({
-                  type: 'UPDATE_TEST_STATUS',
-                  payload: {
-                    id: testId,
-                    testType: testDisplayName,
-                    status: 'running',
-                    progress: 5,
-                    startTime: new Date().toISOString(),
-                  },
-                });
-                
-                const restUrl = buildRestUrl(variantSpec.table, variantSpec.fields, variantSpec.filter || '', limit);
-                const restOptions = { method: 'GET', headers: { 'Accept': 'application/json' } };
-                
-                const restResult = await measureApiCall(restUrl, restOptions, 3, testId, testDisplayName, true, 0);
-
-                // Start GraphQL calls
-                dispatch({
-                  type: 'UPDATE_TEST_STATUS',
-                  payload: {
-                    id: testId,
-                    testType: testDisplayName,
-                    status: 'running',
-                    progress: 55,
-                    startTime: new Date().toISOString(),
-                  },
-                });
-
-                const graphqlQuery = buildGraphQLQuery(variantSpec.table, variantSpec.fields, variantSpec.filter || '', limit);
-                const graphqlUrl = `${instance.url}/api/now/graphql`;
-                const graphqlOptions = {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({ query: graphqlQuery })
-                };
-
-                const graphqlResult = await measureApiCall(graphqlUrl, graphqlOptions, 3, testId, testDisplayName, false, 50);
-
-                // Compare responses
-                const comparison = compareApiResponses(
-                  restResult.responseBody,
-                  graphqlResult.responseBody,
-                  variantSpec.fields
-                );
-
-                // Determine winner
-                const restWon = restResult.success && (restResult.responseTime < graphqlResult.responseTime);
-                const graphqlWon = graphqlResult.success && (graphqlResult.responseTime < restResult.responseTime);
-
-                if (restWon) restWins++;
-                if (graphqlWon) graphqlWins++;
-
-                // Update totals
-                totalTests++;
-                totalRestResponseTime += restResult.responseTime;
-                totalGraphqlResponseTime += graphqlResult.responseTime;
-                totalRestPayloadSize += restResult.payloadSize;
-                totalGraphqlPayloadSize += graphqlResult.payloadSize;
-
-                // Add test result
-                dispatch({
-                  type: 'ADD_TEST_RESULT',
-                  payload: {
-                    id: testId,
-                    testType: testDisplayName,
-                    restApi: {
-                      responseTime: restResult.responseTime,
-                      payloadSize: restResult.payloadSize,
-                      requestCount: 1,
-                      success: restResult.success,
-                      allResponseTimes: restResult.allResponseTimes
-                    },
-                    graphqlApi: {
-                      responseTime: graphqlResult.responseTime,
-                      payloadSize: graphqlResult.payloadSize,
-                      requestCount: 1,
-                      success: graphqlResult.success,
-                      allResponseTimes: graphqlResult.allResponseTimes
-                    },
-                    winner: restWon ? 'rest' : graphqlWon ? 'graphql' : 'tie',
-                    timestamp: new Date(),
-                    dataComparison: comparison
-                  }
-                });
-
-                // Final update
-                const testEndTime = new Date().toISOString();
-                const finalPayload = {
-                  id: testId,
-                  testType: testDisplayName,
-                  status: 'completed',
-                  progress: 100,
-                  startTime: testStartTime,
-                  endTime: testEndTime,
-                  dataComparison: comparison,
-                  restApiCall: {
-                    url: restUrl,
-                    method: 'GET',
-                    responseTime: restResult.responseTime,
-                    payloadSize: restResult.payloadSize,
-                    success: restResult.success,
-                    responseBody: restResult.responseBody
-                  },
-                  graphqlApiCall: {
-                    url: graphqlUrl,
-                    method: 'POST',
-                    query: graphqlQuery,
-                    responseTime: graphqlResult.responseTime,
-                    payloadSize: graphqlResult.payloadSize,
-                    success: graphqlResult.success,
-                    responseBody: graphqlResult.responseBody
-                  }
-                };
-
-                console.log('🔍 TestExecutionService - Final update payload:', finalPayload);
-                console.log('🔍 Response times - REST:', restResult.responseTime, 'GraphQL:', graphqlResult.responseTime);
-                console.log('🔍 Payload sizes - REST:', restResult.payloadSize, 'GraphQL:', graphqlResult.payloadSize);
-                console.log('🔍 Complete restApiCall object:', finalPayload.restApiCall);
-                console.log('🔍 Complete graphqlApiCall object:', finalPayload.graphqlApiCall);
-                
-                dispatch({
-                  type: 'UPDATE_TEST_STATUS',
-                  payload: finalPayload,
-                });
-              }
-            } catch (error) {
-              // Handle test failure
-              dispatch({
-                type: 'UPDATE_TEST_STATUS',
-                payload: {
-                  id: testId,
-                  testType: testDisplayName,
-                  status: 'failed',
-                  progress: 0,
-                  startTime: new Date().toISOString(),
-                  endTime: new Date().toISOString(),
-                  error: error instanceof Error ? error.message : 'Unknown error'
-                },
-              });
-            }
+            markCancelled(plan.slice(index + 1));
+            cancelled = true;
+            break;
           }
+
+          // Handle test failure
+          console.error(`Test ${test.id} failed:`, error);
+          dispatch({
+            type: 'UPDATE_TEST_STATUS',
+            payload: {
+              id: test.id,
+              testType: test.testType,
+              status: 'failed',
+              progress: 0,
+              startTime: testStartTime,
+              endTime: new Date(),
+              error: error instanceof Error ? error.message : 'Unknown error'
+            },
+          });
         }
       }
 
@@ -463,16 +1342,17 @@ export class TestExecutionService {
         payload: {
           restWins,
           graphqlWins,
+          batchWins,
           totalTests,
           averageRestResponseTime: totalTests > 0 ? totalRestResponseTime / totalTests : 0,
           averageGraphqlResponseTime: totalTests > 0 ? totalGraphqlResponseTime / totalTests : 0,
           totalRestPayloadSize,
           totalGraphqlPayloadSize,
-          successRate: totalTests > 0 ? ((restWins + graphqlWins) / totalTests) * 100 : 0,
+          successRate: totalTests > 0 ? ((restWins + graphqlWins + batchWins) / totalTests) * 100 : 0,
         },
       });
 
-      return { success: true };
+      return { success: true, cancelled };
     } catch (error) {
       console.error('Test execution error:', error);
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -480,4 +1360,104 @@ export class TestExecutionService {
       dispatch({ type: 'SET_RUNNING', payload: false });
     }
   }
-}
\ No newline at end of file
+
+  // Runs the same configuration against each profile in turn as one run. Results are tagged with their instance
+  // and test ids are prefixed with the profile id; profiles that fail the connection check are skipped.
+  static async executeMatrix(
+    profiles: InstanceProfile[],
+    testConfiguration: TestConfiguration,
+    dispatch: ExecutionDispatch,
+    customRequests: CustomRequest[] = [],
+    options: TestExecutionOptions = {}
+  ): Promise<MatrixExecutionResult> {
+    const request = options.request || makeAuthenticatedRequest;
+    const instances: MatrixInstanceResult[] = [];
+    let cancelled = false;
+
+    dispatch({ type: 'SET_RUNNING', payload: true });
+    dispatch({ type: 'RESET_TESTS' });
+
+    try {
+      for (const profile of profiles) {
+        if (options.control?.isCancelled) {
+          cancelled = true;
+          break;
+        }
+
+        const resultInstance = toResultInstance(profile);
+        const instance = profileToInstance(profile, true);
+
+        try {
+          const response = await request('api/now/table/sys_user?sysparm_limit=1', { method: 'GET', signal: options.control?.signal }, instance);
+          if (!response.ok) throw new Error(`Connection check failed: HTTP ${response.status}`);
+        } catch (error) {
+          const message = isAuthError(error) ? getAuthErrorMessage(error) : error instanceof Error ? error.message : 'Connection check failed';
+          instances.push({ instance: resultInstance, connected: false, error: message });
+          continue;
+        }
+
+        // The matrix owns the running state; per-instance metrics are combined at the end
+        let metrics: PerformanceMetrics | undefined;
+        const instanceDispatch: ExecutionDispatch = action => {
+          switch (action.type) {
+            case 'SET_RUNNING':
+            case 'RESET_TESTS':
+              return;
+            case 'UPDATE_METRICS':
+              metrics = action.payload;
+              return;
+            case 'ADD_TEST_RESULT':
+              dispatch({ ...action, payload: { ...action.payload, id: matrixTestId(profile.id, action.payload.id), instance: resultInstance } });
+              return;
+            case 'UPDATE_TEST_STATUS':
+              dispatch({
+                ...action,
+                payload: {
+                  ...action.payload,
+                  id: matrixTestId(profile.id, action.payload.id),
+                  ...(action.payload.testType && { testType: `[${profile.name}] ${action.payload.testType}` }),
+                },
+              });
+              return;
+            default:
+              dispatch(action);
+          }
+        };
+
+        const outcome = await TestExecutionService.executeTests(instance, testConfiguration, instanceDispatch, customRequests, options);
+        instances.push({ instance: resultInstance, connected: true, error: outcome.error, metrics });
+        if (outcome.cancelled) {
+          cancelled = true;
+          break;
+        }
+      }
+
+      dispatch({ type: 'UPDATE_METRICS', payload: combineMetrics(instances.map(result => result.metrics).filter(Boolean) as PerformanceMetrics[]) });
+
+      return { success: instances.some(result => result.connected), cancelled, instances };
+    } finally {
+      dispatch({ type: 'SET_RUNNING', payload: false });
+    }
+  }
+}
+
+// Sums the wins and payloads of several runs and weights their averages by test count
+function combineMetrics(metrics: PerformanceMetrics[]): PerformanceMetrics {
+  const sum = (pick: (m: PerformanceMetrics) => number) => metrics.reduce((total, m) => total + pick(m), 0);
+  const totalTests = sum(m => m.totalTests);
+  const restWins = sum(m => m.restWins);
+  const graphqlWins = sum(m => m.graphqlWins);
+  const batchWins = sum(m => m.batchWins || 0);
+
+  return {
+    restWins,
+    graphqlWins,
+    batchWins,
+    totalTests,
+    averageRestResponseTime: totalTests > 0 ? sum(m => m.averageRestResponseTime * m.totalTests) / totalTests : 0,
+    averageGraphqlResponseTime: totalTests > 0 ? sum(m => m.averageGraphqlResponseTime * m.totalTests) / totalTests : 0,
+    totalRestPayloadSize: sum(m => m.totalRestPayloadSize),
+    totalGraphqlPayloadSize: sum(m => m.totalGraphqlPayloadSize),
+    successRate: totalTests > 0 ? ((restWins + graphqlWins + batchWins) / totalTests) * 100 : 0,
+  };
+}
@@ -1,6 +1,8 @@
 // Service for processing and managing test specifications
 import { testSpecs } from '../specs/testSpecs';
-import { buildRestUrl, buildGraphQLQuery, buildStructuredGraphQLQuery } from '../utils/apiBuilders';
+import { buildRestUrl, buildGraphQLQuery, buildStructuredGraphQLQuery, buildStatsUrl, buildAggregateGraphQLQuery } from '../utils/apiBuilders';
+import { expandQuerySweep } from '../utils/querySweeps';
+import { AggregateSpec, PaginationSpec, QuerySweepStep } from '../types';
 
 export interface ProcessedTestSpec {
   id: string;
@@ -22,6 +24,11 @@ export interface ProcessedTestSpec {
     fields: string[];
     filter?: string;
   }>;
+  aggregate?: AggregateSpec;
+  // Pagination scenarios: the record limits are page sizes
+  pagination?: PaginationSpec;
+  // Scenarios generated by a field-count or dot-walk-depth sweep
+  querySweep?: QuerySweepStep;
 }
 
 export interface CategoryInfo {
@@ -40,9 +47,9 @@ export class TestSpecsService {
     Object.entries(testSpecs).forEach(([categoryKey, category]) => {
       Object.entries(category).forEach(([variantKey, variant]) => {
         // Handle different test spec structures
-        if (variant.tests) {
-          // Single table tests (dotWalkingTests, schemaTailoringTests)
-          variant.tests.forEach((test, index) => {
+        if (variant.tests || variant.fieldSweep || variant.depthSweep) {
+          // Single table tests (dotWalkingTests, schemaTailoringTests), listed or generated by a sweep
+          (variant.tests || expandQuerySweep(variant)).forEach((test, index) => {
             processed.push({
               id: `${categoryKey}_${variantKey}_${index}`,
               name: test.name,
@@ -57,12 +64,17 @@ export class TestSpecsService {
               dotWalkingDepth: this.calculateDotWalkingDepth(test.restFields || []),
               recordLimits: variant.recordLimits || [50],
               table: variant.table || '',
-              filter: test.filter
+              filter: test.filter,
+              querySweep: test.querySweep
             });
           });
         } else if (variant.scenarios) {
           // Multi-table tests or scenario-based tests
           variant.scenarios.forEach((scenario, index) => {
+            if (scenario.aggregate) {
+              processed.push(this.processAggregateScenario(scenario, variant, `${categoryKey}_${variantKey}_${index}`, categoryKey, variantKey));
+              return;
+            }
             processed.push({
               id: `${categoryKey}_${variantKey}_${index}`,
               name: scenario.name,
@@ -78,7 +90,8 @@ export class TestSpecsService {
               recordLimits: variant.recordLimits || [50],
               table: scenario.table || variant.table || '',
               filter: scenario.filter,
-              restCalls: scenario.restCalls
+              restCalls: scenario.restCalls,
+              pagination: scenario.pagination
             });
           });
         }
@@ -88,6 +101,37 @@ export class TestSpecsService {
     return processed;
   }
   
+  // Aggregate scenarios go through the stats API and _aggregate, so they have neither a field list nor record limits
+  private static processAggregateScenario(
+    scenario: { name: string; filter?: string; aggregate: AggregateSpec },
+    variant: { description?: string; table?: string },
+    id: string,
+    category: string,
+    variantKey: string
+  ): ProcessedTestSpec {
+    const { aggregate } = scenario;
+    const table = variant.table || '';
+    const fields = [...(aggregate.groupBy || []), ...(['sum', 'avg', 'min', 'max'] as const).flatMap(fn => aggregate[fn] || [])];
+
+    return {
+      id,
+      name: scenario.name,
+      description: variant.description || '',
+      category,
+      variant: variantKey,
+      complexity: (aggregate.groupBy?.length || 0) > 1 ? 'medium' : 'low',
+      restEndpoint: `/${buildStatsUrl({ table, aggregate, filter: scenario.filter }).url}`,
+      graphqlQuery: buildAggregateGraphQLQuery({ table, aggregate, filter: scenario.filter }).query,
+      expectedFields: Array.from(new Set(fields)),
+      graphqlFields: {},
+      dotWalkingDepth: this.calculateDotWalkingDepth(fields),
+      recordLimits: [],
+      table,
+      filter: scenario.filter,
+      aggregate,
+    };
+  }
+
   static getCategoryInfo(): CategoryInfo[] {
     const categoryMap = {
       dotWalkingTests: {
@@ -124,6 +168,20 @@ export class TestSpecsService {
         description: 'Practical developer use cases',
         icon: '🌟',
         color: 'orange'
+      },
+      aggregateTests: {
+        id: 'aggregateTests',
+        name: 'Aggregate Queries',
+        description: 'Server-side counts, group-bys and sums',
+        icon: '🧮',
+        color: 'teal'
+      },
+      paginationTests: {
+        id: 'paginationTests',
+        name: 'Pagination',
+        description: 'Whole result sets walked page by page',
+        icon: '📄',
+        color: 'indigo'
       }
     };
     
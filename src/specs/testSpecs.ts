@@ -182,6 +182,16 @@ export const testSpecs = {
                 },
             ],
         },
+
+        callerChainDepth: {
+            description: "Generated depth sweep: one more dot-walk level per step (caller → department → head → manager)",
+            table: "incident",
+            recordLimits: [50],
+            depthSweep: {
+                path: ["caller_id", "department", "dept_head", "manager"],
+                baseFields: ["number"],
+            },
+        },
     },
 
     // 📊 MULTI-TABLE QUERY TESTS
@@ -655,6 +665,13 @@ export const testSpecs = {
                 },
             ],
         },
+
+        incident_field_width: {
+            description: "Generated width sweep: one more incident field per step, up to the whole mapping",
+            table: "incident",
+            recordLimits: [100],
+            fieldSweep: {},
+        },
     },
 
     // ⚡ PERFORMANCE AT SCALE TESTS
@@ -1392,4 +1409,136 @@ export const testSpecs = {
             ],
         },
     },
+
+    // 🧮 AGGREGATE QUERY TESTS
+    // Counts and group-bys behind dashboards: /api/now/stats vs GlideRecord_Query _aggregate
+    aggregateTests: {
+        incident_dashboards: {
+            description: "Dashboard widgets counting and breaking down incidents",
+            table: "incident",
+            scenarios: [
+                {
+                    name: "open_incident_count",
+                    filter: "active=true",
+                    aggregate: { count: true },
+                },
+                {
+                    name: "open_by_priority",
+                    filter: "active=true",
+                    aggregate: { count: true, groupBy: ["priority"] },
+                },
+                {
+                    name: "by_category_and_state",
+                    aggregate: { count: true, groupBy: ["category", "state"] },
+                },
+                {
+                    name: "by_assignment_group",
+                    filter: "active=true",
+                    aggregate: { count: true, groupBy: ["assignment_group"] },
+                },
+            ],
+        },
+
+        workload_metrics: {
+            description: "Reassignment and reopen statistics for team workload reports",
+            table: "incident",
+            scenarios: [
+                {
+                    name: "reassignment_stats",
+                    aggregate: {
+                        count: true,
+                        sum: ["reassignment_count"],
+                        avg: ["reassignment_count"],
+                        min: ["reassignment_count"],
+                        max: ["reassignment_count"],
+                    },
+                },
+                {
+                    name: "reopens_by_priority",
+                    filter: "active=false",
+                    aggregate: { count: true, groupBy: ["priority"], avg: ["reopen_count"], max: ["reopen_count"] },
+                },
+            ],
+        },
+
+        task_overview: {
+            description: "Work across every task type",
+            table: "task",
+            scenarios: [
+                {
+                    name: "tasks_by_type",
+                    filter: "active=true",
+                    aggregate: { count: true, groupBy: ["sys_class_name"] },
+                },
+            ],
+        },
+    },
+
+    // 📄 PAGINATION TESTS
+    // Export jobs walking a whole filtered result set: sysparm_offset and the Link header vs pagination { offset, limit } and _rowCount
+    paginationTests: {
+        incident_export: {
+            description: "Nightly export of every incident, one page at a time",
+            table: "incident",
+            recordLimits: [100, 500, 1000],
+            scenarios: [
+                {
+                    name: "all_incidents",
+                    restFields: ["sys_id", "number", "short_description", "state", "priority", "opened_at"],
+                    graphqlFields: {
+                        sys_id: { value: true, displayValue: true },
+                        number: { value: true, displayValue: true },
+                        short_description: { value: true, displayValue: true },
+                        state: { value: true, displayValue: true },
+                        priority: { value: true, displayValue: true },
+                        opened_at: { value: true, displayValue: true },
+                    },
+                    pagination: {},
+                },
+                {
+                    name: "closed_incidents_with_assignees",
+                    filter: "active=false",
+                    restFields: ["sys_id", "number", "close_code", "closed_at", "assigned_to.user_name", "assignment_group.name"],
+                    graphqlFields: {
+                        sys_id: { value: true, displayValue: true },
+                        number: { value: true, displayValue: true },
+                        close_code: { value: true, displayValue: true },
+                        closed_at: { value: true, displayValue: true },
+                        assigned_to: {
+                            _reference: {
+                                user_name: { value: true, displayValue: true },
+                            },
+                        },
+                        assignment_group: {
+                            _reference: {
+                                name: { value: true, displayValue: true },
+                            },
+                        },
+                    },
+                    pagination: {},
+                },
+            ],
+        },
+
+        task_sync: {
+            description: "Syncing active work to an external tracker, capped per run",
+            table: "task",
+            recordLimits: [250, 1000],
+            scenarios: [
+                {
+                    name: "active_tasks",
+                    filter: "active=true",
+                    restFields: ["sys_id", "number", "sys_class_name", "state", "sys_updated_on"],
+                    graphqlFields: {
+                        sys_id: { value: true, displayValue: true },
+                        number: { value: true, displayValue: true },
+                        sys_class_name: { value: true, displayValue: true },
+                        state: { value: true, displayValue: true },
+                        sys_updated_on: { value: true, displayValue: true },
+                    },
+                    pagination: { maxRecords: 5000 },
+                },
+            ],
+        },
+    },
 };
@@ -8,8 +8,298 @@ export interface ServiceNowInstance {
   // Session-based authentication data
   sessionToken?: string;
   sessionExpiry?: Date;
-  authMode?: 'basic' | 'session';
+  authMode?: InstanceAuthMode;
   lastTokenRefresh?: Date;
+  // OAuth mode; the password grant also uses username and password
+  oauth?: OAuthSettings;
+  // API key mode, sent as x-sn-apikey
+  apiKey?: string;
+}
+
+export type InstanceAuthMode = 'basic' | 'session' | 'oauth' | 'apikey';
+
+export type OAuthGrantType = 'password' | 'client_credentials';
+
+export interface OAuthSettings {
+  grantType: OAuthGrantType;
+  clientId: string;
+  clientSecret: string;
+}
+
+// Body of a successful /oauth_token.do response
+export interface OAuthTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  scope?: string;
+  token_type: string;
+  // Seconds
+  expires_in: number;
+}
+
+// A named connection (URL, auth mode and credentials) the user can switch between or include in a matrix run
+export interface InstanceProfile {
+  id: string;
+  name: string;
+  url: string;
+  authMode: InstanceAuthMode;
+  username: string;
+  password: string;
+  token: string;
+  oauth?: OAuthSettings;
+  apiKey?: string;
+}
+
+// Instance a result was measured on; set by matrix runs only
+export interface ResultInstance {
+  profileId: string;
+  profileName: string;
+  url: string;
+}
+
+export interface MatrixInstanceResult {
+  instance: ResultInstance;
+  connected: boolean;
+  error?: string;
+  metrics?: PerformanceMetrics;
+}
+
+// What one API returned to the user a test ran as
+export interface ApiVisibility {
+  recordIds: string[];
+  // Compared fields with a value in at least one record
+  fields: string[];
+}
+
+// Captured for single-table tests when users are compared
+export interface DataVisibility {
+  rest: ApiVisibility;
+  graphql: ApiVisibility;
+  // Fields one API returned a value for where the other returned none
+  restOnlyFields: string[];
+  graphqlOnlyFields: string[];
+}
+
+export interface UserApiAccess {
+  recordCount: number;
+  fields: string[];
+  // Seen by another compared user through the same API but not by this one
+  hiddenRecordIds: string[];
+  hiddenFields: string[];
+}
+
+export interface UserAccessEntry {
+  instance: ResultInstance;
+  rest: UserApiAccess;
+  graphql: UserApiAccess;
+  restOnlyFields: string[];
+  graphqlOnlyFields: string[];
+}
+
+export interface UserAccessReport {
+  id: string;
+  testType: string;
+  users: UserAccessEntry[];
+  // REST and GraphQL exposed the same records and fields to every user
+  consistent: boolean;
+}
+
+// How samples whose response time is far from the rest are discarded before comparing
+export type OutlierPolicy = 'none' | 'iqr' | 'dropMinMax';
+
+// Batch only competes in multi-table scenarios
+export type ApiSide = 'rest' | 'graphql' | 'batch';
+
+// restFirst/graphqlFirst run all calls of one API before the next; alternating and random interleave them
+export type ExecutionOrder = 'restFirst' | 'graphqlFirst' | 'alternating' | 'random';
+
+export interface ExecutionOrderRecord {
+  order: ExecutionOrder;
+  // Seed of the random order, reusing it reproduces the sequence
+  seed?: number;
+  // API of every call in the order it was made, warm-ups included
+  sequence: ApiSide[];
+}
+
+export interface MeasurementSettings {
+  // Calls made before measuring and discarded (connection setup, caches)
+  warmupRuns: number;
+  // Measured calls per API
+  iterations: number;
+  // Pause between consecutive calls, in milliseconds
+  cooldownMs: number;
+  outlierPolicy: OutlierPolicy;
+  executionOrder: ExecutionOrder;
+  // Fixed seed for the random order; a new one is drawn per test when undefined
+  orderSeed?: number;
+}
+
+// Aggregates of one table, computed by /api/now/stats on the REST side and _aggregate in GlideRecord_Query
+export interface AggregateSpec {
+  count?: boolean;
+  groupBy?: string[];
+  sum?: string[];
+  avg?: string[];
+  min?: string[];
+  max?: string[];
+}
+
+export type AggregateFunction = 'sum' | 'avg' | 'min' | 'max';
+
+// Walks a whole filtered result set page by page; the record limit of the test is the page size
+export interface PaginationSpec {
+  // Stops the traversal after this many records; the whole result set when unset
+  maxRecords?: number;
+}
+
+export interface PaginationPage {
+  offset: number;
+  responseTime: number;
+  payloadSize: number;
+  recordCount: number;
+}
+
+// One complete traversal by one API
+export interface PaginationTraversal {
+  pageSize: number;
+  pages: PaginationPage[];
+  // First request to last response
+  totalTime: number;
+  totalBytes: number;
+  // Result set size the API reported (X-Total-Count or _rowCount)
+  reportedTotal?: number;
+  recordCount: number;
+  uniqueRecords: number;
+  duplicateCount: number;
+  // Records the other API or the reported total says exist but the traversal never reached
+  missingCount: number;
+  // First few missing sys_ids, for the report
+  missingIds: string[];
+  complete: boolean;
+}
+
+export interface PaginationComparison {
+  rest: PaginationTraversal;
+  graphql: PaginationTraversal;
+}
+
+// sysparm_display_value: raw values, display values, or both as {display_value, value}
+export type RestDisplayValue = 'false' | 'true' | 'all';
+
+// Leaf selections of GlideRecord_Query fields; each pairs with one sysparm_display_value on the REST side
+export type GraphQLValueShape = 'value' | 'displayValue' | 'both';
+
+// Table API parameters that change the payload without changing which records are returned
+export interface RestTuningOptions {
+  displayValue: RestDisplayValue;
+  // sysparm_exclude_reference_link: references without their {link} wrapper
+  excludeReferenceLink: boolean;
+  // sysparm_no_count: skip the total count query (no X-Total-Count header)
+  noCount: boolean;
+  // sysparm_suppress_pagination_header: no Link header
+  suppressPaginationHeader: boolean;
+}
+
+// Values to combine for every REST call of a category; the plan runs each combination once
+export interface RestTuningMatrix {
+  displayValue: RestDisplayValue[];
+  excludeReferenceLink: boolean[];
+  noCount: boolean[];
+  suppressPaginationHeader: boolean[];
+}
+
+export interface RestTuningEntry {
+  tuning: RestTuningOptions;
+  label: string;
+  restResponseTime: number;
+  restPayloadSize: number;
+  graphqlResponseTime?: number;
+  dataConsistency?: number;
+  winner: TestWinner;
+}
+
+// Runs of one test across the REST tuning matrix
+export interface RestTuningReport {
+  id: string;
+  testType: string;
+  entries: RestTuningEntry[];
+  // Tuning with the fastest REST response
+  bestLabel: string;
+  // Median GraphQL time over the runs, each run times GraphQL again
+  graphqlResponseTime?: number;
+  graphqlBeatsBestRest: boolean;
+}
+
+export type LimitSweepScale = 'linear' | 'log';
+
+// Generated record limits replacing the selected ones: `steps` values from `from` to `to`
+export interface LimitSweep {
+  from: number;
+  to: number;
+  steps: number;
+  scale: LimitSweepScale;
+}
+
+export interface LimitSweepPoint {
+  limit: number;
+  restResponseTime?: number;
+  graphqlResponseTime?: number;
+  restPayloadSize?: number;
+  graphqlPayloadSize?: number;
+}
+
+// Where the REST - GraphQL difference changes sign, interpolated between two swept limits
+export interface LimitSweepCrossover {
+  limit: number;
+  // API ahead (faster or smaller) above the crossover
+  aheadAbove: 'rest' | 'graphql';
+}
+
+// Runs of one test across a limit sweep
+export interface LimitSweepReport {
+  id: string;
+  testType: string;
+  scale: LimitSweepScale;
+  points: LimitSweepPoint[];
+  latencyCrossovers: LimitSweepCrossover[];
+  payloadCrossovers: LimitSweepCrossover[];
+}
+
+// Fields of the table mapping added one at a time; dot-walked paths are left to depth sweeps
+export interface FieldSweepSpec {
+  maxFields?: number;
+}
+
+// A reference path walked one level further per step: caller_id, caller_id.department, ...
+export interface DepthSweepSpec {
+  path: string[];
+  // Selected at every step
+  baseFields?: string[];
+}
+
+export type QuerySweepDimension = 'fields' | 'depth';
+
+// Position of a generated scenario in its sweep: the field count or the dot-walk depth
+export interface QuerySweepStep {
+  dimension: QuerySweepDimension;
+  step: number;
+}
+
+export interface QuerySweepPoint {
+  step: number;
+  restResponseTime?: number;
+  graphqlResponseTime?: number;
+  restPayloadSize?: number;
+  graphqlPayloadSize?: number;
+}
+
+// Runs of one generated sweep; the slopes are least-squares fits over the successful steps
+export interface QuerySweepReport {
+  id: string;
+  testType: string;
+  dimension: QuerySweepDimension;
+  points: QuerySweepPoint[];
+  latencyPerStep: { rest?: number; graphql?: number };
+  payloadPerStep: { rest?: number; graphql?: number };
 }
 
 export interface TestConfiguration {
@@ -21,14 +311,29 @@ export interface TestConfiguration {
     };
     selectedVariants?: string[];
     selectedLimits?: number[];
+    limitSweep?: LimitSweep;
+    measurement?: MeasurementSettings;
+    restTuning?: RestTuningMatrix;
+    // GraphQL leaf selections; unset requests both with raw REST values
+    graphqlShape?: GraphQLValueShape;
   };
   multiTableTests: {
     enabled: boolean;
     parameters: {
       recordLimit: number;
+      // Fire the REST calls of a scenario concurrently instead of one after another
+      parallelRest?: boolean;
+      maxConcurrency?: number;
+      // Time the REST calls bundled into one /api/now/v1/batch request as a third contender (on unless false)
+      batchApi?: boolean;
     };
     selectedVariants?: string[];
     selectedLimits?: number[];
+    limitSweep?: LimitSweep;
+    measurement?: MeasurementSettings;
+    restTuning?: RestTuningMatrix;
+    // GraphQL leaf selections; unset requests both with raw REST values
+    graphqlShape?: GraphQLValueShape;
   };
   schemaTailoringTests: {
     enabled: boolean;
@@ -37,6 +342,11 @@ export interface TestConfiguration {
     };
     selectedVariants?: string[];
     selectedLimits?: number[];
+    limitSweep?: LimitSweep;
+    measurement?: MeasurementSettings;
+    restTuning?: RestTuningMatrix;
+    // GraphQL leaf selections; unset requests both with raw REST values
+    graphqlShape?: GraphQLValueShape;
   };
   performanceScaleTests: {
     enabled: boolean;
@@ -45,6 +355,11 @@ export interface TestConfiguration {
     };
     selectedVariants?: string[];
     selectedLimits?: number[];
+    limitSweep?: LimitSweep;
+    measurement?: MeasurementSettings;
+    restTuning?: RestTuningMatrix;
+    // GraphQL leaf selections; unset requests both with raw REST values
+    graphqlShape?: GraphQLValueShape;
   };
   realWorldScenarios: {
     enabled: boolean;
@@ -52,9 +367,78 @@ export interface TestConfiguration {
       recordLimit: number;
     };
     selectedVariants?: string[];
+    measurement?: MeasurementSettings;
+    restTuning?: RestTuningMatrix;
+    // GraphQL leaf selections; unset requests both with raw REST values
+    graphqlShape?: GraphQLValueShape;
+  };
+  aggregateTests: {
+    enabled: boolean;
+    // Aggregates have no record limit
+    parameters: Record<string, never>;
+    selectedVariants?: string[];
+    measurement?: MeasurementSettings;
+  };
+  paginationTests: {
+    enabled: boolean;
+    parameters: {
+      // Page size when the variant has no record limits
+      recordLimit: number;
+    };
+    selectedVariants?: string[];
+    // Page sizes
+    selectedLimits?: number[];
+    limitSweep?: LimitSweep;
+    measurement?: MeasurementSettings;
+  };
+  customRequests: {
+    enabled: boolean;
+    parameters: {
+      recordLimit: number;
+    };
+    // Custom request ids to run (all requests when undefined)
+    selectedVariants?: string[];
+    // Only run requests carrying at least one of these tags
+    selectedTags?: string[];
+    // Limits to sweep (each request's own limit when undefined)
+    selectedLimits?: number[];
+    limitSweep?: LimitSweep;
+    measurement?: MeasurementSettings;
+    restTuning?: RestTuningMatrix;
+    // GraphQL leaf selections; unset requests both with raw REST values
+    graphqlShape?: GraphQLValueShape;
   };
 }
 
+// ServiceNow Batch API (/api/now/v1/batch) payloads
+export interface BatchRestRequest {
+  id: string;
+  method: string;
+  url: string;
+  headers: Array<{ name: string; value: string }>;
+  body?: string;
+}
+
+export interface BatchRequestBody {
+  batch_request_id: string;
+  rest_requests: BatchRestRequest[];
+}
+
+export interface BatchResponseBody {
+  batch_request_id: string;
+  serviced_requests: Array<{
+    id: string;
+    status_code: number;
+    status_text?: string;
+    headers?: Array<{ name: string; value: string }>;
+    // Base64 encoded response body
+    body?: string;
+    execution_time?: number;
+  }>;
+  // Ids of the requests left out, e.g. after the batch timed out
+  unserviced_requests: string[];
+}
+
 export interface DataComparisonResult {
   isEquivalent: boolean;
   recordCountMatch: boolean;
@@ -72,9 +456,35 @@ export interface DataComparisonResult {
   onlyKnownIssues?: boolean;
 }
 
+// Response sizes in bytes, summed over the requests behind a result
+export interface PayloadSizes {
+  // Response body as received, after any content decoding
+  decoded: number;
+  // Encoded body bytes on the wire, headers excluded: Content-Length, else the resource timing encoded body size;
+  // unknown when neither is exposed
+  transferred?: number;
+}
+
+// Which size drives a payload comparison: the re-serialized JSON (payloadSize), the decoded body or the transferred bytes
+export type PayloadSizeMetric = 'json' | 'decoded' | 'transferred';
+
+// Payload totals of both APIs under one size metric
+export interface PayloadSummary {
+  metric: PayloadSizeMetric;
+  rest: number;
+  graphql: number;
+  // Tests in the totals, and tests left out because either API lacks the size
+  compared: number;
+  skipped: number;
+  // Decoded over transferred bytes, across the tests where the transferred size is known
+  restCompression?: number;
+  graphqlCompression?: number;
+}
+
 export interface TestResult {
   id: string;
   testType: string;
+  category?: string;
   restApi: {
     responseTime: number;
     payloadSize: number;
@@ -82,6 +492,13 @@ export interface TestResult {
     success: boolean;
     error?: string;
     allResponseTimes?: number[];
+    // Warm-up calls and rejected outliers, not part of the comparison
+    warmupResponseTimes?: number[];
+    discardedResponseTimes?: number[];
+    // Last successful run; results saved before sizes were measured only have payloadSize
+    payloadSizes?: PayloadSizes;
+    // Multi-table scenarios only
+    batchTiming?: RestBatchTiming;
   };
   graphqlApi: {
     responseTime: number;
@@ -90,21 +507,135 @@ export interface TestResult {
     success: boolean;  
     error?: string;
     allResponseTimes?: number[];
+    warmupResponseTimes?: number[];
+    discardedResponseTimes?: number[];
+    payloadSizes?: PayloadSizes;
   };
-  winner: 'rest' | 'graphql' | 'tie';
+  winner: TestWinner;
   timestamp: Date;
   dataComparison?: DataComparisonResult;
+  statistics?: ComparisonStatistics;
+  executionOrder?: ExecutionOrderRecord;
+  // Batch API contender, multi-table scenarios only
+  batchApi?: TestResult['graphqlApi'];
+  // Decoded Batch API responses compared with GraphQL
+  batchDataComparison?: DataComparisonResult;
+  batchStatistics?: BatchComparisonStatistics;
+  instance?: ResultInstance;
+  visibility?: DataVisibility;
+  // Table API parameters of a REST tuning matrix run
+  restTuning?: RestTuningOptions;
+  graphqlShape?: GraphQLValueShape;
+  // Pagination scenarios: the traversal of the last measured run of each API
+  pagination?: PaginationComparison;
+  // Set when the record limit came from a limit sweep
+  limitSweep?: { limit: number; scale: LimitSweepScale };
+  // Generated field-count and dot-walk-depth scenarios
+  querySweep?: QuerySweepStep;
+}
+
+export type TestWinner = 'rest' | 'graphql' | 'batch' | 'tie';
+
+// Medians over the measured runs of a multi-table REST batch
+export interface RestBatchTiming {
+  mode: 'sequential' | 'parallel';
+  // 1 when sequential
+  maxConcurrency: number;
+  // Individual call times added up, what the batch costs when loaded one call at a time
+  sequentialSum: number;
+  // Elapsed time from the first request to the last response
+  wallClock: number;
+}
+
+export interface ResponseTimeStatistics {
+  sampleCount: number;
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  standardDeviation: number;
+  // Standard deviation relative to the mean, in percent
+  coefficientOfVariation: number;
+}
+
+export interface SignificanceTestResult {
+  method: 'mann-whitney-u';
+  // Exact distribution for small samples, normal approximation otherwise
+  exact: boolean;
+  statistic: number;
+  pValue: number;
+  alpha: number;
+  significant: boolean;
+}
+
+export interface ComparisonStatistics {
+  rest: ResponseTimeStatistics;
+  graphql: ResponseTimeStatistics;
+  significance: SignificanceTestResult;
+  // GraphQL median minus REST median, in milliseconds
+  medianDifference: number;
+}
+
+// Batch API samples tested against both other contenders
+export interface BatchComparisonStatistics {
+  batch: ResponseTimeStatistics;
+  versusRest: SignificanceTestResult;
+  versusGraphql: SignificanceTestResult;
+}
+
+// Server side of one benchmark request, read back from syslog_transaction (milliseconds)
+export interface ServerTiming {
+  correlationId: string;
+  responseTime?: number;
+  sqlTime?: number;
+  businessRuleTime?: number;
+  semaphoreWait?: number;
+}
+
+// Client side of one benchmark request from its PerformanceResourceTiming entry (milliseconds).
+// The phases follow each other, so together they make up the client-measured time
+export interface NetworkTiming {
+  correlationId: string;
+  // From the timer start to the fetch: auth headers and the app's own work
+  preparation: number;
+  // Detailed phases; cross-origin entries without Timing-Allow-Origin only expose the whole fetch
+  dns?: number;
+  connect?: number;
+  tls?: number;
+  // Until the request was sent: cache lookup, redirects, a stalled connection
+  request?: number;
+  ttfb?: number;
+  download?: number;
+  fetch: number;
+  // Body parsing after the last byte
+  parse: number;
+  transferSize?: number;
+  encodedBodySize?: number;
+  decodedBodySize?: number;
+}
+
+// Every measured request of an API call is tagged; the timing lookups run after the test
+export interface CallTimingLog {
+  correlationIds?: string[];
+  // In request order; requests the log has no transaction for are left out
+  serverTiming?: ServerTiming[];
+  serverTimingError?: string;
+  // In request order; requests without a resource timing entry are left out
+  networkTiming?: NetworkTiming[];
 }
 
 export interface TestStatus {
   id: string;
   testType: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   startTime?: Date;
   endTime?: Date;
   error?: string;
-  restApiCall?: {
+  restApiCall?: CallTimingLog & {
     url: string;
     method: string;
     responseTime: number;
@@ -114,7 +645,7 @@ export interface TestStatus {
     responseBody?: unknown;
     headers?: Record<string, string>;
   };
-  graphqlApiCall?: {
+  graphqlApiCall?: CallTimingLog & {
     url: string;
     method: string;
     query?: string;
@@ -126,12 +657,23 @@ export interface TestStatus {
     responseBody?: unknown;
     headers?: Record<string, string>;
   };
+  batchApiCall?: CallTimingLog & {
+    url: string;
+    method: string;
+    responseTime: number;
+    payloadSize: number;
+    success: boolean;
+    requestBody?: unknown;
+    responseBody?: unknown;
+    headers?: Record<string, string>;
+  };
   dataComparison?: DataComparisonResult;
 }
 
 export interface PerformanceMetrics {
   restWins: number;
   graphqlWins: number;
+  batchWins?: number;
   totalTests: number;
   averageRestResponseTime: number;
   averageGraphqlResponseTime: number;
@@ -140,6 +682,64 @@ export interface PerformanceMetrics {
   successRate: number;
 }
 
+// A finished benchmark run kept in the run history
+export interface BenchmarkRun {
+  id: string;
+  name: string;
+  tags: string[];
+  instanceUrl: string;
+  appVersion: string;
+  startedAt: Date;
+  finishedAt: Date;
+  testConfiguration: TestConfiguration;
+  results: TestResult[];
+  statuses: TestStatus[];
+  metrics: PerformanceMetrics;
+  // Stopped before every planned test ran
+  cancelled: boolean;
+}
+
+// Change of one metric between a baseline and a candidate run; undefined when either side has no value
+export interface MetricDelta {
+  baseline?: number;
+  candidate?: number;
+  delta?: number;
+  deltaPercent?: number;
+}
+
+export interface RunDiffApiDelta {
+  responseTime: MetricDelta;
+  payloadSize: MetricDelta;
+  // Response time grew by more than the regression threshold
+  regressed: boolean;
+}
+
+export interface RunDiffEntry {
+  id: string;
+  testType: string;
+  category?: string;
+  rest: RunDiffApiDelta;
+  graphql: RunDiffApiDelta;
+  batch?: RunDiffApiDelta;
+  // Data consistency percentage (0-100)
+  consistency: MetricDelta;
+  baselineWinner: TestWinner;
+  candidateWinner: TestWinner;
+  winnerFlipped: boolean;
+}
+
+export interface RunDiff {
+  baselineId: string;
+  candidateId: string;
+  regressionThreshold: number;
+  entries: RunDiffEntry[];
+  // Test ids present in one run only
+  onlyInBaseline: string[];
+  onlyInCandidate: string[];
+  regressionCount: number;
+  winnerFlipCount: number;
+}
+
 export interface ApiError {
   message: string;
   code?: string;
@@ -184,6 +784,8 @@ export interface CustomRequest {
     limit?: number;
   };
   tags?: string[];
+  // Overrides the custom requests category measurement settings
+  measurement?: Partial<MeasurementSettings>;
   createdAt: Date;
   updatedAt: Date;
 }
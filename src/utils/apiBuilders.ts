@@ -1,6 +1,6 @@
 // Utility functions for building REST and GraphQL queries from testSpecs
 import { testSpecs } from "../specs/testSpecs";
-import { ValidationError, CustomRequest, GraphQLFieldStructure } from "../types";
+import { ValidationError, CustomRequest, GraphQLFieldStructure, BatchRequestBody, BatchResponseBody, AggregateSpec, AggregateFunction, GraphQLValueShape, RestTuningOptions } from "../types";
 import { sanitizeString } from "./secureStorage";
 
 // Input validation utilities
@@ -104,7 +104,7 @@ function validateFilter(filter: string | undefined): ValidationError[] {
     return errors;
 }
 
-export function buildRestUrl({ table, fields, limit, filter, offset, sort }: { table: string; fields?: string[] | null; limit?: number; filter?: string; offset?: number; sort?: string }): {
+export function buildRestUrl({ table, fields, limit, filter, offset, sort, tuning }: { table: string; fields?: string[] | null; limit?: number; filter?: string; offset?: number; sort?: string; tuning?: RestTuningOptions }): {
     url: string;
     errors: ValidationError[];
 } {
@@ -160,11 +160,19 @@ export function buildRestUrl({ table, fields, limit, filter, offset, sort }: { t
 
     url += `sysparm_query=${encodeURIComponent(queryConditions)}&`;
 
+    // Tuning parameters are only sent when asked for, so untuned URLs stay as they were
+    if (tuning) {
+        url += `sysparm_display_value=${tuning.displayValue}&`;
+        url += `sysparm_exclude_reference_link=${tuning.excludeReferenceLink}&`;
+        url += `sysparm_no_count=${tuning.noCount}&`;
+        url += `sysparm_suppress_pagination_header=${tuning.suppressPaginationHeader}&`;
+    }
+
     return { url: url.replace(/&$/, ""), errors };
 }
 
 // Helper function to convert REST dot-walking fields to GraphQL nested structure
-function convertDotWalkingFieldsToGraphQL(fields: string[]): Record<string, unknown> {
+export function convertDotWalkingFieldsToGraphQL(fields: string[]): Record<string, unknown> {
     const nestedFields: Record<string, unknown> = {};
     
     for (const field of fields) {
@@ -196,8 +204,19 @@ function convertDotWalkingFieldsToGraphQL(fields: string[]): Record<string, unkn
     return nestedFields;
 }
 
+// Leaf selections for a value shape; without one, each leaf keeps what the field tree asks for
+function leafSelections(fieldValue: Record<string, unknown>, shape?: GraphQLValueShape): string[] {
+    if (shape) {
+        return shape === "both" ? ["value", "displayValue"] : [shape];
+    }
+    const valueFields = [];
+    if (fieldValue.value) valueFields.push("value");
+    if (fieldValue.displayValue) valueFields.push("displayValue");
+    return valueFields;
+}
+
 // Helper function to build nested GraphQL field structure
-function buildNestedGraphQLFields(fieldsObj: Record<string, unknown>, indent = 10): string {
+function buildNestedGraphQLFields(fieldsObj: Record<string, unknown>, indent = 10, shape?: GraphQLValueShape): string {
     const spaces = " ".repeat(indent);
     let result = "";
 
@@ -205,21 +224,19 @@ function buildNestedGraphQLFields(fieldsObj: Record<string, unknown>, indent = 1
         if (typeof fieldValue === "object" && fieldValue !== null) {
             if ("value" in fieldValue || "displayValue" in fieldValue) {
                 // Leaf field with value/displayValue
-                const valueFields = [];
-                if ((fieldValue as Record<string, unknown>).value) valueFields.push("value");
-                if ((fieldValue as Record<string, unknown>).displayValue) valueFields.push("displayValue");
+                const valueFields = leafSelections(fieldValue as Record<string, unknown>, shape);
                 result += `${spaces}${fieldName} {\n${spaces}  ${valueFields.join(", ")}\n${spaces}}\n`;
             } else if ("_reference" in fieldValue) {
                 // Reference field - need to wrap in _reference structure
                 result += `${spaces}${fieldName} {\n`;
                 result += `${spaces}  _reference {\n`;
-                result += buildNestedGraphQLFields((fieldValue as Record<string, unknown>)._reference as Record<string, unknown>, indent + 4);
+                result += buildNestedGraphQLFields((fieldValue as Record<string, unknown>)._reference as Record<string, unknown>, indent + 4, shape);
                 result += `${spaces}  }\n`;
                 result += `${spaces}}\n`;
             } else {
                 // Nested object field (non-reference)
                 result += `${spaces}${fieldName} {\n`;
-                result += buildNestedGraphQLFields(fieldValue as Record<string, unknown>, indent + 2);
+                result += buildNestedGraphQLFields(fieldValue as Record<string, unknown>, indent + 2, shape);
                 result += `${spaces}}\n`;
             }
         }
@@ -235,6 +252,8 @@ export function buildGraphQLQuery({
     filter,
     after,
     orderBy,
+    shape,
+    rowCount,
 }: {
     table: string;
     fields?: string[] | Record<string, unknown> | null;
@@ -242,6 +261,10 @@ export function buildGraphQLQuery({
     filter?: unknown;
     after?: string;
     orderBy?: unknown;
+    // Rewrites every leaf to value, displayValue or both
+    shape?: GraphQLValueShape;
+    // Also select _rowCount, the size of the whole filtered result set
+    rowCount?: boolean;
 }): { query: string; errors: ValidationError[] } {
     const errors: ValidationError[] = [];
 
@@ -275,7 +298,7 @@ export function buildGraphQLQuery({
 
             // Convert dot-walking fields to proper GraphQL nested structure
             const nestedFieldsObj = convertDotWalkingFieldsToGraphQL(fieldsToInclude);
-            fieldJSON = buildNestedGraphQLFields(nestedFieldsObj, 10);
+            fieldJSON = buildNestedGraphQLFields(nestedFieldsObj, 10, shape);
         } else if (typeof fields === "object") {
             // New nested field structure
             const fieldsObj = { ...fields } as Record<string, unknown>;
@@ -285,14 +308,11 @@ export function buildGraphQLQuery({
                 fieldsObj.sys_id = { value: true, displayValue: true };
             }
 
-            fieldJSON = buildNestedGraphQLFields(fieldsObj, 10);
+            fieldJSON = buildNestedGraphQLFields(fieldsObj, 10, shape);
         }
     } else {
         // If no fields specified, at least include sys_id
-        fieldJSON = `          sys_id {
-            value,
-            displayValue
-          }`;
+        fieldJSON = buildNestedGraphQLFields({ sys_id: { value: true, displayValue: true } }, 10, shape);
     }
 
     // Build argument strings
@@ -324,7 +344,7 @@ export function buildGraphQLQuery({
     const query = `query {
     GlideRecord_Query {
       ${sanitizedTable}${argsStr} {
-        _results {
+${rowCount ? "        _rowCount\n" : ""}        _results {
 ${fieldJSON}        }
       }
     }
@@ -334,14 +354,8 @@ ${fieldJSON}        }
 }
 
 // Custom request builder functions
-export function buildCustomRestUrl(request: CustomRequest): { url: string; errors: ValidationError[] } {
-    return buildRestUrl({
-        table: request.table,
-        fields: request.restConfig.fields,
-        limit: request.restConfig.limit,
-        filter: request.restConfig.filters,
-        sort: request.restConfig.orderBy,
-    });
+export function buildCustomRestUrl(request: CustomRequest, limit?: number): { url: string; errors: ValidationError[] } {
+    return buildRestUrl(getCustomRequestQueryParams(request, limit).restParams);
 }
 
 // Helper function to convert GraphQLFieldStructure to object for buildGraphQLQuery
@@ -364,16 +378,35 @@ function convertGraphQLFieldStructureToObject(fields: GraphQLFieldStructure): Re
     return result;
 }
 
-export function buildCustomGraphQLQuery(request: CustomRequest): { query: string; errors: ValidationError[] } {
-    const convertedFields = convertGraphQLFieldStructureToObject(request.graphqlConfig.fields);
+// Resolve a custom request into buildRestUrl/buildGraphQLQuery parameters.
+// An explicit limit overrides the per-API limits stored on the request.
+export function getCustomRequestQueryParams(
+    request: CustomRequest,
+    limit?: number
+): {
+    restParams: Parameters<typeof buildRestUrl>[0];
+    graphqlParams: Parameters<typeof buildGraphQLQuery>[0];
+} {
+    return {
+        restParams: {
+            table: request.table,
+            fields: request.restConfig.fields,
+            limit: limit ?? request.restConfig.limit,
+            filter: request.restConfig.filters,
+            sort: request.restConfig.orderBy,
+        },
+        graphqlParams: {
+            table: request.table,
+            fields: convertGraphQLFieldStructureToObject(request.graphqlConfig.fields),
+            limit: limit ?? request.graphqlConfig.limit,
+            filter: request.graphqlConfig.filters,
+            orderBy: request.graphqlConfig.orderBy,
+        },
+    };
+}
 
-    return buildGraphQLQuery({
-        table: request.table,
-        fields: convertedFields,
-        limit: request.graphqlConfig.limit,
-        filter: request.graphqlConfig.filters,
-        orderBy: request.graphqlConfig.orderBy,
-    });
+export function buildCustomGraphQLQuery(request: CustomRequest, limit?: number): { query: string; errors: ValidationError[] } {
+    return buildGraphQLQuery(getCustomRequestQueryParams(request, limit).graphqlParams);
 }
 
 // Helper function to calculate query complexity score
@@ -509,6 +542,7 @@ export function buildMultiTableGraphQLQuery({
     limit,
     orderBy = "sys_id",
     maxComplexity = 500,
+    shape,
 }: {
     restCalls: Array<{
         table: string;
@@ -518,6 +552,7 @@ export function buildMultiTableGraphQLQuery({
     limit?: number;
     orderBy?: string;
     maxComplexity?: number;
+    shape?: GraphQLValueShape;
 }): { query: string; errors: ValidationError[] } {
     const errors: ValidationError[] = [];
 
@@ -578,7 +613,7 @@ export function buildMultiTableGraphQLQuery({
 
         // Build field structure for GraphQL with proper dot-walking support
         const nestedFieldsObj = convertDotWalkingFieldsToGraphQL(sanitizedFields);
-        const fieldJSON = buildNestedGraphQLFields(nestedFieldsObj, 10);
+        const fieldJSON = buildNestedGraphQLFields(nestedFieldsObj, 10, shape);
 
         // Build query conditions with ordering
         let queryConditions = "";
@@ -622,7 +657,162 @@ ${tableQueries.join("\n")}
     return { query, errors };
 }
 
+export const BATCH_ENDPOINT = "api/now/v1/batch";
+
+// Batch API request bundling one Table API GET per REST call; request ids are the call indexes
+export function buildBatchRequest({
+    restCalls,
+    limit,
+    tuning,
+}: {
+    restCalls: Array<{
+        table: string;
+        fields: string[];
+        filter?: string;
+    }>;
+    limit?: number;
+    tuning?: RestTuningOptions;
+}): { body: BatchRequestBody; errors: ValidationError[] } {
+    const errors: ValidationError[] = [];
+    const body: BatchRequestBody = { batch_request_id: `batch-${Date.now()}`, rest_requests: [] };
+
+    if (!restCalls || restCalls.length === 0) {
+        errors.push({ field: "restCalls", message: "At least one REST call is required" });
+        return { body, errors };
+    }
+
+    restCalls.forEach((call, index) => {
+        const restUrl = buildRestUrl({ table: call.table, fields: call.fields, filter: call.filter, limit, tuning });
+        if (restUrl.errors.length > 0) {
+            errors.push(...restUrl.errors.map(error => ({ ...error, field: `restCalls[${index}].${error.field}` })));
+            return;
+        }
+
+        body.rest_requests.push({
+            id: String(index),
+            method: "GET",
+            // Batch URLs are relative to the instance root
+            url: `/${restUrl.url}`,
+            headers: [{ name: "Accept", value: "application/json" }],
+        });
+    });
+
+    return { body, errors };
+}
+
+function decodeBase64Json(encoded: string): unknown {
+    const bytes = Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+    return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+// Decoded response bodies in REST call order, plus the requests the instance did not serve
+export function parseBatchResponse(
+    response: BatchResponseBody,
+    requestCount: number
+): { bodies: unknown[]; failures: string[] } {
+    const bodies: unknown[] = new Array(requestCount).fill(undefined);
+    const failures: string[] = [];
+
+    for (const serviced of response?.serviced_requests || []) {
+        const index = Number(serviced.id);
+        if (!Number.isInteger(index) || index < 0 || index >= requestCount) continue;
+
+        if (serviced.status_code < 200 || serviced.status_code >= 300) {
+            failures.push(`Request ${serviced.id}: ${serviced.status_code} ${serviced.status_text || ""}`.trim());
+        }
+        try {
+            bodies[index] = serviced.body ? decodeBase64Json(serviced.body) : undefined;
+        } catch {
+            failures.push(`Request ${serviced.id}: response body is not valid base64 JSON`);
+        }
+    }
+
+    for (const id of response?.unserviced_requests || []) {
+        failures.push(`Request ${id}: not serviced`);
+    }
+
+    return { bodies, failures };
+}
+
 // Enhanced validation function for production environments
+export const STATS_ENDPOINT = "api/now/stats";
+
+const aggregateFunctions: AggregateFunction[] = ["sum", "avg", "min", "max"];
+
+function validateAggregate(aggregate: AggregateSpec): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const hasMetric = aggregate.count || aggregateFunctions.some(fn => (aggregate[fn] || []).length > 0);
+
+    if (!hasMetric) {
+        errors.push({ field: "aggregate", message: "At least one aggregate (count, sum, avg, min or max) is required" });
+    }
+    errors.push(...validateFields(aggregate.groupBy));
+    aggregateFunctions.forEach(fn => errors.push(...validateFields(aggregate[fn])));
+
+    return errors;
+}
+
+// Aggregate API URL (/api/now/stats/{table}); values come back as strings, grouped when groupBy is set
+export function buildStatsUrl({ table, aggregate, filter }: { table: string; aggregate: AggregateSpec; filter?: string }): {
+    url: string;
+    errors: ValidationError[];
+} {
+    const errors: ValidationError[] = [...validateTableName(table), ...validateAggregate(aggregate), ...validateFilter(filter)];
+    if (errors.length > 0) {
+        return { url: "", errors };
+    }
+
+    const params: string[] = [];
+    if (aggregate.count) params.push("sysparm_count=true");
+    if (aggregate.groupBy?.length) params.push(`sysparm_group_by=${aggregate.groupBy.map(sanitizeString).join(",")}`);
+    aggregateFunctions.forEach(fn => {
+        const fields = aggregate[fn];
+        if (fields?.length) params.push(`sysparm_${fn}_fields=${fields.map(sanitizeString).join(",")}`);
+    });
+    if (filter) params.push(`sysparm_query=${encodeURIComponent(sanitizeString(filter))}`);
+
+    return { url: `${STATS_ENDPOINT}/${encodeURIComponent(sanitizeString(table))}?${params.join("&")}`, errors };
+}
+
+// GlideRecord_Query aggregate: _aggregate returns one entry per group (a single entry without groupBy)
+export function buildAggregateGraphQLQuery({ table, aggregate, filter }: { table: string; aggregate: AggregateSpec; filter?: string }): {
+    query: string;
+    errors: ValidationError[];
+} {
+    const errors: ValidationError[] = [...validateTableName(table), ...validateAggregate(aggregate), ...validateFilter(filter)];
+    if (errors.length > 0) {
+        return { query: "", errors };
+    }
+
+    const spaces = " ".repeat(10);
+    let selection = "";
+    if (aggregate.groupBy?.length) {
+        const groupFields = aggregate.groupBy.map(field => `${spaces}  ${sanitizeString(field)} {\n${spaces}    value, displayValue\n${spaces}  }\n`).join("");
+        selection += `${spaces}groupBy {\n${groupFields}${spaces}}\n`;
+    }
+    if (aggregate.count) selection += `${spaces}count\n`;
+    aggregateFunctions.forEach(fn => {
+        const fields = aggregate[fn];
+        if (!fields?.length) return;
+        const fnFields = fields.map(field => `${spaces}  ${sanitizeString(field)} {\n${spaces}    value\n${spaces}  }\n`).join("");
+        selection += `${spaces}${fn} {\n${fnFields}${spaces}}\n`;
+    });
+
+    const args = filter ? `(queryConditions: ${JSON.stringify(sanitizeString(filter))})` : "";
+    const groupByArg = aggregate.groupBy?.length ? `(groupBy: ${JSON.stringify(aggregate.groupBy.map(sanitizeString))})` : "";
+
+    const query = `query {
+    GlideRecord_Query {
+      ${sanitizeString(table)}${args} {
+        _aggregate${groupByArg} {
+${selection}        }
+      }
+    }
+  }`;
+
+    return { query, errors };
+}
+
 export function validateMultiTableScenario(scenario: { name: string; restCalls: Array<{ table: string; fields: string[]; filter?: string }> }): {
     valid: boolean;
     errors: ValidationError[];
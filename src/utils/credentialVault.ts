@@ -0,0 +1,282 @@
+// Passphrase-protected credential vault: entries are encrypted with AES-GCM under a PBKDF2-derived key before they reach localStorage
+
+export type VaultMode = 'encrypted' | 'memory';
+export type VaultStatus = 'setup' | 'locked' | 'unlocked';
+
+export interface VaultEntry<T> {
+  // Reads a value stored before the vault existed
+  migrate: (legacy: unknown) => T;
+  // The part of a value that may be stored when secrets are not persisted
+  withoutSecrets: (value: T) => T;
+}
+
+interface EncryptedEnvelope {
+  v: typeof VAULT_FORMAT;
+  iv: string;
+  data: string;
+}
+
+interface PlainEnvelope<T = unknown> {
+  v: typeof VAULT_FORMAT;
+  plain: T;
+}
+
+interface VaultMeta {
+  mode: VaultMode;
+  salt?: string;
+  iterations?: number;
+  // Known value encrypted with the key, to tell a wrong passphrase apart
+  check?: EncryptedEnvelope;
+}
+
+const VAULT_FORMAT = 2;
+const VAULT_META_KEY = 'snow_benchmark_vault';
+const PBKDF2_ITERATIONS = 310000;
+const CHECK_VALUE = 'snow-api-analyzer';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const AUTO_LOCK_MS = 15 * 60 * 1000; // 15 minutes of inactivity
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encrypt(key: CryptoKey, value: unknown): Promise<EncryptedEnvelope> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(value)));
+  return { v: VAULT_FORMAT, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+// Throws when the key is wrong or the data was tampered with
+async function decrypt<T>(key: CryptoKey, envelope: EncryptedEnvelope): Promise<T> {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.data));
+  return JSON.parse(decoder.decode(data));
+}
+
+function isEncrypted(value: unknown): value is EncryptedEnvelope {
+  return typeof value === 'object' && value !== null && (value as EncryptedEnvelope).v === VAULT_FORMAT && 'data' in value;
+}
+
+function isPlain(value: unknown): value is PlainEnvelope {
+  return typeof value === 'object' && value !== null && (value as PlainEnvelope).v === VAULT_FORMAT && 'plain' in value;
+}
+
+class CredentialVault {
+  private key: CryptoKey | null = null;
+  private entries = new Map<string, VaultEntry<unknown>>();
+  private values = new Map<string, unknown>();
+  // Entries written while locked, kept in memory and stored once the vault is unlocked again
+  private pending = new Set<string>();
+  private versions = new Map<string, number>();
+  private listeners = new Set<() => void>();
+  private loaded = false;
+
+  register<T>(storageKey: string, entry: VaultEntry<T>): void {
+    this.entries.set(storageKey, entry as VaultEntry<unknown>);
+  }
+
+  get mode(): VaultMode | null {
+    return this.readMeta()?.mode ?? null;
+  }
+
+  get status(): VaultStatus {
+    const meta = this.readMeta();
+    if (!meta) return 'setup';
+    return meta.mode === 'memory' || this.key ? 'unlocked' : 'locked';
+  }
+
+  // Whether the stored entries have been read since startup or the last reset
+  get isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Start protecting entries with a passphrase, or keep secrets in memory only when there is none
+  async create(passphrase: string | null): Promise<void> {
+    if (passphrase === null) {
+      this.writeMeta({ mode: 'memory' });
+    } else {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      this.key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+      this.writeMeta({
+        mode: 'encrypted',
+        salt: toBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        check: await encrypt(this.key, CHECK_VALUE),
+      });
+    }
+
+    await this.load();
+    // Existing entries are rewritten in the new format
+    await Promise.all(Array.from(this.entries.keys()).map(storageKey => this.persist(storageKey)));
+    this.notify();
+  }
+
+  async unlock(passphrase: string): Promise<boolean> {
+    const meta = this.readMeta();
+    if (meta?.mode !== 'encrypted' || !meta.salt || !meta.check) return false;
+
+    const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations ?? PBKDF2_ITERATIONS);
+    try {
+      await decrypt(key, meta.check);
+    } catch {
+      return false;
+    }
+
+    this.key = key;
+    await this.load();
+    const pending = Array.from(this.pending);
+    this.pending.clear();
+    await Promise.all(pending.map(storageKey => this.persist(storageKey)));
+    this.notify();
+    return true;
+  }
+
+  // Memory-only vaults need no passphrase
+  async open(): Promise<void> {
+    if (this.mode !== 'memory' || this.loaded) return;
+    await this.load();
+    this.notify();
+  }
+
+  // The decrypted entries go with the key and are read again on unlock
+  lock(): void {
+    if (this.mode !== 'encrypted' || !this.key) return;
+    this.key = null;
+    this.values.clear();
+    this.pending.clear();
+    this.loaded = false;
+    this.notify();
+  }
+
+  // Forget the passphrase and every stored entry
+  reset(): void {
+    try {
+      localStorage.removeItem(VAULT_META_KEY);
+      this.entries.forEach((_, storageKey) => localStorage.removeItem(storageKey));
+    } catch (error) {
+      console.error('Failed to reset credential vault:', error);
+    }
+    this.key = null;
+    this.values.clear();
+    this.pending.clear();
+    this.loaded = false;
+    this.notify();
+  }
+
+  read<T>(storageKey: string): T | undefined {
+    return this.values.get(storageKey) as T | undefined;
+  }
+
+  // Updates the in-memory value right away and stores it in the background
+  write<T>(storageKey: string, value: T | undefined): void {
+    if (value === undefined) {
+      this.values.delete(storageKey);
+    } else {
+      this.values.set(storageKey, value);
+    }
+    this.persist(storageKey).catch(error => console.error('Failed to store vault entry:', error));
+  }
+
+  private async load(): Promise<void> {
+    for (const [storageKey, entry] of this.entries) {
+      // Written while locked, newer than what is stored
+      if (this.pending.has(storageKey)) continue;
+      try {
+        const stored = localStorage.getItem(storageKey);
+        if (!stored) continue;
+
+        const parsed = JSON.parse(stored);
+        if (isEncrypted(parsed)) {
+          if (this.key) {
+            this.values.set(storageKey, await decrypt(this.key, parsed));
+          }
+        } else if (isPlain(parsed)) {
+          this.values.set(storageKey, parsed.plain);
+        } else {
+          this.values.set(storageKey, entry.migrate(parsed));
+          this.pending.add(storageKey);
+        }
+      } catch (error) {
+        console.error(`Failed to read vault entry ${storageKey}:`, error);
+      }
+    }
+    this.loaded = true;
+  }
+
+  private async persist(storageKey: string): Promise<void> {
+    const version = (this.versions.get(storageKey) ?? 0) + 1;
+    this.versions.set(storageKey, version);
+
+    const value = this.values.get(storageKey);
+    if (value === undefined) {
+      localStorage.removeItem(storageKey);
+      return;
+    }
+
+    let serialized: string;
+    if (this.mode === 'encrypted') {
+      if (!this.key) {
+        this.pending.add(storageKey);
+        return;
+      }
+      serialized = JSON.stringify(await encrypt(this.key, value));
+    } else {
+      const entry = this.entries.get(storageKey);
+      const plain: PlainEnvelope = { v: VAULT_FORMAT, plain: entry ? entry.withoutSecrets(value) : value };
+      serialized = JSON.stringify(plain);
+    }
+
+    // A later write finished first
+    if (this.versions.get(storageKey) !== version) return;
+    localStorage.setItem(storageKey, serialized);
+    this.pending.delete(storageKey);
+  }
+
+  private readMeta(): VaultMeta | null {
+    try {
+      const stored = localStorage.getItem(VAULT_META_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeMeta(meta: VaultMeta): void {
+    localStorage.setItem(VAULT_META_KEY, JSON.stringify(meta));
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Singleton instance
+const credentialVault = new CredentialVault();
+
+export { credentialVault };
+
+// Convenience functions
+export const getVaultStatus = () => credentialVault.status;
+export const getVaultMode = () => credentialVault.mode;
+export const createVault = (passphrase: string | null) => credentialVault.create(passphrase);
+export const unlockVault = (passphrase: string) => credentialVault.unlock(passphrase);
+export const lockVault = () => credentialVault.lock();
+export const resetVault = () => credentialVault.reset();
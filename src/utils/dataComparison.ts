@@ -2,7 +2,7 @@
 // Optimized for performance with caching and efficient algorithms
 
 import { logger } from './logger';
-import { ValidationError } from '../types';
+import { AggregateFunction, AggregateSpec, DataVisibility, RestDisplayValue, RestTuningOptions, ValidationError } from '../types';
 
 // Cache for sorted records to avoid repeated sorting
 interface SortedRecordCache {
@@ -14,6 +14,15 @@ interface SortedRecordCache {
 const sortCache = new Map<string, SortedRecordCache>();
 const CACHE_TTL = 300000; // 5 minutes
 
+// sysparm_display_value=all returns sys_id as {display_value, value} too
+function restSysId(record: Record<string, unknown>): string {
+  const sysId = record.sys_id;
+  if (sysId && typeof sysId === 'object') {
+    return String((sysId as Record<string, unknown>).value ?? '');
+  }
+  return (sysId as string) || '';
+}
+
 // Performance optimized record sorting with caching
 function getSortedRecords(records: Record<string, unknown>[], isGraphQL: boolean = false): Record<string, unknown>[] {
   if (records.length === 0) return [];
@@ -32,10 +41,10 @@ function getSortedRecords(records: Record<string, unknown>[], isGraphQL: boolean
   const sortedRecords = [...records].sort((a, b) => {
     const aId = isGraphQL 
       ? (extractNestedGraphQLValue(a, 'sys_id') as string) || ''
-      : (a.sys_id as string) || '';
+      : restSysId(a);
     const bId = isGraphQL
       ? (extractNestedGraphQLValue(b, 'sys_id') as string) || ''
-      : (b.sys_id as string) || '';
+      : restSysId(b);
     return aId.localeCompare(bId);
   });
   
@@ -44,7 +53,7 @@ function getSortedRecords(records: Record<string, unknown>[], isGraphQL: boolean
     records: sortedRecords,
     sortedIds: sortedRecords.map(r => isGraphQL 
       ? (extractNestedGraphQLValue(r, 'sys_id') as string) || ''
-      : (r.sys_id as string) || ''
+      : restSysId(r)
     ),
     lastUpdated: Date.now()
   });
@@ -108,28 +117,41 @@ setInterval(() => {
   }
 }, 60000); // Clean every minute
 
-function extractGraphQLValue(graphqlField: unknown): unknown {
+// Both sides for sysparm_display_value=all; an empty field is null as in the other modes
+function valuePair(value: unknown, displayValue: unknown): unknown {
+  const pair = { value: normalizeValue(value), displayValue: normalizeValue(displayValue) };
+  return pair.value === null && pair.displayValue === null ? null : pair;
+}
+
+// The side of {value, displayValue} REST returned for its sysparm_display_value; 'all' keeps both
+function extractGraphQLValue(graphqlField: unknown, displayValue: RestDisplayValue = 'false'): unknown {
   if (!graphqlField) return null;
-  // GraphQL returns {value, displayValue} - prefer value for comparison
   const field = graphqlField as Record<string, unknown>;
+  if (displayValue === 'all') {
+    return valuePair(field.value, field.displayValue);
+  }
+  if (displayValue === 'true') {
+    return field.displayValue !== undefined ? field.displayValue : field.value;
+  }
+  // GraphQL returns {value, displayValue} - prefer value for comparison
   return field.value !== undefined ? field.value : field.displayValue;
 }
 
 // Memoized nested GraphQL value extraction
 const extractionCache = new Map<string, unknown>();
 
-function extractNestedGraphQLValue(graphqlRecord: Record<string, unknown>, fieldPath: string): unknown {
+function extractNestedGraphQLValue(graphqlRecord: Record<string, unknown>, fieldPath: string, displayValue: RestDisplayValue = 'false'): unknown {
   if (!graphqlRecord || !fieldPath) return null;
   
   // Create cache key
-  const cacheKey = `${JSON.stringify(graphqlRecord)}_${fieldPath}`;
+  const cacheKey = `${JSON.stringify(graphqlRecord)}_${fieldPath}_${displayValue}`;
   const cached = extractionCache.get(cacheKey);
   if (cached !== undefined) return cached;
   
   const parts = fieldPath.split('.');
   if (parts.length === 1) {
     // Simple field
-    const result = extractGraphQLValue(graphqlRecord[fieldPath]);
+    const result = extractGraphQLValue(graphqlRecord[fieldPath], displayValue);
     extractionCache.set(cacheKey, result);
     return result;
   }
@@ -147,7 +169,7 @@ function extractNestedGraphQLValue(graphqlRecord: Record<string, unknown>, field
     
     if (i === parts.length - 1) {
       // Last part - extract the actual value
-      const result = extractGraphQLValue(current[part]);
+      const result = extractGraphQLValue(current[part], displayValue);
       extractionCache.set(cacheKey, result);
       return result;
     } else {
@@ -180,10 +202,11 @@ function isKnownReferenceFieldFormatDifference(restValue: unknown, graphqlValue:
   if (typeof restValue === 'object' && restValue !== null) {
     const restObj = restValue as Record<string, unknown>;
     
-    // REST reference field format: {link: "...", value: "sys_id"}
-    if (restObj.link && restObj.value && typeof restObj.value === 'string') {
+    // REST reference field format: {link: "...", value: "sys_id"}, or {link, display_value} with sysparm_display_value=true
+    const restReference = restObj.value ?? restObj.display_value;
+    if (restObj.link && restReference && typeof restReference === 'string') {
       // GraphQL returns just the sys_id string
-      if (typeof graphqlValue === 'string' && restObj.value === graphqlValue) {
+      if (typeof graphqlValue === 'string' && restReference === graphqlValue) {
         return true;
       }
     }
@@ -192,6 +215,50 @@ function isKnownReferenceFieldFormatDifference(restValue: unknown, graphqlValue:
   return false;
 }
 
+// REST field in the shape sysparm_display_value gives it. References keep their {link} wrapper,
+// so links that were not excluded are reported as in untuned runs
+function extractTunedRestValue(restField: unknown, displayValue: RestDisplayValue): unknown {
+  if (displayValue === 'all') {
+    const field = (restField || {}) as Record<string, unknown>;
+    return valuePair(field.value, field.display_value);
+  }
+  if (restField && typeof restField === 'object' && !(restField as Record<string, unknown>).link) {
+    const field = restField as Record<string, unknown>;
+    return normalizeValue(displayValue === 'true' ? field.display_value : field.value);
+  }
+  return normalizeValue(restField);
+}
+
+// Values of one field from both APIs, ready for valuesMatch; untuned runs compare raw values as before
+function comparableValues(
+  restRecord: Record<string, unknown>,
+  graphqlRecord: Record<string, unknown>,
+  field: string,
+  restTuning?: RestTuningOptions
+): { restValue: unknown; graphqlValue: unknown } {
+  if (!restTuning) {
+    return {
+      restValue: normalizeValue(restRecord[field]),
+      graphqlValue: normalizeValue(extractNestedGraphQLValue(graphqlRecord, field)),
+    };
+  }
+
+  const { displayValue } = restTuning;
+  return {
+    restValue: extractTunedRestValue(restRecord[field], displayValue),
+    graphqlValue: normalizeValue(extractNestedGraphQLValue(graphqlRecord, field, displayValue)),
+  };
+}
+
+// sysparm_display_value=all pairs match when both the value and the display value do
+function valuesMatch(restValue: unknown, graphqlValue: unknown): boolean {
+  if (restValue === graphqlValue) return true;
+  if (!restValue || !graphqlValue || typeof restValue !== 'object' || typeof graphqlValue !== 'object') return false;
+  const rest = restValue as Record<string, unknown>;
+  const graphql = graphqlValue as Record<string, unknown>;
+  return 'displayValue' in rest && rest.value === graphql.value && rest.displayValue === graphql.displayValue;
+}
+
 function extractRestRecords(restResponse: unknown): Record<string, unknown>[] {
   if (!restResponse) return [];
   
@@ -259,7 +326,8 @@ export function compareMultiTableApiResponses(
     table: string;
     fields: string[];
     filter?: string;
-  }>
+  }>,
+  restTuning?: RestTuningOptions
 ): MultiTableComparisonResult {
   const aggregatedIssues: string[] = [];
   const aggregatedFieldMismatches: Array<{
@@ -351,7 +419,8 @@ export function compareMultiTableApiResponses(
       restRecords,
       graphqlRecords,
       expectedFields,
-      tableIdentifier
+      tableIdentifier,
+      restTuning
     );
 
     // Aggregate results
@@ -438,7 +507,8 @@ function compareTableData(
   restRecords: Record<string, unknown>[],
   graphqlRecords: Record<string, unknown>[],
   expectedFields: string[],
-  tableIdentifier: string
+  tableIdentifier: string,
+  restTuning?: RestTuningOptions
 ): {
   totalComparisons: number;
   matchingComparisons: number;
@@ -490,10 +560,9 @@ function compareTableData(
     // Compare each expected field
     for (const field of expectedFields) {
       totalComparisons++;
-      const restValue = normalizeValue(restRecord[field]);
-      const graphqlValue = normalizeValue(extractNestedGraphQLValue(graphqlRecord, field));
+      const { restValue, graphqlValue } = comparableValues(restRecord, graphqlRecord, field, restTuning);
 
-      if (restValue === graphqlValue) {
+      if (valuesMatch(restValue, graphqlValue)) {
         matchingComparisons++;
       } else {
         // Check for known REST reference field format issue
@@ -550,7 +619,8 @@ export function compareApiResponses(
   restResponse: unknown,
   graphqlResponse: unknown,
   tableName: string,
-  expectedFields: string[]
+  expectedFields: string[],
+  restTuning?: RestTuningOptions
 ): DataComparisonResult {
   const issues: string[] = [];
   const fieldMismatches: Array<{
@@ -606,10 +676,9 @@ export function compareApiResponses(
       // Compare each expected field
       for (const field of expectedFields) {
         totalComparisons++;
-        const restValue = normalizeValue(restRecord[field]);
-        const graphqlValue = normalizeValue(extractNestedGraphQLValue(graphqlRecord, field));
+        const { restValue, graphqlValue } = comparableValues(restRecord, graphqlRecord, field, restTuning);
 
-        if (restValue === graphqlValue) {
+        if (valuesMatch(restValue, graphqlValue)) {
           matchingComparisons++;
         } else {
           // Check for known REST reference field format issue
@@ -692,4 +761,181 @@ export function compareApiResponses(
   logger.logPerformanceMetric('dataComparison_matchingRate', matchingComparisons / totalComparisons * 100, '%', 'dataComparison');
   
   return result;
-}
\ No newline at end of file
+}
+
+// A field counts as returned unless it is null, undefined or a blank string
+const hasValue = (value: unknown) => normalizeValue(value) !== null;
+
+// Records and fields each API returned, for comparing what users are allowed to see
+export function summarizeVisibility(
+  restResponse: unknown,
+  graphqlResponse: unknown,
+  tableName: string,
+  expectedFields: string[],
+  comparison: DataComparisonResult
+): DataVisibility {
+  const restRecords = extractRestRecords(restResponse);
+  const graphqlRecords = extractGraphQLRecords(graphqlResponse, tableName);
+
+  const rest = {
+    recordIds: restRecords.map(restSysId).filter(Boolean),
+    fields: expectedFields.filter(field => restRecords.some(record => hasValue(record[field])))
+  };
+  const graphql = {
+    recordIds: graphqlRecords.map(record => String(extractNestedGraphQLValue(record, 'sys_id') ?? '')).filter(Boolean),
+    fields: expectedFields.filter(field => graphqlRecords.some(record => hasValue(extractNestedGraphQLValue(record, field))))
+  };
+
+  // Records line up when the counts match, so field mismatches with one empty side show what an API withheld;
+  // otherwise fall back to the fields each API returned at all
+  const restOnlyFields = new Set<string>();
+  const graphqlOnlyFields = new Set<string>();
+  if (comparison.recordCountMatch) {
+    for (const mismatch of comparison.fieldMismatches) {
+      if (mismatch.isWarning) continue;
+      if (hasValue(mismatch.restValue) && !hasValue(mismatch.graphqlValue)) restOnlyFields.add(mismatch.field);
+      if (!hasValue(mismatch.restValue) && hasValue(mismatch.graphqlValue)) graphqlOnlyFields.add(mismatch.field);
+    }
+  } else {
+    rest.fields.filter(field => !graphql.fields.includes(field)).forEach(field => restOnlyFields.add(field));
+    graphql.fields.filter(field => !rest.fields.includes(field)).forEach(field => graphqlOnlyFields.add(field));
+  }
+
+  return {
+    rest,
+    graphql,
+    restOnlyFields: Array.from(restOnlyFields),
+    graphqlOnlyFields: Array.from(graphqlOnlyFields)
+  };
+}
+
+// One group of an aggregate response: its group-by values and metrics such as "count" or "avg.reassignment_count"
+interface AggregateRow {
+  key: string;
+  metrics: Record<string, number | null>;
+}
+
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'avg', 'min', 'max'];
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function aggregateMetricNames(aggregate: AggregateSpec): string[] {
+  return [
+    ...(aggregate.count ? ['count'] : []),
+    ...AGGREGATE_FUNCTIONS.flatMap(fn => (aggregate[fn] || []).map(field => `${fn}.${field}`))
+  ];
+}
+
+// /api/now/stats returns {result: {stats}} or, grouped, {result: [{stats, groupby_fields: [{field, value}]}]}
+function extractRestAggregates(restResponse: unknown, aggregate: AggregateSpec): AggregateRow[] {
+  const result = (restResponse as Record<string, unknown>)?.result;
+  if (!result) return [];
+
+  const groups = (Array.isArray(result) ? result : [result]) as Array<Record<string, unknown>>;
+  return groups.map(group => {
+    const stats = (group.stats || {}) as Record<string, unknown>;
+    const groupFields = (group.groupby_fields || []) as Array<{ field: string; value: string }>;
+    const metrics: Record<string, number | null> = {};
+
+    if (aggregate.count) metrics.count = toNumber(stats.count);
+    for (const fn of AGGREGATE_FUNCTIONS) {
+      const values = (stats[fn] || {}) as Record<string, unknown>;
+      (aggregate[fn] || []).forEach(field => { metrics[`${fn}.${field}`] = toNumber(values[field]); });
+    }
+
+    const key = (aggregate.groupBy || []).map(field => groupFields.find(entry => entry.field === field)?.value ?? '').join('|');
+    return { key, metrics };
+  });
+}
+
+function extractGraphQLAggregates(graphqlResponse: unknown, tableName: string, aggregate: AggregateSpec): AggregateRow[] {
+  const response = graphqlResponse as Record<string, unknown>;
+  const query = (response?.data as Record<string, unknown>)?.GlideRecord_Query as Record<string, unknown>;
+  const groups = (query?.[tableName] as Record<string, unknown>)?._aggregate;
+  if (!Array.isArray(groups)) return [];
+
+  return groups.map((group: Record<string, unknown>) => {
+    const groupBy = (group.groupBy || {}) as Record<string, unknown>;
+    const metrics: Record<string, number | null> = {};
+
+    if (aggregate.count) metrics.count = toNumber(group.count);
+    for (const fn of AGGREGATE_FUNCTIONS) {
+      const values = (group[fn] || {}) as Record<string, unknown>;
+      (aggregate[fn] || []).forEach(field => { metrics[`${fn}.${field}`] = toNumber(extractGraphQLValue(values[field])); });
+    }
+
+    const key = (aggregate.groupBy || []).map(field => String(extractGraphQLValue(groupBy[field]) ?? '')).join('|');
+    return { key, metrics };
+  });
+}
+
+// Averages may be rounded differently by the two APIs
+function aggregateValuesMatch(restValue: number | null, graphqlValue: number | null): boolean {
+  if (restValue === null || graphqlValue === null) return restValue === graphqlValue;
+  return Math.abs(restValue - graphqlValue) <= Math.max(0.005, Math.abs(restValue) * 1e-4);
+}
+
+// Compares aggregated values group by group instead of records; "record" counts are group counts
+export function compareAggregateResponses(
+  restResponse: unknown,
+  graphqlResponse: unknown,
+  tableName: string,
+  aggregate: AggregateSpec
+): DataComparisonResult {
+  const issues: string[] = [];
+  const fieldMismatches: DataComparisonResult['fieldMismatches'] = [];
+
+  const restGroups = new Map(extractRestAggregates(restResponse, aggregate).map(row => [row.key, row.metrics]));
+  const graphqlGroups = new Map(extractGraphQLAggregates(graphqlResponse, tableName, aggregate).map(row => [row.key, row.metrics]));
+  const recordCountMatch = restGroups.size === graphqlGroups.size;
+
+  if (!recordCountMatch) {
+    issues.push(`Group count mismatch: REST returned ${restGroups.size}, GraphQL returned ${graphqlGroups.size}`);
+  }
+
+  const keys = Array.from(new Set([...restGroups.keys(), ...graphqlGroups.keys()])).sort();
+  const metricNames = aggregateMetricNames(aggregate);
+  let totalComparisons = 0;
+  let matchingComparisons = 0;
+
+  keys.forEach((key, index) => {
+    const restMetrics = restGroups.get(key);
+    const graphqlMetrics = graphqlGroups.get(key);
+    if (!restMetrics || !graphqlMetrics) {
+      issues.push(`Group "${key || '(all)'}" only returned by ${restMetrics ? 'REST' : 'GraphQL'}`);
+    }
+
+    for (const metric of metricNames) {
+      totalComparisons++;
+      const restValue = restMetrics?.[metric] ?? null;
+      const graphqlValue = graphqlMetrics?.[metric] ?? null;
+      if (restMetrics && graphqlMetrics && aggregateValuesMatch(restValue, graphqlValue)) {
+        matchingComparisons++;
+      } else if (fieldMismatches.length < 100) {
+        fieldMismatches.push({ recordIndex: index, field: key ? `${key}: ${metric}` : metric, restValue, graphqlValue });
+      }
+    }
+  });
+
+  const dataConsistency = totalComparisons === 0
+    ? 0
+    : fieldMismatches.length === 0 ? 100 : Math.floor((matchingComparisons / totalComparisons) * 100);
+
+  if (fieldMismatches.length > 0) {
+    issues.push(`${fieldMismatches.length} aggregate values differ`);
+  }
+
+  return {
+    isEquivalent: recordCountMatch && fieldMismatches.length === 0 && totalComparisons > 0,
+    recordCountMatch,
+    dataConsistency,
+    issues,
+    restRecordCount: restGroups.size,
+    graphqlRecordCount: graphqlGroups.size,
+    fieldMismatches
+  };
+}
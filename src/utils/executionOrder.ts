@@ -0,0 +1,64 @@
+// Order in which the calls of the competing APIs in one test are made
+
+import { ApiSide, ExecutionOrder, ExecutionOrderRecord } from '../types';
+
+export interface ScheduledRun {
+  side: ApiSide;
+  warmup: boolean;
+}
+
+// Deterministic PRNG (mulberry32) so a recorded seed reproduces the same order
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// Warm-up and measured runs for every API in execution order; sides are listed in their default order
+export function buildRunSchedule(
+  order: ExecutionOrder,
+  sides: ApiSide[],
+  warmupRuns: number,
+  iterations: number,
+  seed?: number
+): { schedule: ScheduledRun[]; record: ExecutionOrderRecord } {
+  const schedule: ScheduledRun[] = [];
+
+  if (order === 'restFirst' || order === 'graphqlFirst') {
+    const first: ApiSide = order === 'restFirst' ? 'rest' : 'graphql';
+    const ordered = [...sides.filter(side => side === first), ...sides.filter(side => side !== first)];
+    for (const side of ordered) {
+      for (let i = 0; i < warmupRuns; i++) schedule.push({ side, warmup: true });
+      for (let i = 0; i < iterations; i++) schedule.push({ side, warmup: false });
+    }
+    return { schedule, record: { order, sequence: schedule.map(run => run.side) } };
+  }
+
+  // Rounds of one call per API; random shuffles every round (Fisher-Yates)
+  const usedSeed = order === 'random' ? seed ?? generateSeed() : undefined;
+  const random = usedSeed !== undefined ? createSeededRandom(usedSeed) : undefined;
+  const round = (warmup: boolean) => {
+    const roundSides = [...sides];
+    if (random) {
+      for (let i = roundSides.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [roundSides[i], roundSides[j]] = [roundSides[j], roundSides[i]];
+      }
+    }
+    roundSides.forEach(side => schedule.push({ side, warmup }));
+  };
+
+  for (let i = 0; i < warmupRuns; i++) round(true);
+  for (let i = 0; i < iterations; i++) round(false);
+
+  return { schedule, record: { order, seed: usedSeed, sequence: schedule.map(run => run.side) } };
+}
@@ -0,0 +1,27 @@
+import { InstanceProfile, ResultInstance, ServiceNowInstance } from '../types';
+
+export function profileToInstance(profile: InstanceProfile, connected = false): ServiceNowInstance {
+  return {
+    url: profile.url,
+    username: profile.username,
+    password: profile.password,
+    token: profile.token,
+    connected,
+    authMode: profile.authMode,
+    oauth: profile.authMode === 'oauth' ? profile.oauth : undefined,
+    apiKey: profile.authMode === 'apikey' ? profile.apiKey : undefined,
+  };
+}
+
+export function toResultInstance(profile: InstanceProfile): ResultInstance {
+  return { profileId: profile.id, profileName: profile.name, url: profile.url };
+}
+
+// Matrix runs prefix test ids with the profile id so the same test on several instances stays distinct
+export function matrixTestId(profileId: string, testId: string): string {
+  return `${profileId}:${testId}`;
+}
+
+export function baseTestId(result: { id: string; instance?: ResultInstance }): string {
+  return result.instance ? result.id.slice(result.instance.profileId.length + 1) : result.id;
+}
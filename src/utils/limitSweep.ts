@@ -0,0 +1,86 @@
+// Limit sweeps: generating the record limits and finding where REST and GraphQL trade places
+
+import { LimitSweep, LimitSweepCrossover, LimitSweepPoint, LimitSweepReport, LimitSweepScale, TestResult } from '../types';
+
+export const defaultLimitSweep: LimitSweep = { from: 1, to: 5000, steps: 12, scale: 'log' };
+
+// Whole, distinct limits in ascending order; rounding can merge neighbouring log steps at the low end
+export function sweepLimits({ from, to, steps, scale }: LimitSweep): number[] {
+  const low = Math.max(1, Math.round(Math.min(from, to)));
+  const high = Math.max(low, Math.round(Math.max(from, to)));
+  const count = Math.max(2, Math.floor(steps));
+
+  const limits = Array.from({ length: count }, (_, index) => {
+    const position = index / (count - 1);
+    return scale === 'log' ? low * Math.pow(high / low, position) : low + (high - low) * position;
+  });
+  return Array.from(new Set(limits.map(Math.round))).sort((a, b) => a - b);
+}
+
+// The limit is its own '-' segment of the id; tuning suffixes and instance prefixes never are all digits
+function withoutSweepLimit(testId: string, limit: number): string {
+  const matches = Array.from(testId.matchAll(new RegExp(`-${limit}(?=-|$)`, 'g')));
+  const last = matches[matches.length - 1];
+  if (!last || last.index === undefined) return testId;
+  return testId.slice(0, last.index) + testId.slice(last.index + last[0].length);
+}
+
+// Sign changes of REST minus GraphQL between neighbouring limits, interpolated linearly
+function findCrossovers(points: Array<{ limit: number; rest?: number; graphql?: number }>): LimitSweepCrossover[] {
+  const differences = points
+    .filter(point => point.rest !== undefined && point.graphql !== undefined)
+    .map(point => ({ limit: point.limit, difference: point.rest! - point.graphql! }))
+    .filter(point => point.difference !== 0);
+
+  const crossovers: LimitSweepCrossover[] = [];
+  for (let i = 1; i < differences.length; i++) {
+    const before = differences[i - 1];
+    const after = differences[i];
+    if (Math.sign(before.difference) === Math.sign(after.difference)) continue;
+
+    const share = before.difference / (before.difference - after.difference);
+    crossovers.push({
+      limit: Math.round(before.limit + (after.limit - before.limit) * share),
+      aheadAbove: after.difference > 0 ? 'graphql' : 'rest',
+    });
+  }
+  return crossovers;
+}
+
+type SweptResult = TestResult & { limitSweep: { limit: number; scale: LimitSweepScale } };
+
+// One report per test swept over at least two limits, points in ascending limit order
+export function compareLimitSweep(testResults: TestResult[]): LimitSweepReport[] {
+  const byTest = new Map<string, SweptResult[]>();
+  for (const result of testResults) {
+    if (!result.limitSweep) continue;
+    const id = withoutSweepLimit(result.id, result.limitSweep.limit);
+    byTest.set(id, [...(byTest.get(id) || []), result as SweptResult]);
+  }
+
+  const reports: LimitSweepReport[] = [];
+  for (const [id, results] of byTest) {
+    if (results.length < 2) continue;
+
+    const points: LimitSweepPoint[] = results
+      .map(result => ({
+        limit: result.limitSweep.limit,
+        restResponseTime: result.restApi.success ? result.restApi.responseTime : undefined,
+        graphqlResponseTime: result.graphqlApi.success ? result.graphqlApi.responseTime : undefined,
+        restPayloadSize: result.restApi.success ? result.restApi.payloadSize : undefined,
+        graphqlPayloadSize: result.graphqlApi.success ? result.graphqlApi.payloadSize : undefined,
+      }))
+      .sort((a, b) => a.limit - b.limit);
+
+    reports.push({
+      id,
+      testType: withoutSweepLimit(results[0].testType, results[0].limitSweep.limit),
+      scale: results[0].limitSweep.scale,
+      points,
+      latencyCrossovers: findCrossovers(points.map(point => ({ limit: point.limit, rest: point.restResponseTime, graphql: point.graphqlResponseTime }))),
+      payloadCrossovers: findCrossovers(points.map(point => ({ limit: point.limit, rest: point.restPayloadSize, graphql: point.graphqlPayloadSize }))),
+    });
+  }
+
+  return reports;
+}
@@ -59,6 +59,9 @@ class Logger {
   }
 
   private setupErrorHandlers(): void {
+    // Nothing to hook into when running headless (CLI)
+    if (typeof window === 'undefined') return;
+
     // Global error handler
     window.addEventListener('error', (event) => {
       this.error('Global error caught', {
@@ -0,0 +1,68 @@
+// Network timing: phases of the benchmark requests from the Resource Timing API
+
+import { NetworkTiming } from '../types';
+import { correlationIdOf } from './serverTiming';
+
+// Entries are dropped once the buffer is full (250 by default); pagination traversals alone can exceed that
+const RESOURCE_TIMING_BUFFER = 5000;
+
+// Timer start and end of a request as the benchmark measured it, on the performance.now() clock
+export interface ClientSpan {
+  start: number;
+  end: number;
+}
+
+const positive = (value: number) => Math.max(0, value);
+
+export function reserveResourceTimingBuffer(): void {
+  if (typeof performance.setResourceTimingBufferSize === 'function') {
+    performance.setResourceTimingBufferSize(RESOURCE_TIMING_BUFFER);
+  }
+}
+
+// Entries of tagged requests by correlation id; entries are queued after the body is read, so look them up after the calls
+export function findResourceEntries(): Map<string, PerformanceResourceTiming> {
+  const entries = new Map<string, PerformanceResourceTiming>();
+  if (typeof performance.getEntriesByType !== 'function') return entries;
+
+  for (const entry of performance.getEntriesByType('resource') as PerformanceResourceTiming[]) {
+    const correlationId = correlationIdOf(entry.name);
+    if (correlationId) entries.set(correlationId, entry);
+  }
+  return entries;
+}
+
+// Entry of one tagged request, available shortly after its body has been read
+export function findResourceEntry(correlationId: string): PerformanceResourceTiming | undefined {
+  if (typeof performance.getEntriesByType !== 'function') return undefined;
+  return (performance.getEntriesByType('resource') as PerformanceResourceTiming[]).find(entry => correlationIdOf(entry.name) === correlationId);
+}
+
+export function clearResourceEntries(): void {
+  if (typeof performance.clearResourceTimings === 'function') {
+    performance.clearResourceTimings();
+  }
+}
+
+// Consecutive phases of one request; without Timing-Allow-Origin the connection and request marks are zero
+export function toNetworkTiming(correlationId: string, entry: PerformanceResourceTiming, span: ClientSpan): NetworkTiming {
+  const timing: NetworkTiming = {
+    correlationId,
+    preparation: positive(entry.startTime - span.start),
+    fetch: positive(entry.responseEnd - entry.startTime),
+    parse: positive(span.end - entry.responseEnd),
+    transferSize: entry.transferSize || undefined,
+    encodedBodySize: entry.encodedBodySize || undefined,
+    decodedBodySize: entry.decodedBodySize || undefined,
+  };
+  if (entry.requestStart === 0 || entry.responseStart === 0) return timing;
+
+  const tlsStart = entry.secureConnectionStart > 0 ? Math.min(entry.secureConnectionStart, entry.connectEnd) : entry.connectEnd;
+  timing.dns = positive(entry.domainLookupEnd - entry.domainLookupStart);
+  timing.connect = positive(tlsStart - entry.connectStart);
+  timing.tls = positive(entry.connectEnd - tlsStart);
+  timing.request = positive(entry.requestStart - entry.startTime - timing.dns - timing.connect - timing.tls);
+  timing.ttfb = positive(entry.responseStart - entry.requestStart);
+  timing.download = positive(entry.responseEnd - entry.responseStart);
+  return timing;
+}
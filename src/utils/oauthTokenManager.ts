@@ -0,0 +1,145 @@
+// OAuth 2.0 access tokens from the instance's /oauth_token.do, cached per instance and refreshed before expiry
+
+import { envLog } from './environment';
+import { TokenInfo } from './tokenManager';
+import { OAuthTokenResponse, ServiceNowInstance } from '../types';
+
+interface OAuthTokenInfo extends TokenInfo {
+  refreshToken?: string;
+}
+
+class OAuthTokenManager {
+  private cachedTokens = new Map<string, OAuthTokenInfo>();
+  private tokenRefreshPromises = new Map<string, Promise<string>>();
+  private readonly TOKEN_REFRESH_THRESHOLD = 60 * 1000; // 60 seconds before expiry
+
+  // One token per instance, client and user
+  private cacheKey(instance: ServiceNowInstance): string {
+    return [instance.url, instance.oauth?.clientId, instance.oauth?.grantType === 'password' ? instance.username : ''].join('|');
+  }
+
+  // Get a valid token, fetching or refreshing if necessary
+  async getToken(instance: ServiceNowInstance): Promise<string> {
+    const key = this.cacheKey(instance);
+    const cached = this.cachedTokens.get(key);
+
+    if (cached && this.isTokenValid(cached)) {
+      return cached.token;
+    }
+
+    return this.fetchOnce(instance, cached?.refreshToken);
+  }
+
+  // Concurrent callers share one token request
+  private async fetchOnce(instance: ServiceNowInstance, refreshToken?: string): Promise<string> {
+    const key = this.cacheKey(instance);
+    const pending = this.tokenRefreshPromises.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = this.fetchToken(instance, refreshToken);
+    this.tokenRefreshPromises.set(key, promise);
+
+    try {
+      return await promise;
+    } finally {
+      this.tokenRefreshPromises.delete(key);
+    }
+  }
+
+  // Valid until shortly before expiry; short-lived tokens are refreshed after 90% of their lifetime
+  private isTokenValid(info: OAuthTokenInfo): boolean {
+    if (!info.expiresAt) return true;
+    const threshold = Math.min(this.TOKEN_REFRESH_THRESHOLD, (info.expiresAt - info.fetchedAt) * 0.1);
+    return Date.now() < info.expiresAt - threshold;
+  }
+
+  // Force a new token, e.g. after the instance rejected the cached one
+  async refreshToken(instance: ServiceNowInstance): Promise<string> {
+    const key = this.cacheKey(instance);
+    const cached = this.cachedTokens.get(key);
+    this.cachedTokens.delete(key);
+    return this.fetchOnce(instance, cached?.refreshToken);
+  }
+
+  clearTokens(): void {
+    this.cachedTokens.clear();
+    this.tokenRefreshPromises.clear();
+  }
+
+  getTokenInfo(instance: ServiceNowInstance): TokenInfo | null {
+    const cached = this.cachedTokens.get(this.cacheKey(instance));
+    return cached ? { token: cached.token, fetchedAt: cached.fetchedAt, expiresAt: cached.expiresAt } : null;
+  }
+
+  // Uses the refresh token when there is one and falls back to the configured grant if it is rejected
+  private async fetchToken(instance: ServiceNowInstance, refreshToken?: string): Promise<string> {
+    if (refreshToken) {
+      try {
+        return await this.requestToken(instance, { grant_type: 'refresh_token', refresh_token: refreshToken });
+      } catch (error) {
+        envLog.warn('OAuth refresh token rejected, requesting a new token:', error);
+      }
+    }
+
+    const { oauth } = instance;
+    if (!oauth) {
+      throw new Error('OAuth client settings are missing');
+    }
+
+    return this.requestToken(
+      instance,
+      oauth.grantType === 'password'
+        ? { grant_type: 'password', username: instance.username, password: instance.password }
+        : { grant_type: 'client_credentials' }
+    );
+  }
+
+  private async requestToken(instance: ServiceNowInstance, grant: Record<string, string>): Promise<string> {
+    if (!instance.oauth?.clientId || !instance.oauth.clientSecret) {
+      throw new Error('OAuth needs a client id and client secret');
+    }
+
+    const tokenUrl = `${instance.url.replace(/\/$/, '')}/oauth_token.do`;
+    envLog.info(`Requesting OAuth token (${grant.grant_type}) from: ${tokenUrl}`);
+
+    const response = await fetch(tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+      body: new URLSearchParams({ ...grant, client_id: instance.oauth.clientId, client_secret: instance.oauth.clientSecret }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OAuth token request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const tokenData: OAuthTokenResponse = await response.json();
+    if (!tokenData.access_token) {
+      throw new Error('OAuth token response did not contain an access token');
+    }
+
+    const fetchedAt = Date.now();
+    this.cachedTokens.set(this.cacheKey(instance), {
+      token: tokenData.access_token,
+      fetchedAt,
+      expiresAt: tokenData.expires_in ? fetchedAt + tokenData.expires_in * 1000 : undefined,
+      // ServiceNow keeps the refresh token when refreshing without issuing a new one
+      refreshToken: tokenData.refresh_token || grant.refresh_token,
+    });
+
+    envLog.info('OAuth token fetched and cached successfully');
+    return tokenData.access_token;
+  }
+}
+
+// Singleton instance
+const oauthTokenManager = new OAuthTokenManager();
+
+export { oauthTokenManager };
+
+// Convenience functions
+export const getOAuthToken = (instance: ServiceNowInstance) => oauthTokenManager.getToken(instance);
+export const refreshOAuthToken = (instance: ServiceNowInstance) => oauthTokenManager.refreshToken(instance);
+export const clearOAuthTokens = () => oauthTokenManager.clearTokens();
+export const getOAuthTokenInfo = (instance: ServiceNowInstance) => oauthTokenManager.getTokenInfo(instance);
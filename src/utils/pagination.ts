@@ -0,0 +1,82 @@
+// Pagination traversals: following the pages of a result set and checking both APIs reached every record
+
+import { PaginationComparison, PaginationPage, PaginationTraversal } from '../types';
+
+// Stops a traversal whose API keeps returning full pages
+export const MAX_TRAVERSAL_PAGES = 1000;
+
+// Pages and sys_ids collected by one API while walking the result set
+export interface TraversalLog {
+  pageSize: number;
+  pages: PaginationPage[];
+  totalTime: number;
+  reportedTotal?: number;
+  ids: string[];
+}
+
+const MISSING_IDS_SHOWN = 20;
+
+// Link: <url>;rel="next",<url>;rel="last" → { next: url, last: url }
+export function parseLinkHeader(header: string | null | undefined): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/);
+    if (match) links[match[2]] = match[1];
+  }
+  return links;
+}
+
+// Link header URLs are absolute; requests go through the configured instance, so only the path is kept
+export function toInstanceEndpoint(link: string): string {
+  const url = new URL(link, 'http://instance.invalid');
+  return `${url.pathname.replace(/^\//, '')}${url.search}`;
+}
+
+export function offsetOfEndpoint(endpoint: string): number {
+  const offset = parseInt(new URL(endpoint, 'http://instance.invalid').searchParams.get('sysparm_offset') || '', 10);
+  return Number.isFinite(offset) ? offset : 0;
+}
+
+// REST returns plain sys_ids, GraphQL { value, displayValue } pairs
+export function recordSysId(record: Record<string, unknown>): string | undefined {
+  const sysId = record.sys_id;
+  if (typeof sysId === 'string') return sysId;
+  if (sysId && typeof sysId === 'object' && 'value' in sysId) {
+    const value = (sysId as { value: unknown }).value;
+    return typeof value === 'string' ? value : undefined;
+  }
+  return undefined;
+}
+
+function summarizeTraversal(log: TraversalLog, expectedIds: Set<string>, maxRecords: number | undefined): PaginationTraversal {
+  const seen = new Set(log.ids);
+  const missingIds = Array.from(expectedIds).filter(id => !seen.has(id));
+  const expectedCount = Math.min(Math.max(log.reportedTotal ?? 0, expectedIds.size), maxRecords ?? Infinity);
+  const missingCount = Math.max(expectedCount - seen.size, missingIds.length);
+  const duplicateCount = log.ids.length - seen.size;
+
+  return {
+    pageSize: log.pageSize,
+    pages: log.pages,
+    totalTime: log.totalTime,
+    totalBytes: log.pages.reduce((total, page) => total + page.payloadSize, 0),
+    reportedTotal: log.reportedTotal,
+    recordCount: log.ids.length,
+    uniqueRecords: seen.size,
+    duplicateCount,
+    missingCount,
+    missingIds: missingIds.slice(0, MISSING_IDS_SHOWN),
+    complete: duplicateCount === 0 && missingCount === 0,
+  };
+}
+
+// A record either API reached counts as expected of both; the reported totals catch records neither reached
+export function comparePaginationTraversals(rest: TraversalLog, graphql: TraversalLog, maxRecords?: number): PaginationComparison {
+  const expectedIds = new Set([...rest.ids, ...graphql.ids]);
+  return {
+    rest: summarizeTraversal(rest, expectedIds, maxRecords),
+    graphql: summarizeTraversal(graphql, expectedIds, maxRecords),
+  };
+}
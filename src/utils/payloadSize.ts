@@ -0,0 +1,65 @@
+// Payload sizes: the re-serialized JSON, the decoded response body and the bytes on the wire
+
+import { PayloadSizeMetric, PayloadSizes, PayloadSummary, TestResult } from '../types';
+
+export const payloadSizeMetricLabels: Record<PayloadSizeMetric, string> = {
+  json: 'JSON (re-serialized)',
+  decoded: 'Decoded body',
+  transferred: 'Transferred',
+};
+
+const encoder = new TextEncoder();
+
+// Content-Length is the encoded length, so with gzip it already counts the compressed body
+export function measurePayload(body: string, headers: Headers): PayloadSizes {
+  const contentLength = parseInt(headers.get('Content-Length') ?? '', 10);
+  return {
+    decoded: encoder.encode(body).length,
+    transferred: isNaN(contentLength) ? undefined : contentLength,
+  };
+}
+
+// Sizes of a sample made of several requests; transferred bytes only when every request exposed them
+export function sumPayloadSizes(sizes: Array<PayloadSizes | undefined>): PayloadSizes | undefined {
+  if (sizes.length === 0 || sizes.some(size => !size)) return undefined;
+  const known = sizes as PayloadSizes[];
+  return {
+    decoded: known.reduce((total, size) => total + size.decoded, 0),
+    transferred: known.every(size => size.transferred !== undefined)
+      ? known.reduce((total, size) => total + size.transferred!, 0)
+      : undefined,
+  };
+}
+
+export function payloadSizeOf(api: TestResult['restApi'], metric: PayloadSizeMetric): number | undefined {
+  if (metric === 'json') return api.payloadSize;
+  return api.payloadSizes?.[metric];
+}
+
+// Decoded bytes per transferred byte; 1 means the response was not compressed
+export function compressionRatio(sizes?: PayloadSizes): number | undefined {
+  if (!sizes?.transferred) return undefined;
+  return sizes.decoded / sizes.transferred;
+}
+
+// Totals over the tests where both APIs have the chosen size, so a missing size never decides the comparison
+export function summarizePayloads(results: TestResult[], metric: PayloadSizeMetric): PayloadSummary {
+  const summary: PayloadSummary = { metric, rest: 0, graphql: 0, compared: 0, skipped: 0 };
+  for (const result of results) {
+    const rest = payloadSizeOf(result.restApi, metric);
+    const graphql = payloadSizeOf(result.graphqlApi, metric);
+    if (rest === undefined || graphql === undefined) {
+      summary.skipped++;
+      continue;
+    }
+    summary.rest += rest;
+    summary.graphql += graphql;
+    summary.compared++;
+  }
+
+  const overall = (apis: Array<TestResult['restApi']>) =>
+    compressionRatio(sumPayloadSizes(apis.map(api => api.payloadSizes).filter(sizes => sizes?.transferred !== undefined)));
+  summary.restCompression = overall(results.map(result => result.restApi));
+  summary.graphqlCompression = overall(results.map(result => result.graphqlApi));
+  return summary;
+}
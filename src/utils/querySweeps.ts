@@ -0,0 +1,112 @@
+// Field-count and dot-walk-depth sweeps: generated scenarios and how their cost grows per step
+
+import { DepthSweepSpec, FieldSweepSpec, QuerySweepPoint, QuerySweepReport, QuerySweepStep, TestResult } from '../types';
+import { convertDotWalkingFieldsToGraphQL } from './apiBuilders';
+import { getTableFields } from './serviceNowFieldMappings';
+
+export interface QuerySweepScenario {
+  name: string;
+  restFields: string[];
+  graphqlFields: Record<string, unknown>;
+  querySweep: QuerySweepStep;
+}
+
+// Variants declare a sweep instead of listing their tests
+export interface QuerySweepVariant {
+  table?: string;
+  fieldSweep?: FieldSweepSpec;
+  depthSweep?: DepthSweepSpec;
+}
+
+function toScenario(querySweep: QuerySweepStep, restFields: string[]): QuerySweepScenario {
+  return {
+    name: `${querySweep.dimension}_${querySweep.step}`,
+    restFields,
+    graphqlFields: convertDotWalkingFieldsToGraphQL(restFields),
+    querySweep,
+  };
+}
+
+// One scenario per field count, adding the mapped fields in their mapping order
+export function generateFieldSweep(table: string, { maxFields }: FieldSweepSpec): QuerySweepScenario[] {
+  const fields = getTableFields(table).filter(field => !field.includes('.'));
+  const count = Math.min(fields.length, maxFields ?? fields.length);
+  return Array.from({ length: count }, (_, index) => toScenario({ dimension: 'fields', step: index + 1 }, fields.slice(0, index + 1)));
+}
+
+// One scenario per depth, each selecting the path one level further than the last
+export function generateDepthSweep({ path, baseFields = [] }: DepthSweepSpec): QuerySweepScenario[] {
+  return path.map((_, index) =>
+    toScenario({ dimension: 'depth', step: index + 1 }, [...baseFields, path.slice(0, index + 1).join('.')])
+  );
+}
+
+// Sweeps multiply the run time, so a category without a variant selection leaves them out
+export function defaultVariants(categorySpecs: Record<string, unknown>): string[] {
+  return Object.keys(categorySpecs).filter(key => {
+    const variant = categorySpecs[key] as QuerySweepVariant;
+    return !variant.fieldSweep && !variant.depthSweep;
+  });
+}
+
+export function expandQuerySweep(variant: QuerySweepVariant): QuerySweepScenario[] {
+  if (variant.fieldSweep && variant.table) return generateFieldSweep(variant.table, variant.fieldSweep);
+  if (variant.depthSweep) return generateDepthSweep(variant.depthSweep);
+  return [];
+}
+
+// Least-squares slope of y over the step; undefined with fewer than two values
+function slope(points: Array<{ step: number; value?: number }>): number | undefined {
+  const known = points.filter((point): point is { step: number; value: number } => point.value !== undefined);
+  if (known.length < 2) return undefined;
+
+  const meanStep = known.reduce((total, point) => total + point.step, 0) / known.length;
+  const meanValue = known.reduce((total, point) => total + point.value, 0) / known.length;
+  const covariance = known.reduce((total, point) => total + (point.step - meanStep) * (point.value - meanValue), 0);
+  const variance = known.reduce((total, point) => total + (point.step - meanStep) ** 2, 0);
+  return variance > 0 ? covariance / variance : undefined;
+}
+
+// The generated scenario name is its own '-' segment of the id
+function withoutSweepStep(testId: string, { dimension, step }: QuerySweepStep): string {
+  return testId.replace(new RegExp(`-${dimension}_${step}(?=-|$)`), '');
+}
+
+type SweptResult = TestResult & { querySweep: QuerySweepStep };
+
+// One report per sweep with at least two steps run, points in step order
+export function compareQuerySweeps(testResults: TestResult[]): QuerySweepReport[] {
+  const bySweep = new Map<string, SweptResult[]>();
+  for (const result of testResults) {
+    if (!result.querySweep) continue;
+    const id = withoutSweepStep(result.id, result.querySweep);
+    bySweep.set(id, [...(bySweep.get(id) || []), result as SweptResult]);
+  }
+
+  const reports: QuerySweepReport[] = [];
+  for (const [id, results] of bySweep) {
+    if (results.length < 2) continue;
+
+    const points: QuerySweepPoint[] = results
+      .map(result => ({
+        step: result.querySweep.step,
+        restResponseTime: result.restApi.success ? result.restApi.responseTime : undefined,
+        graphqlResponseTime: result.graphqlApi.success ? result.graphqlApi.responseTime : undefined,
+        restPayloadSize: result.restApi.success ? result.restApi.payloadSize : undefined,
+        graphqlPayloadSize: result.graphqlApi.success ? result.graphqlApi.payloadSize : undefined,
+      }))
+      .sort((a, b) => a.step - b.step);
+    const fit = (pick: (point: QuerySweepPoint) => number | undefined) => slope(points.map(point => ({ step: point.step, value: pick(point) })));
+
+    reports.push({
+      id,
+      testType: withoutSweepStep(results[0].testType, results[0].querySweep),
+      dimension: results[0].querySweep.dimension,
+      points,
+      latencyPerStep: { rest: fit(point => point.restResponseTime), graphql: fit(point => point.graphqlResponseTime) },
+      payloadPerStep: { rest: fit(point => point.restPayloadSize), graphql: fit(point => point.graphqlPayloadSize) },
+    });
+  }
+
+  return reports;
+}
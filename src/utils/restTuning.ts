@@ -0,0 +1,105 @@
+// Table API tuning matrix: expanding it into runs and comparing the runs of one test
+
+import { GraphQLValueShape, RestDisplayValue, RestTuningMatrix, RestTuningOptions, RestTuningReport, TestResult } from '../types';
+
+// What the Table API does when none of the tuning parameters are sent
+export const defaultRestTuning: RestTuningOptions = {
+  displayValue: 'false',
+  excludeReferenceLink: false,
+  noCount: false,
+  suppressPaginationHeader: false,
+};
+
+// REST display value returning what a GraphQL value shape selects, so both payloads carry the same data
+export const restDisplayValueForShape: Record<GraphQLValueShape, RestDisplayValue> = {
+  value: 'false',
+  displayValue: 'true',
+  both: 'all',
+};
+
+// No axis selected: REST calls are sent without tuning parameters
+export const emptyRestTuningMatrix: RestTuningMatrix = {
+  displayValue: [],
+  excludeReferenceLink: [],
+  noCount: [],
+  suppressPaginationHeader: [],
+};
+
+// Every combination of the selected values; an empty axis keeps the Table API default
+export function expandRestTuning(matrix: RestTuningMatrix | undefined): RestTuningOptions[] {
+  if (!matrix) return [];
+
+  const axis = <T>(values: T[], fallback: T): T[] => (values.length > 0 ? values : [fallback]);
+
+  const combinations: RestTuningOptions[] = [];
+  for (const displayValue of axis(matrix.displayValue, defaultRestTuning.displayValue)) {
+    for (const excludeReferenceLink of axis(matrix.excludeReferenceLink, defaultRestTuning.excludeReferenceLink)) {
+      for (const noCount of axis(matrix.noCount, defaultRestTuning.noCount)) {
+        for (const suppressPaginationHeader of axis(matrix.suppressPaginationHeader, defaultRestTuning.suppressPaginationHeader)) {
+          combinations.push({ displayValue, excludeReferenceLink, noCount, suppressPaginationHeader });
+        }
+      }
+    }
+  }
+  return combinations;
+}
+
+// Appended to test ids, so it avoids the '-' and ':' separators those already use
+export function restTuningLabel(tuning: RestTuningOptions): string {
+  return [
+    `dv_${tuning.displayValue}`,
+    tuning.excludeReferenceLink && 'nolink',
+    tuning.noCount && 'nocount',
+    tuning.suppressPaginationHeader && 'nopage',
+  ].filter(Boolean).join('+');
+}
+
+// Used for both the id and the test type of a tuned run
+export function withRestTuning(testId: string, tuning: RestTuningOptions): string {
+  return `${testId}-${restTuningLabel(tuning)}`;
+}
+
+function withoutRestTuning(testId: string, tuning: RestTuningOptions): string {
+  return testId.slice(0, -(restTuningLabel(tuning).length + 1));
+}
+
+type TunedResult = TestResult & { restTuning: RestTuningOptions };
+
+// One report per test that ran with more than one tuning, in run order
+export function compareRestTuning(testResults: TestResult[]): RestTuningReport[] {
+  const byTest = new Map<string, TunedResult[]>();
+  for (const result of testResults) {
+    if (!result.restTuning || !result.restApi.success) continue;
+    const id = withoutRestTuning(result.id, result.restTuning);
+    byTest.set(id, [...(byTest.get(id) || []), result as TunedResult]);
+  }
+
+  const reports: RestTuningReport[] = [];
+  for (const [id, results] of byTest) {
+    if (results.length < 2) continue;
+
+    const entries = results.map(result => ({
+      tuning: result.restTuning,
+      label: restTuningLabel(result.restTuning),
+      restResponseTime: result.restApi.responseTime,
+      restPayloadSize: result.restApi.payloadSize,
+      graphqlResponseTime: result.graphqlApi.success ? result.graphqlApi.responseTime : undefined,
+      dataConsistency: result.dataComparison?.dataConsistency,
+      winner: result.winner,
+    }));
+    const best = entries.reduce((fastest, entry) => (entry.restResponseTime < fastest.restResponseTime ? entry : fastest));
+    const graphqlTimes = entries.map(entry => entry.graphqlResponseTime).filter((time): time is number => time !== undefined);
+    const graphqlResponseTime = graphqlTimes.length > 0 ? graphqlTimes.sort((a, b) => a - b)[Math.floor(graphqlTimes.length / 2)] : undefined;
+
+    reports.push({
+      id,
+      testType: withoutRestTuning(results[0].testType, results[0].restTuning),
+      entries,
+      bestLabel: best.label,
+      graphqlResponseTime,
+      graphqlBeatsBestRest: graphqlResponseTime !== undefined && graphqlResponseTime < best.restResponseTime,
+    });
+  }
+
+  return reports;
+}
@@ -0,0 +1,75 @@
+// Compares two saved runs test by test to spot regressions and flipped winners
+
+import { BenchmarkRun, MetricDelta, RunDiff, RunDiffApiDelta, RunDiffEntry, TestResult } from '../types';
+
+// Response time growth, in percent, above which a test is flagged as a regression
+export const DEFAULT_REGRESSION_THRESHOLD = 10;
+
+export function metricDelta(baseline?: number, candidate?: number): MetricDelta {
+  if (baseline === undefined || candidate === undefined) {
+    return { baseline, candidate };
+  }
+
+  const delta = candidate - baseline;
+  return {
+    baseline,
+    candidate,
+    delta,
+    deltaPercent: baseline > 0 ? (delta / baseline) * 100 : undefined,
+  };
+}
+
+function apiDelta(
+  baseline: TestResult['graphqlApi'] | undefined,
+  candidate: TestResult['graphqlApi'] | undefined,
+  regressionThreshold: number
+): RunDiffApiDelta {
+  // Failed calls have no meaningful timing
+  const baselineOk = baseline?.success ? baseline : undefined;
+  const candidateOk = candidate?.success ? candidate : undefined;
+  const responseTime = metricDelta(baselineOk?.responseTime, candidateOk?.responseTime);
+
+  return {
+    responseTime,
+    payloadSize: metricDelta(baselineOk?.payloadSize, candidateOk?.payloadSize),
+    regressed: responseTime.deltaPercent !== undefined && responseTime.deltaPercent > regressionThreshold,
+  };
+}
+
+export function diffTestResults(baseline: TestResult, candidate: TestResult, regressionThreshold = DEFAULT_REGRESSION_THRESHOLD): RunDiffEntry {
+  return {
+    id: candidate.id,
+    testType: candidate.testType,
+    category: candidate.category ?? baseline.category,
+    rest: apiDelta(baseline.restApi, candidate.restApi, regressionThreshold),
+    graphql: apiDelta(baseline.graphqlApi, candidate.graphqlApi, regressionThreshold),
+    batch: baseline.batchApi || candidate.batchApi
+      ? apiDelta(baseline.batchApi, candidate.batchApi, regressionThreshold)
+      : undefined,
+    consistency: metricDelta(baseline.dataComparison?.dataConsistency, candidate.dataComparison?.dataConsistency),
+    baselineWinner: baseline.winner,
+    candidateWinner: candidate.winner,
+    winnerFlipped: baseline.winner !== candidate.winner,
+  };
+}
+
+// Matches results by test id (category-variant-scenario-limit)
+export function diffRuns(baseline: BenchmarkRun, candidate: BenchmarkRun, regressionThreshold = DEFAULT_REGRESSION_THRESHOLD): RunDiff {
+  const baselineResults = new Map(baseline.results.map(result => [result.id, result]));
+  const candidateIds = new Set(candidate.results.map(result => result.id));
+
+  const entries = candidate.results
+    .filter(result => baselineResults.has(result.id))
+    .map(result => diffTestResults(baselineResults.get(result.id)!, result, regressionThreshold));
+
+  return {
+    baselineId: baseline.id,
+    candidateId: candidate.id,
+    regressionThreshold,
+    entries,
+    onlyInBaseline: baseline.results.filter(result => !candidateIds.has(result.id)).map(result => result.id),
+    onlyInCandidate: candidate.results.filter(result => !baselineResults.has(result.id)).map(result => result.id),
+    regressionCount: entries.filter(entry => entry.rest.regressed || entry.graphql.regressed || entry.batch?.regressed).length,
+    winnerFlipCount: entries.filter(entry => entry.winnerFlipped).length,
+  };
+}
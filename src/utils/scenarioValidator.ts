@@ -64,7 +64,8 @@ function extractMultiTableScenarios(): Array<{
 
   // Check schemaTailoringTests
   Object.entries(testSpecs.schemaTailoringTests).forEach(([variantName, variant]) => {
-    if (variant.scenarios) {
+    // Generated width sweeps are single-table, so only listed scenarios can have REST calls
+    if ('scenarios' in variant) {
       variant.scenarios.forEach(scenario => {
         if (scenario.restCalls && scenario.restCalls.length > 0) {
           scenarios.push({
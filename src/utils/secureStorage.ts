@@ -1,23 +1,23 @@
+import { InstanceAuthMode, InstanceProfile } from '../types';
+import { credentialVault } from './credentialVault';
+
 // Secure credential storage utilities
-// This provides basic obfuscation for client-side storage - NOT cryptographically secure
-// For production use, implement proper server-side credential management
+// Credentials and instance profiles are kept in the credential vault, encrypted under the user's passphrase
 
 interface SecureCredentials {
   url: string;
   username: string;
   password: string;
   token: string;
+  authMode?: InstanceAuthMode;
+  apiKey?: string;
 }
 
 const STORAGE_KEY = 'snow_benchmark_credentials';
+const PROFILES_STORAGE_KEY = 'snow_benchmark_profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'snow_benchmark_active_profile';
 
-// Basic obfuscation for client-side storage (NOT secure encryption)
-// In production, use proper server-side credential management
-function obfuscate(text: string): string {
-  if (!text) return '';
-  return btoa(text.split('').reverse().join(''));
-}
-
+// Entries written before the vault used reversed base64, which is only read to migrate them
 function deobfuscate(obfuscated: string): string {
   if (!obfuscated) return '';
   try {
@@ -27,44 +27,86 @@ function deobfuscate(obfuscated: string): string {
   }
 }
 
-export function storeCredentials(credentials: SecureCredentials): void {
-  try {
-    const obfuscated = {
-      url: credentials.url, // URL can be visible
-      username: obfuscate(credentials.username),
-      password: obfuscate(credentials.password),
-      token: obfuscate(credentials.token)
-    };
-    
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(obfuscated));
-  } catch (error) {
-    console.error('Failed to store credentials:', error);
-  }
-}
-
-export function retrieveCredentials(): SecureCredentials | null {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return null;
-    
-    const obfuscated = JSON.parse(stored);
+credentialVault.register<SecureCredentials>(STORAGE_KEY, {
+  migrate: legacy => {
+    const obfuscated = legacy as Record<string, string>;
     return {
       url: obfuscated.url || '',
+      authMode: obfuscated.authMode as InstanceAuthMode,
       username: deobfuscate(obfuscated.username || ''),
       password: deobfuscate(obfuscated.password || ''),
-      token: deobfuscate(obfuscated.token || '')
+      token: deobfuscate(obfuscated.token || ''),
+      apiKey: deobfuscate(obfuscated.apiKey || '')
     };
+  },
+  withoutSecrets: credentials => ({ ...credentials, password: '', token: '', apiKey: undefined })
+});
+
+credentialVault.register<InstanceProfile[]>(PROFILES_STORAGE_KEY, {
+  migrate: legacy =>
+    (legacy as InstanceProfile[]).map(profile => ({
+      ...profile,
+      username: deobfuscate(profile.username || ''),
+      password: deobfuscate(profile.password || ''),
+      token: deobfuscate(profile.token || ''),
+      apiKey: profile.apiKey && deobfuscate(profile.apiKey),
+      oauth: profile.oauth && { ...profile.oauth, clientSecret: deobfuscate(profile.oauth.clientSecret || '') }
+    })),
+  withoutSecrets: profiles =>
+    profiles.map(profile => ({
+      ...profile,
+      password: '',
+      token: '',
+      apiKey: undefined,
+      oauth: profile.oauth && { ...profile.oauth, clientSecret: '' }
+    }))
+});
+
+export function storeCredentials(credentials: SecureCredentials): void {
+  credentialVault.write<SecureCredentials>(STORAGE_KEY, {
+    url: credentials.url,
+    authMode: credentials.authMode,
+    username: credentials.username,
+    password: credentials.password,
+    token: credentials.token,
+    apiKey: credentials.apiKey
+  });
+}
+
+export function retrieveCredentials(): SecureCredentials | null {
+  return credentialVault.read<SecureCredentials>(STORAGE_KEY) ?? null;
+}
+
+export function clearCredentials(): void {
+  credentialVault.write(STORAGE_KEY, undefined);
+}
+
+export function storeProfiles(profiles: InstanceProfile[]): void {
+  credentialVault.write(PROFILES_STORAGE_KEY, profiles);
+}
+
+export function retrieveProfiles(): InstanceProfile[] {
+  return credentialVault.read<InstanceProfile[]>(PROFILES_STORAGE_KEY) ?? [];
+}
+
+export function storeActiveProfileId(id: string | null): void {
+  try {
+    if (id) {
+      localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+    }
   } catch (error) {
-    console.error('Failed to retrieve credentials:', error);
-    return null;
+    console.error('Failed to store active profile:', error);
   }
 }
 
-export function clearCredentials(): void {
+export function retrieveActiveProfileId(): string | null {
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    return localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
   } catch (error) {
-    console.error('Failed to clear credentials:', error);
+    console.error('Failed to retrieve active profile:', error);
+    return null;
   }
 }
 
@@ -0,0 +1,70 @@
+// Server-side timing: tagging benchmark requests and reading their transactions back from syslog_transaction
+
+import { ServerTiming } from '../types';
+
+// syslog_transaction records the URL but no request headers, so the tag travels as a query parameter
+export const CORRELATION_PARAM = 'bench_correlation_id';
+
+// Ids per lookup, keeping the encoded query well inside URL length limits
+export const TRANSACTION_LOOKUP_CHUNK = 40;
+
+const TRANSACTION_FIELDS = ['url', 'response_time', 'sql_time', 'business_rule_time', 'semaphore_wait_time'];
+
+let correlationCounter = 0;
+
+// Unique within the run and across runs; plain characters so it survives URL encoding and LIKE matching
+export function newCorrelationId(): string {
+  correlationCounter = (correlationCounter + 1) % 1_000_000;
+  return `bench${Date.now().toString(36)}${correlationCounter.toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Replaces any tag already present, e.g. on Link header URLs built from a tagged request; the rest of the URL is kept as is
+export function withCorrelationId(endpoint: string, correlationId: string): string {
+  const untagged = endpoint.replace(new RegExp(`([?&])${CORRELATION_PARAM}=[^&]*(&|$)`), (_, before, after) => (after ? before : ''));
+  return `${untagged}${untagged.includes('?') ? '&' : '?'}${CORRELATION_PARAM}=${correlationId}`;
+}
+
+const tagOf = (correlationId: string) => `${CORRELATION_PARAM}=${correlationId}`;
+
+// The tag of a request URL, e.g. the name of its resource timing entry
+export function correlationIdOf(url: string): string | undefined {
+  return new RegExp(`[?&]${CORRELATION_PARAM}=([^&#]+)`).exec(url)?.[1];
+}
+
+// Lookups are transactions too; their own log entries are left out
+export function buildTransactionLogUrl(correlationIds: string[]): string {
+  const params = new URLSearchParams({
+    sysparm_query: `${correlationIds.map(id => `urlLIKE${tagOf(id)}`).join('^OR')}^urlNOT LIKEsyslog_transaction`,
+    sysparm_fields: TRANSACTION_FIELDS.join(','),
+    sysparm_exclude_reference_link: 'true',
+    sysparm_limit: String(correlationIds.length * 2),
+  });
+  return `api/now/table/syslog_transaction?${params.toString()}`;
+}
+
+function parseMilliseconds(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+// One timing per correlation id found in the log, keyed by id
+export function parseTransactionLog(responseBody: unknown, correlationIds: string[]): Map<string, ServerTiming> {
+  const records = (responseBody as { result?: Array<Record<string, unknown>> } | undefined)?.result || [];
+  const timings = new Map<string, ServerTiming>();
+
+  for (const record of records) {
+    const url = String(record.url ?? '');
+    const correlationId = correlationIds.find(id => url.includes(tagOf(id)));
+    if (!correlationId || timings.has(correlationId)) continue;
+
+    timings.set(correlationId, {
+      correlationId,
+      responseTime: parseMilliseconds(record.response_time),
+      sqlTime: parseMilliseconds(record.sql_time),
+      businessRuleTime: parseMilliseconds(record.business_rule_time),
+      semaphoreWait: parseMilliseconds(record.semaphore_wait_time),
+    });
+  }
+
+  return timings;
+}
@@ -0,0 +1,210 @@
+// Descriptive statistics and significance testing for response time samples
+
+import { BatchComparisonStatistics, ComparisonStatistics, OutlierPolicy, ResponseTimeStatistics, SignificanceTestResult, TestWinner } from '../types';
+
+// Significance level used to decide whether one API is really faster
+export const DEFAULT_ALPHA = 0.05;
+
+// Above this many samples per side the exact U distribution gets expensive; use the normal approximation
+const EXACT_TEST_MAX_SAMPLES = 20;
+
+// Percentile with linear interpolation between closest ranks; expects sorted input
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  if (sorted.length === 1) return sorted[0];
+
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function computeResponseTimeStatistics(samples: number[]): ResponseTimeStatistics {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const count = sorted.length;
+
+  if (count === 0) {
+    return { sampleCount: 0, mean: 0, median: 0, min: 0, max: 0, p90: 0, p95: 0, p99: 0, standardDeviation: 0, coefficientOfVariation: 0 };
+  }
+
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / count;
+  // Sample standard deviation (n - 1)
+  const variance = count > 1 ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1) : 0;
+  const standardDeviation = Math.sqrt(variance);
+
+  return {
+    sampleCount: count,
+    mean,
+    median: percentile(sorted, 50),
+    min: sorted[0],
+    max: sorted[count - 1],
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    standardDeviation,
+    coefficientOfVariation: mean > 0 ? (standardDeviation / mean) * 100 : 0,
+  };
+}
+
+// Split samples into the ones kept for comparison and the rejected outliers, preserving measurement order
+export function applyOutlierPolicy(samples: number[], policy: OutlierPolicy): { kept: number[]; discarded: number[] } {
+  if (policy === 'dropMinMax') {
+    // Needs at least one sample left after removing both extremes
+    if (samples.length < 3) return { kept: [...samples], discarded: [] };
+
+    const minIndex = samples.indexOf(Math.min(...samples));
+    const maxIndex = samples.lastIndexOf(Math.max(...samples));
+    return {
+      kept: samples.filter((_, index) => index !== minIndex && index !== maxIndex),
+      discarded: samples.filter((_, index) => index === minIndex || index === maxIndex),
+    };
+  }
+
+  if (policy === 'iqr') {
+    // Tukey's fences: outside [Q1 - 1.5 IQR, Q3 + 1.5 IQR]
+    if (samples.length < 4) return { kept: [...samples], discarded: [] };
+
+    const sorted = [...samples].sort((a, b) => a - b);
+    const q1 = percentile(sorted, 25);
+    const q3 = percentile(sorted, 75);
+    const fence = 1.5 * (q3 - q1);
+    const isOutlier = (value: number) => value < q1 - fence || value > q3 + fence;
+    return { kept: samples.filter(value => !isOutlier(value)), discarded: samples.filter(isOutlier) };
+  }
+
+  return { kept: [...samples], discarded: [] };
+}
+
+// Ranks with ties sharing their average rank
+function rank(values: number[]): { ranks: number[]; tieSizes: number[] } {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  const tieSizes: number[] = [];
+
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = averageRank;
+    if (j > i) tieSizes.push(j - i + 1);
+    i = j + 1;
+  }
+
+  return { ranks, tieSizes };
+}
+
+// Number of arrangements giving each U value for sample sizes m and n (no ties)
+function exactUDistribution(m: number, n: number): number[] {
+  // counts[i][j][u] built up iteratively: f(i, j, u) = f(i - 1, j, u - j) + f(i, j - 1, u)
+  let previousRow: number[][] = Array.from({ length: n + 1 }, () => [1]);
+
+  for (let i = 1; i <= m; i++) {
+    const row: number[][] = [[1]];
+    for (let j = 1; j <= n; j++) {
+      const maxU = i * j;
+      const counts = new Array<number>(maxU + 1).fill(0);
+      const withoutI = previousRow[j];
+      const withoutJ = row[j - 1];
+      for (let u = 0; u <= maxU; u++) {
+        counts[u] = (u - j >= 0 ? withoutI[u - j] || 0 : 0) + (withoutJ[u] || 0);
+      }
+      row.push(counts);
+    }
+    previousRow = row;
+  }
+
+  return previousRow[n];
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Two-sided Mann-Whitney U test: do the two samples come from the same distribution?
+export function mannWhitneyUTest(a: number[], b: number[], alpha = DEFAULT_ALPHA): SignificanceTestResult {
+  const m = a.length;
+  const n = b.length;
+
+  if (m === 0 || n === 0) {
+    return { method: 'mann-whitney-u', exact: true, statistic: 0, pValue: 1, alpha, significant: false };
+  }
+
+  const { ranks, tieSizes } = rank([...a, ...b]);
+  const rankSumA = ranks.slice(0, m).reduce((sum, value) => sum + value, 0);
+  const uA = rankSumA - (m * (m + 1)) / 2;
+  const u = Math.min(uA, m * n - uA);
+
+  let pValue: number;
+  let exact = false;
+
+  if (tieSizes.length === 0 && m <= EXACT_TEST_MAX_SAMPLES && n <= EXACT_TEST_MAX_SAMPLES) {
+    const distribution = exactUDistribution(m, n);
+    const total = distribution.reduce((sum, count) => sum + count, 0);
+    const lowerTail = distribution.slice(0, Math.floor(u) + 1).reduce((sum, count) => sum + count, 0) / total;
+    pValue = Math.min(1, 2 * lowerTail);
+    exact = true;
+  } else {
+    const total = m + n;
+    const tieCorrection = tieSizes.reduce((sum, t) => sum + (t ** 3 - t), 0) / (total * (total - 1));
+    const sigma = Math.sqrt(((m * n) / 12) * (total + 1 - tieCorrection));
+    const z = sigma > 0 ? (Math.abs(uA - (m * n) / 2) - 0.5) / sigma : 0;
+    pValue = Math.min(1, 2 * (1 - normalCdf(Math.max(0, z))));
+  }
+
+  return { method: 'mann-whitney-u', exact, statistic: u, pValue, alpha, significant: pValue < alpha };
+}
+
+// Describe both samples and test whether their difference is significant
+export function compareResponseTimes(restSamples: number[], graphqlSamples: number[], alpha = DEFAULT_ALPHA): ComparisonStatistics {
+  const rest = computeResponseTimeStatistics(restSamples);
+  const graphql = computeResponseTimeStatistics(graphqlSamples);
+
+  return {
+    rest,
+    graphql,
+    significance: mannWhitneyUTest(restSamples, graphqlSamples, alpha),
+    medianDifference: graphql.median - rest.median,
+  };
+}
+
+// Winner only when the difference is statistically significant, otherwise a tie
+export function determineWinner(statistics: ComparisonStatistics): 'rest' | 'graphql' | 'tie' {
+  if (!statistics.significance.significant || statistics.medianDifference === 0) {
+    return 'tie';
+  }
+  return statistics.medianDifference > 0 ? 'rest' : 'graphql';
+}
+
+export function compareBatchResponseTimes(
+  batchSamples: number[],
+  restSamples: number[],
+  graphqlSamples: number[],
+  alpha = DEFAULT_ALPHA
+): BatchComparisonStatistics {
+  return {
+    batch: computeResponseTimeStatistics(batchSamples),
+    versusRest: mannWhitneyUTest(batchSamples, restSamples, alpha),
+    versusGraphql: mannWhitneyUTest(batchSamples, graphqlSamples, alpha),
+  };
+}
+
+// With three contenders the fastest median only wins when it differs significantly from both others
+export function determineThreeWayWinner(statistics: ComparisonStatistics, batchStatistics: BatchComparisonStatistics): TestWinner {
+  const medians = { rest: statistics.rest.median, graphql: statistics.graphql.median, batch: batchStatistics.batch.median };
+  const sorted = (Object.keys(medians) as Array<keyof typeof medians>).sort((a, b) => medians[a] - medians[b]);
+  const fastest = sorted[0];
+  if (medians[fastest] === medians[sorted[1]]) {
+    return 'tie';
+  }
+
+  const tests: Record<typeof fastest, SignificanceTestResult[]> = {
+    rest: [statistics.significance, batchStatistics.versusRest],
+    graphql: [statistics.significance, batchStatistics.versusGraphql],
+    batch: [batchStatistics.versusRest, batchStatistics.versusGraphql],
+  };
+  return tests[fastest].every(test => test.significant) ? fastest : 'tie';
+}
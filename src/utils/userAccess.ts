@@ -0,0 +1,59 @@
+// Compares what REST and GraphQL exposed to each user of a user comparison run
+
+import { ApiVisibility, DataVisibility, TestResult, UserAccessEntry, UserAccessReport, UserApiAccess } from '../types';
+import { baseTestId } from './instanceProfiles';
+
+type VisibleResult = TestResult & { instance: NonNullable<TestResult['instance']>; visibility: DataVisibility };
+
+// Everything one API showed to at least one user is the reference for what the others could not see
+function apiAccess(visibility: ApiVisibility, everyone: ApiVisibility[]): UserApiAccess {
+  const allRecordIds = new Set(everyone.flatMap(other => other.recordIds));
+  const allFields = new Set(everyone.flatMap(other => other.fields));
+
+  return {
+    recordCount: visibility.recordIds.length,
+    fields: visibility.fields,
+    hiddenRecordIds: Array.from(allRecordIds).filter(id => !visibility.recordIds.includes(id)),
+    hiddenFields: Array.from(allFields).filter(field => !visibility.fields.includes(field)),
+  };
+}
+
+function isConsistent(entry: UserAccessEntry): boolean {
+  return entry.rest.recordCount === entry.graphql.recordCount &&
+    entry.restOnlyFields.length === 0 &&
+    entry.graphqlOnlyFields.length === 0;
+}
+
+// One report per test that ran as more than one user, in run order
+export function compareUserAccess(testResults: TestResult[]): UserAccessReport[] {
+  const byTest = new Map<string, VisibleResult[]>();
+  for (const result of testResults) {
+    if (!result.instance || !result.visibility) continue;
+    const id = baseTestId(result);
+    byTest.set(id, [...(byTest.get(id) || []), result as VisibleResult]);
+  }
+
+  const reports: UserAccessReport[] = [];
+  for (const [id, results] of byTest) {
+    if (results.length < 2) continue;
+
+    const restVisibility = results.map(result => result.visibility.rest);
+    const graphqlVisibility = results.map(result => result.visibility.graphql);
+    const users = results.map(result => ({
+      instance: result.instance,
+      rest: apiAccess(result.visibility.rest, restVisibility),
+      graphql: apiAccess(result.visibility.graphql, graphqlVisibility),
+      restOnlyFields: result.visibility.restOnlyFields,
+      graphqlOnlyFields: result.visibility.graphqlOnlyFields,
+    }));
+
+    reports.push({
+      id,
+      testType: results[0].testType,
+      users,
+      consistent: users.every(isConsistent),
+    });
+  }
+
+  return reports;
+}
@@ -0,0 +1,36 @@
+import { defineConfig } from "vite";
+import path from "path";
+import { readFileSync } from "fs";
+
+const packageJson = JSON.parse(readFileSync(path.resolve(__dirname, "package.json"), "utf8"));
+
+// Bundles the Node entry points: the headless benchmark runner (src/cli) and the mock instance (src/mockServer)
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  ssr: {
+    noExternal: true,
+  },
+  // Same as the app build, so shared modules that read the version resolve it
+  define: {
+    __APP_VERSION__: JSON.stringify(packageJson.version),
+  },
+  build: {
+    ssr: true,
+    outDir: "dist-cli",
+    target: "node18",
+    minify: false,
+    rollupOptions: {
+      input: {
+        benchmark: "src/cli/benchmark.ts",
+        "mock-server": "src/mockServer/index.ts",
+      },
+      output: {
+        entryFileNames: "[name].js",
+      },
+    },
+  },
+});
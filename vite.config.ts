@@ -1,9 +1,12 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { readFileSync } from "fs";
 import { componentTagger } from "lovable-tagger";
 import { viteSingleFile } from "vite-plugin-singlefile";
 
+const packageJson = JSON.parse(readFileSync(path.resolve(__dirname, "package.json"), "utf8"));
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -46,6 +49,8 @@ export default defineConfig(({ mode }) => ({
   },
   // Environment variables for production deployment
   define: {
-    'process.env.NODE_ENV': JSON.stringify(mode)
+    'process.env.NODE_ENV': JSON.stringify(mode),
+    // Recorded with every saved run
+    __APP_VERSION__: JSON.stringify(packageJson.version)
   }
 }));